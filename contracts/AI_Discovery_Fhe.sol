@@ -1,11 +1,44 @@
 pragma solidity ^0.8.24;
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, euint128, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract AIDiscoveryFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
+    using FHE for euint128;
     using FHE for ebool;
 
+    // Statistics selectable in requestStatistics. Decrypted values are returned in this order,
+    // mean and variance scaled by 1000, followed by one count per histogram bucket.
+    uint8 public constant STAT_MEAN = 1 << 0;
+    uint8 public constant STAT_VARIANCE = 1 << 1;
+    uint8 public constant STAT_MIN = 1 << 2;
+    uint8 public constant STAT_MAX = 1 << 3;
+    uint8 public constant STAT_HISTOGRAM = 1 << 4;
+    uint8 internal constant STAT_ALL = STAT_MEAN | STAT_VARIANCE | STAT_MIN | STAT_MAX | STAT_HISTOGRAM;
+    uint256 public constant MAX_HISTOGRAM_BOUNDS = 15;
+
+    // Scale applied to the mean of batches opened with openBatch().
+    uint64 public constant DEFAULT_SCALE = 1000;
+
+    // Differential-privacy noise is drawn in steps of b * ln 2 (ln 2 in millionths), at most this many each way.
+    uint256 internal constant LN2_MICRO = 693147;
+    uint256 internal constant MAX_NOISE_STEPS = 16;
+
+    // Which points a threshold query counts: above `lower`, below `upper`, or within [lower, upper].
+    enum QueryKind {
+        Above,
+        Below,
+        Between
+    }
+
+    // Width of the encrypted accumulator used to average a batch.
+    enum Precision {
+        Uint32,
+        Uint64,
+        Uint128
+    }
+
     error NotOwner();
     error NotProvider();
     error Paused();
@@ -14,8 +47,11 @@ contract AIDiscoveryFHE is SepoliaConfig {
     error InvalidParameter();
     error ReplayDetected();
     error StateMismatch();
-    error InvalidProof();
     error NotInitialized();
+    error QuotaExceeded();
+    error BatchTooSmall();
+    error PrivacyBudgetExhausted();
+    error DifferentialPrivacyEnabled();
 
     address public owner;
     mapping(address => bool) public isProvider;
@@ -30,21 +66,156 @@ contract AIDiscoveryFHE is SepoliaConfig {
 
     struct DecryptionContext {
         uint256 batchId;
-        bytes32 stateHash;
         bool processed;
+        bytes32[] handles; // ciphertexts sent to the decryption oracle
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    struct StatisticsContext {
+        uint256 batchId;
+        uint8 statsMask;
+        bool processed;
+        bytes32[] handles;
+    }
+    mapping(uint256 => StatisticsContext) public statisticsContexts;
+
+    struct BatchPrecision {
+        Precision precision;
+        uint64 scale;
+    }
+    mapping(uint256 => BatchPrecision) public batchPrecision;
+
+    // Describes a batch when it is opened. The field schema document is only kept as a content hash.
+    struct BatchDescriptor {
+        string category;
+        string units;
+        string schema;
+        uint32 maxPointsPerProvider; // 0 for no quota
+        uint64 closesAt; // unix timestamp after which submissions are refused, 0 for no deadline
+    }
+
+    struct BatchMetadata {
+        string category;
+        string units;
+        bytes32 schemaHash;
+        uint32 maxPointsPerProvider;
+        uint64 closesAt;
+    }
+    mapping(uint256 => BatchMetadata) internal batchMetadata;
+    mapping(uint256 => mapping(address => uint256)) public pointsSubmitted;
+
+    struct QueryContext {
+        uint256 batchId;
+        QueryKind kind;
+        bool processed;
+        bytes32[] handles;
+    }
+    mapping(uint256 => QueryContext) public queryContexts;
+
+    // Both batches of a pair point at each other; 0 for unpaired batches.
+    mapping(uint256 => uint256) public pairedBatch;
+
+    // Running sums over the pairs of two paired batches, keyed by the batch opened first (x). They are
+    // updated on submission, so requesting the correlation costs the same for any number of pairs.
+    struct PairSums {
+        euint64 sumX;
+        euint64 sumY;
+        euint64 sumXY;
+        euint64 sumXX;
+        euint64 sumYY;
+        // Set once a sum of products wrapped around; the sums of x and y cannot wrap 64 bits.
+        ebool overflowed;
+    }
+    mapping(uint256 => PairSums) internal pairSums;
+
+    struct CorrelationContext {
+        uint256 batchId;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => CorrelationContext) public correlationContexts;
+
+    // k-anonymity: nothing derived from a batch is decrypted before it holds this many points from this
+    // many distinct providers, so no result reveals a single provider's values.
+    uint32 public minBatchPoints;
+    uint32 public minBatchProviders;
+    mapping(uint256 => uint256) public providerCount;
+
+    // Optional per-batch differential privacy: every requestDiscovery spends `epsilon` of the batch's
+    // `budget` and adds noise to the average, and no exact result is decrypted. Epsilons are in thousandths.
+    struct DifferentialPrivacy {
+        uint32 maxValue; // points are clipped to this, which bounds one point's effect on the average
+        uint32 epsilon;
+        uint32 budget;
+        uint32 spent;
+    }
+    mapping(uint256 => DifferentialPrivacy) public differentialPrivacy;
+    // Added to noisy averages before decryption so they stay positive; subtracted again in myCallback.
+    mapping(uint256 => uint256) internal noiseOffsets;
+
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event PauseToggled(bool indexed isPaused);
     event CooldownSecondsSet(uint256 indexed oldCooldown, uint256 indexed newCooldown);
+    event PrivacyThresholdsSet(uint32 minBatchPoints, uint32 minBatchProviders);
+    event DifferentialPrivacySet(uint256 indexed batchId, uint32 maxValue, uint32 epsilon, uint32 budget);
+    // `noiseScale` is the Laplace scale b of the noise, in the units of the scaled average.
+    event NoiseAdded(uint256 indexed requestId, uint256 indexed batchId, uint32 epsilon, uint256 noiseScale);
     event BatchOpened(uint256 indexed batchId);
     event BatchClosed(uint256 indexed batchId);
+    event BatchExpired(uint256 indexed batchId, address indexed finalizer);
     event DataSubmitted(address indexed provider, uint256 indexed batchId, uint256 count);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 result);
+    event BatchPrecisionSet(uint256 indexed batchId, Precision precision, uint64 scale);
+    event BatchMetadataSet(
+        uint256 indexed batchId,
+        string category,
+        string units,
+        string schema,
+        bytes32 schemaHash,
+        uint32 maxPointsPerProvider,
+        uint64 closesAt
+    );
+    event DecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 result,
+        uint64 scale,
+        bool overflowed
+    );
+    event StatisticsRequested(uint256 indexed requestId, uint256 indexed batchId, uint8 statsMask, uint32[] bucketBounds);
+    event StatisticsCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint8 statsMask,
+        uint64 scale,
+        bytes cleartexts
+    );
+    // `lower` and `upper` are 0 when the thresholds are encrypted.
+    event QueryRequested(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        QueryKind kind,
+        bool encryptedThresholds,
+        uint32 lower,
+        uint32 upper
+    );
+    event QueryCompleted(uint256 indexed requestId, uint256 indexed batchId, QueryKind kind, uint256 count);
+    event BatchesPaired(uint256 indexed batchId, uint256 indexed pairedBatchId);
+    event CorrelationRequested(uint256 indexed requestId, uint256 indexed batchId, uint256 indexed pairedBatchId);
+    // Sums over the points of `batchId` (x) and the points submitted with them to its paired batch (y).
+    event CorrelationCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 count,
+        uint256 sumX,
+        uint256 sumY,
+        uint256 sumXY,
+        uint256 sumXX,
+        uint256 sumYY,
+        bool overflowed
+    );
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -80,6 +251,7 @@ contract AIDiscoveryFHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         emit OwnershipTransferred(address(0), msg.sender);
+        _setPrivacyThresholds(1, 1);
     }
 
     function transferOwnership(address newOwner) external onlyOwner {
@@ -111,84 +283,601 @@ contract AIDiscoveryFHE is SepoliaConfig {
         emit CooldownSecondsSet(oldCooldown, _cooldownSeconds);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
+    /// @notice Sets the points and distinct providers a closed batch needs before anything about it is decrypted.
+    function setPrivacyThresholds(uint32 _minBatchPoints, uint32 _minBatchProviders) external onlyOwner {
+        _setPrivacyThresholds(_minBatchPoints, _minBatchProviders);
+    }
+
+    function _setPrivacyThresholds(uint32 _minBatchPoints, uint32 _minBatchProviders) internal {
+        // Every provider contributes at least one point.
+        if (_minBatchProviders == 0 || _minBatchPoints < _minBatchProviders) revert InvalidParameter();
+        minBatchPoints = _minBatchPoints;
+        minBatchProviders = _minBatchProviders;
+        emit PrivacyThresholdsSet(_minBatchPoints, _minBatchProviders);
+    }
+
+    function meetsPrivacyThresholds(uint256 batchId) public view returns (bool) {
+        return
+            encryptedDataBatches[batchId].length >= minBatchPoints && providerCount[batchId] >= minBatchProviders;
+    }
+
+    /// @notice Makes requestDiscovery on `batchId` return noisy averages, each spending `epsilon` of `budget`.
+    /// Must be set before the first point is submitted, so that every point is clipped to `maxValue`.
+    function setDifferentialPrivacy(
+        uint256 batchId,
+        uint32 maxValue,
+        uint32 epsilon,
+        uint32 budget
+    ) external onlyOwner {
+        // Correlations of paired batches are decrypted exactly.
+        if (!isBatchOpen[batchId] || encryptedDataBatches[batchId].length != 0 || pairedBatch[batchId] != 0) {
+            revert InvalidBatch();
+        }
+        if (maxValue == 0 || epsilon == 0 || budget < epsilon) revert InvalidParameter();
+        differentialPrivacy[batchId] = DifferentialPrivacy({
+            maxValue: maxValue,
+            epsilon: epsilon,
+            budget: budget,
+            spent: 0
+        });
+        emit DifferentialPrivacySet(batchId, maxValue, epsilon, budget);
+    }
+
+    function openBatch(BatchDescriptor calldata descriptor) external onlyOwner whenNotPaused {
+        _openBatch(descriptor, Precision.Uint32, DEFAULT_SCALE);
+    }
+
+    /// @notice Opens a batch whose mean is accumulated in `precision` ciphertexts and multiplied by `scale`.
+    function openBatchWithPrecision(
+        BatchDescriptor calldata descriptor,
+        Precision precision,
+        uint64 scale
+    ) external onlyOwner whenNotPaused {
+        if (scale == 0 || (precision == Precision.Uint32 && scale > type(uint32).max)) revert InvalidParameter();
+        _openBatch(descriptor, precision, scale);
+    }
+
+    /// @notice Opens two batches whose points are only submitted in pairs, one to each, so that their
+    /// correlation can be computed. Both close together, so they share one deadline.
+    function openPairedBatches(
+        BatchDescriptor calldata x,
+        BatchDescriptor calldata y
+    ) external onlyOwner whenNotPaused returns (uint256 batchId, uint256 pairedBatchId) {
+        if (x.closesAt != y.closesAt) revert InvalidParameter();
+        batchId = _openBatch(x, Precision.Uint64, DEFAULT_SCALE);
+        pairedBatchId = _openBatch(y, Precision.Uint64, DEFAULT_SCALE);
+        pairedBatch[batchId] = pairedBatchId;
+        pairedBatch[pairedBatchId] = batchId;
+        emit BatchesPaired(batchId, pairedBatchId);
+    }
+
+    function getBatchMetadata(uint256 batchId) external view returns (BatchMetadata memory) {
+        return batchMetadata[batchId];
+    }
+
+    function _openBatch(
+        BatchDescriptor calldata descriptor,
+        Precision precision,
+        uint64 scale
+    ) internal returns (uint256) {
+        if (bytes(descriptor.category).length == 0) revert InvalidParameter();
+        if (descriptor.closesAt != 0 && descriptor.closesAt <= block.timestamp) revert InvalidParameter();
+
         currentBatchId++;
         isBatchOpen[currentBatchId] = true;
+        batchPrecision[currentBatchId] = BatchPrecision({ precision: precision, scale: scale });
+        bytes32 schemaHash = keccak256(bytes(descriptor.schema));
+        batchMetadata[currentBatchId] = BatchMetadata({
+            category: descriptor.category,
+            units: descriptor.units,
+            schemaHash: schemaHash,
+            maxPointsPerProvider: descriptor.maxPointsPerProvider,
+            closesAt: descriptor.closesAt
+        });
         emit BatchOpened(currentBatchId);
+        emit BatchPrecisionSet(currentBatchId, precision, scale);
+        emit BatchMetadataSet(
+            currentBatchId,
+            descriptor.category,
+            descriptor.units,
+            descriptor.schema,
+            schemaHash,
+            descriptor.maxPointsPerProvider,
+            descriptor.closesAt
+        );
+        return currentBatchId;
     }
 
+    /// @notice Closes an open batch, together with its paired batch.
     function closeBatch(uint256 batchId) external onlyOwner {
         if (!isBatchOpen[batchId]) revert InvalidBatch();
+        _closeBatch(batchId);
+    }
+
+    /// Closes an open batch whose deadline has passed, and its paired batch. Callable by anyone, e.g. a keeper.
+    function finalizeExpiredBatch(uint256 batchId) external {
+        if (!isBatchExpired(batchId)) revert InvalidBatch();
+        _closeBatch(batchId);
+        emit BatchExpired(batchId, msg.sender);
+    }
+
+    function _closeBatch(uint256 batchId) internal {
         isBatchOpen[batchId] = false;
         emit BatchClosed(batchId);
+        uint256 paired = pairedBatch[batchId];
+        if (paired != 0) {
+            isBatchOpen[paired] = false;
+            emit BatchClosed(paired);
+        }
+    }
+
+    function isBatchExpired(uint256 batchId) public view returns (bool) {
+        return isBatchOpen[batchId] && _isPastDeadline(batchMetadata[batchId]);
+    }
+
+    function getBatchSize(uint256 batchId) external view returns (uint256) {
+        return encryptedDataBatches[batchId].length;
+    }
+
+    /// @notice Appends encrypted data points to an open batch.
+    /// @param dataPoints Inputs encrypted for this contract by the sender, all verified by `inputProof`.
+    function submitData(
+        uint256 batchId,
+        externalEuint32[] calldata dataPoints,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused submissionRateLimited {
+        // Paired batches only take points through submitPairedData, which keeps them aligned.
+        if (pairedBatch[batchId] != 0) revert InvalidBatch();
+        _storeDataPoints(batchId, dataPoints, inputProof);
     }
 
-    function submitData(uint256 batchId, euint32[] calldata dataPoints) external onlyProvider whenNotPaused submissionRateLimited {
+    /// @notice Appends the i-th point of `xs` to `batchId` and the i-th point of `ys` to its paired batch.
+    /// @dev Each pair costs three 64-bit multiplications and their overflow checks, so the coprocessor's
+    /// per-transaction limit allows six pairs per call. The sums of products wrap once n * max(value)^2
+    /// reaches 2^64, which sets the encrypted overflow flag decrypted with them.
+    function submitPairedData(
+        uint256 batchId,
+        externalEuint32[] calldata xs,
+        externalEuint32[] calldata ys,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused submissionRateLimited {
+        uint256 paired = pairedBatch[batchId];
+        if (paired == 0) revert InvalidBatch();
+        if (xs.length != ys.length) revert InvalidParameter();
+        uint256 start = encryptedDataBatches[batchId].length;
+        _storeDataPoints(batchId, xs, inputProof);
+        _storeDataPoints(paired, ys, inputProof);
+
+        (uint256 first, uint256 second) = batchId < paired ? (batchId, paired) : (paired, batchId);
+        PairSums storage sums = pairSums[first];
+        for (uint i = start; i < start + xs.length; i++) {
+            euint64 x = FHE.asEuint64(encryptedDataBatches[first][i]);
+            euint64 y = FHE.asEuint64(encryptedDataBatches[second][i]);
+            sums.sumX = sums.sumX.add(x);
+            sums.sumY = sums.sumY.add(y);
+            // A product of two uint32 values fits 64 bits; a wrapped sum is smaller than the product just added.
+            euint64[3] memory products = [x.mul(y), x.mul(x), y.mul(y)];
+            sums.sumXY = sums.sumXY.add(products[0]);
+            sums.sumXX = sums.sumXX.add(products[1]);
+            sums.sumYY = sums.sumYY.add(products[2]);
+            sums.overflowed = FHE.or(
+                sums.overflowed,
+                sums.sumXY.lt(products[0]).or(sums.sumXX.lt(products[1])).or(sums.sumYY.lt(products[2]))
+            );
+        }
+        FHE.allowThis(sums.sumX);
+        FHE.allowThis(sums.sumY);
+        FHE.allowThis(sums.sumXY);
+        FHE.allowThis(sums.sumXX);
+        FHE.allowThis(sums.sumYY);
+        FHE.allowThis(sums.overflowed);
+    }
+
+    function _storeDataPoints(
+        uint256 batchId,
+        externalEuint32[] calldata dataPoints,
+        bytes calldata inputProof
+    ) internal {
         if (!isBatchOpen[batchId]) revert InvalidBatch();
+        BatchMetadata storage metadata = batchMetadata[batchId];
+        if (_isPastDeadline(metadata)) revert InvalidBatch();
+        uint256 previous = pointsSubmitted[batchId][msg.sender];
+        uint256 submitted = previous + dataPoints.length;
+        if (metadata.maxPointsPerProvider != 0 && submitted > metadata.maxPointsPerProvider) revert QuotaExceeded();
+        if (previous == 0 && submitted > 0) providerCount[batchId]++;
+        pointsSubmitted[batchId][msg.sender] = submitted;
+        uint32 maxValue = differentialPrivacy[batchId].maxValue;
         for (uint i = 0; i < dataPoints.length; i++) {
-            _initIfNeeded(dataPoints[i]);
-            encryptedDataBatches[batchId].push(dataPoints[i]);
+            euint32 value = FHE.fromExternal(dataPoints[i], inputProof);
+            if (maxValue != 0) value = value.min(maxValue);
+            // Later transactions compute the batch aggregates over the stored value.
+            FHE.allowThis(value);
+            encryptedDataBatches[batchId].push(value);
         }
         emit DataSubmitted(msg.sender, batchId, dataPoints.length);
     }
 
     function requestDiscovery(uint256 batchId) external onlyProvider whenNotPaused decryptionRequestRateLimited {
-        if (isBatchOpen[batchId]) revert InvalidBatch(); // Must be closed
-        euint32[] storage data = encryptedDataBatches[batchId];
-        if (data.length == 0) revert InvalidBatch();
+        euint32[] storage data = _queryableBatch(batchId, false);
 
-        euint32 sum = FHE.asEuint32(0);
-        for (uint i = 0; i < data.length; i++) {
-            sum = sum.add(data[i]);
+        BatchPrecision memory config = batchPrecision[batchId];
+        (bytes32 average, ebool overflowed) = _scaledAverage(data, config);
+        DifferentialPrivacy storage dp = differentialPrivacy[batchId];
+        uint256 noiseScale;
+        uint256 offset;
+        if (dp.epsilon != 0) {
+            if (dp.spent + dp.epsilon > dp.budget) revert PrivacyBudgetExhausted();
+            dp.spent += dp.epsilon;
+            noiseScale = _noiseScale(dp.maxValue, config.scale, dp.epsilon, data.length);
+            (average, offset) = _addNoise(average, config.precision, noiseScale);
         }
-        euint32 average = sum.mul(FHE.asEuint32(1000)).div(FHE.asEuint32(data.length)); // average * 1000
-
-        euint32[] memory cts = new euint32[](1);
-        cts[0] = average;
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = average; // average * scale
+        cts[1] = FHE.toBytes32(overflowed);
 
-        bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, processed: false, handles: cts });
         emit DecryptionRequested(requestId, batchId);
+        if (noiseScale != 0) {
+            noiseOffsets[requestId] = offset;
+            emit NoiseAdded(requestId, batchId, dp.epsilon, noiseScale);
+        }
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         if (decryptionContexts[requestId].processed) revert ReplayDetected();
         // Security: Replay protection ensures this callback is processed only once.
 
-        euint32[] memory cts = new euint32[](1);
-        {
-            uint256 batchId = decryptionContexts[requestId].batchId;
-            euint32[] storage data = encryptedDataBatches[batchId];
-            euint32 sum = FHE.asEuint32(0);
-            for (uint i = 0; i < data.length; i++) {
-                sum = sum.add(data[i]);
+        // Security: the oracle must answer for the ciphertexts recorded when the request was made.
+        _checkRequestedHandles(requestId, decryptionContexts[requestId].handles);
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint256 result, bool overflowed) = abi.decode(cleartexts, (uint256, bool));
+        // Noise can take the average below zero; it is reported as zero then.
+        uint256 offset = noiseOffsets[requestId];
+        result = result > offset ? result - offset : 0;
+        decryptionContexts[requestId].processed = true;
+        uint256 batchId = decryptionContexts[requestId].batchId;
+        emit DecryptionCompleted(requestId, batchId, result, batchPrecision[batchId].scale, overflowed);
+    }
+
+    function getDecryptionHandles(uint256 requestId) external view returns (bytes32[] memory) {
+        return decryptionContexts[requestId].handles;
+    }
+
+    /// @notice Requests decryption of the statistics selected in `statsMask` for a closed batch.
+    /// @param bucketBounds Ascending histogram bucket boundaries; bucket i counts points in
+    /// [bucketBounds[i-1], bucketBounds[i]), the last bucket counts points >= the last bound.
+    function requestStatistics(
+        uint256 batchId,
+        uint8 statsMask,
+        uint32[] calldata bucketBounds
+    ) external onlyProvider whenNotPaused decryptionRequestRateLimited {
+        euint32[] storage data = _queryableBatch(batchId, true);
+        _validateStatistics(statsMask, bucketBounds);
+
+        bytes32[] memory cts = _computeStatistics(data, batchPrecision[batchId], statsMask, bucketBounds);
+        uint256 requestId = FHE.requestDecryption(cts, this.statisticsCallback.selector);
+        statisticsContexts[requestId] = StatisticsContext({
+            batchId: batchId,
+            statsMask: statsMask,
+            processed: false,
+            handles: cts
+        });
+        emit StatisticsRequested(requestId, batchId, statsMask, bucketBounds);
+    }
+
+    function statisticsCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        StatisticsContext storage context = statisticsContexts[requestId];
+        if (context.processed) revert ReplayDetected();
+        _checkRequestedHandles(requestId, context.handles);
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        context.processed = true;
+        uint256 batchId = context.batchId;
+        emit StatisticsCompleted(requestId, batchId, context.statsMask, batchPrecision[batchId].scale, cleartexts);
+    }
+
+    /// @notice Requests the number of points of a closed batch above `lower` (Above), below `upper` (Below)
+    /// or within [lower, upper] (Between). The threshold a kind does not use is ignored.
+    function requestThresholdQuery(
+        uint256 batchId,
+        QueryKind kind,
+        uint32 lower,
+        uint32 upper
+    ) external onlyProvider whenNotPaused decryptionRequestRateLimited {
+        euint32[] storage data = _queryableBatch(batchId, true);
+        if (kind == QueryKind.Between && lower > upper) revert InvalidParameter();
+
+        uint256 requestId = _requestQuery(batchId, data, kind, FHE.asEuint32(lower), FHE.asEuint32(upper));
+        emit QueryRequested(requestId, batchId, kind, false, lower, upper);
+    }
+
+    /// @notice Like requestThresholdQuery, with thresholds encrypted by the sender so they stay private.
+    /// Only the count is decrypted; an inverted Between range counts no points.
+    function requestEncryptedThresholdQuery(
+        uint256 batchId,
+        QueryKind kind,
+        externalEuint32 lower,
+        externalEuint32 upper,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused decryptionRequestRateLimited {
+        euint32[] storage data = _queryableBatch(batchId, true);
+
+        euint32 lowerValue = FHE.fromExternal(lower, inputProof);
+        euint32 upperValue = FHE.fromExternal(upper, inputProof);
+        uint256 requestId = _requestQuery(batchId, data, kind, lowerValue, upperValue);
+        emit QueryRequested(requestId, batchId, kind, true, 0, 0);
+    }
+
+    function queryCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        QueryContext storage context = queryContexts[requestId];
+        if (context.processed) revert ReplayDetected();
+        _checkRequestedHandles(requestId, context.handles);
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint256 count = abi.decode(cleartexts, (uint256));
+        context.processed = true;
+        emit QueryCompleted(requestId, context.batchId, context.kind, count);
+    }
+
+    /// @notice Requests the sums from which the Pearson correlation and covariance of a closed pair are
+    /// computed off-chain: Σx, Σy, Σxy, Σx² and Σy², with x the points of the batch opened first, and
+    /// whether one of the sums of products wrapped around.
+    function requestCorrelation(uint256 batchId) external onlyProvider whenNotPaused decryptionRequestRateLimited {
+        uint256 paired = pairedBatch[batchId];
+        if (paired == 0) revert InvalidBatch();
+        (uint256 first, uint256 second) = batchId < paired ? (batchId, paired) : (paired, batchId);
+        _queryableBatch(first, true);
+
+        bytes32[] memory cts = _pairSumHandles(first);
+        uint256 requestId = FHE.requestDecryption(cts, this.correlationCallback.selector);
+        correlationContexts[requestId] = CorrelationContext({
+            batchId: first,
+            stateHash: _hashCiphertexts(cts),
+            processed: false
+        });
+        emit CorrelationRequested(requestId, first, second);
+    }
+
+    function correlationCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        CorrelationContext storage context = correlationContexts[requestId];
+        if (context.processed) revert ReplayDetected();
+        uint256 batchId = context.batchId;
+        if (_hashCiphertexts(_pairSumHandles(batchId)) != context.stateHash) revert StateMismatch();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint256 sumX, uint256 sumY, uint256 sumXY, uint256 sumXX, uint256 sumYY, bool overflowed) = abi.decode(
+            cleartexts,
+            (uint256, uint256, uint256, uint256, uint256, bool)
+        );
+        context.processed = true;
+        uint256 count = encryptedDataBatches[batchId].length;
+        emit CorrelationCompleted(requestId, batchId, count, sumX, sumY, sumXY, sumXX, sumYY, overflowed);
+    }
+
+    function _pairSumHandles(uint256 batchId) internal view returns (bytes32[] memory cts) {
+        PairSums storage sums = pairSums[batchId];
+        cts = new bytes32[](6);
+        cts[0] = FHE.toBytes32(sums.sumX);
+        cts[1] = FHE.toBytes32(sums.sumY);
+        cts[2] = FHE.toBytes32(sums.sumXY);
+        cts[3] = FHE.toBytes32(sums.sumXX);
+        cts[4] = FHE.toBytes32(sums.sumYY);
+        cts[5] = FHE.toBytes32(sums.overflowed);
+    }
+
+    /// @dev The points of a closed batch that meets the privacy thresholds.
+    /// @param exact Whether the result is decrypted without noise, which batches with differential privacy refuse.
+    function _queryableBatch(uint256 batchId, bool exact) internal view returns (euint32[] storage data) {
+        if (isBatchOpen[batchId]) revert InvalidBatch(); // Must be closed
+        data = encryptedDataBatches[batchId];
+        if (data.length == 0) revert InvalidBatch();
+        if (!meetsPrivacyThresholds(batchId)) revert BatchTooSmall();
+        if (exact && differentialPrivacy[batchId].epsilon != 0) revert DifferentialPrivacyEnabled();
+    }
+
+    /// @dev Laplace scale b = sensitivity / epsilon of a scaled average over `n` points, erring high. One point
+    /// moves the average by at most maxValue * scale / n.
+    function _noiseScale(uint32 maxValue, uint64 scale, uint32 epsilon, uint256 n) internal pure returns (uint256) {
+        return (uint256(maxValue) * scale * 1000) / (n * epsilon) + 1;
+    }
+
+    /// @dev Adds noise of Laplace scale `noiseScale` to `average`, drawn with FHE randomness so nobody learns it.
+    /// The noise is the difference of two geometric numbers of steps of b * ln 2: discrete Laplace noise that
+    /// falls off like Laplace(b). Each number is capped at MAX_NOISE_STEPS, so adding `offset` keeps it positive.
+    function _addNoise(
+        bytes32 average,
+        Precision precision,
+        uint256 noiseScale
+    ) internal returns (bytes32, uint256 offset) {
+        uint128 step = uint128((noiseScale * LN2_MICRO) / 1_000_000 + 1);
+        offset = step * MAX_NOISE_STEPS;
+        // Two geometric numbers of steps. A uniform U is below 2^(31 - k) with probability 2^-(k + 1), so each
+        // step follows the previous one with probability 1/2.
+        euint32[2] memory counts;
+        for (uint j = 0; j < 2; j++) {
+            euint32 uniform = FHE.randEuint32();
+            counts[j] = FHE.asEuint32(0);
+            for (uint k = 0; k < MAX_NOISE_STEPS; k++) {
+                counts[j] = counts[j].add(FHE.asEuint32(uniform.lt(uint32(1 << (31 - k)))));
             }
-            euint32 average = sum.mul(FHE.asEuint32(1000)).div(FHE.asEuint32(data.length));
-            cts[0] = average;
         }
-        bytes32 currentHash = _hashCiphertexts(cts);
-        // Security: State hash verification ensures the contract state relevant to the decryption request
-        // has not changed since the request was made, preventing inconsistent decryptions.
-        if (currentHash != decryptionContexts[requestId].stateHash) revert StateMismatch();
+        euint32 steps = counts[0].add(uint32(MAX_NOISE_STEPS)).sub(counts[1]);
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) revert InvalidProof();
+        // Averages of every precision are widened, so adding the noise cannot wrap.
+        euint128 wide = precision == Precision.Uint128
+            ? euint128.wrap(average)
+            : precision == Precision.Uint64
+                ? FHE.asEuint128(euint64.wrap(average))
+                : FHE.asEuint128(euint32.wrap(average));
+        return (FHE.toBytes32(wide.add(FHE.asEuint128(steps).mul(step))), offset);
+    }
 
-        uint256 result = abi.decode(cleartexts, (uint256));
-        decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, result);
+    function _requestQuery(
+        uint256 batchId,
+        euint32[] storage data,
+        QueryKind kind,
+        euint32 lower,
+        euint32 upper
+    ) internal returns (uint256 requestId) {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        euint32 count = zero;
+        for (uint i = 0; i < data.length; i++) {
+            ebool matches;
+            if (kind == QueryKind.Above) matches = data[i].gt(lower);
+            else if (kind == QueryKind.Below) matches = data[i].lt(upper);
+            else matches = data[i].ge(lower).and(data[i].le(upper));
+            count = count.add(FHE.select(matches, one, zero));
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(count);
+        requestId = FHE.requestDecryption(cts, this.queryCallback.selector);
+        queryContexts[requestId] = QueryContext({
+            batchId: batchId,
+            kind: kind,
+            processed: false,
+            handles: cts
+        });
     }
 
-    function _hashCiphertexts(euint32[] memory cts) internal pure returns (bytes32) {
-        bytes32[] memory ctsAsBytes = new bytes32[](cts.length);
-        for (uint i = 0; i < cts.length; i++) {
-            ctsAsBytes[i] = FHE.toBytes32(cts[i]);
+    /// @dev Returns the encrypted mean multiplied by the batch scale, and an encrypted flag that is set
+    /// when the accumulator wrapped around and the mean is meaningless.
+    function _scaledAverage(euint32[] storage data, BatchPrecision memory config) internal returns (bytes32, ebool) {
+        if (config.precision == Precision.Uint64) return _scaledAverage64(data, config.scale);
+        if (config.precision == Precision.Uint128) return _scaledAverage128(data, config.scale);
+        return _scaledAverage32(data, uint32(config.scale));
+    }
+
+    function _scaledAverage32(euint32[] storage data, uint32 scale) internal returns (bytes32, ebool) {
+        euint32 sum = FHE.asEuint32(0);
+        ebool overflowed = FHE.asEbool(false);
+        for (uint i = 0; i < data.length; i++) {
+            sum = sum.add(data[i]);
+            // A wrapped sum is smaller than the value just added.
+            overflowed = overflowed.or(sum.lt(data[i]));
         }
-        return keccak256(abi.encode(ctsAsBytes, address(this)));
+        overflowed = overflowed.or(sum.gt(type(uint32).max / scale));
+        return (FHE.toBytes32(sum.mul(scale).div(uint32(data.length))), overflowed);
     }
 
-    function _initIfNeeded(euint32 v) internal {
-        if (!v.isInitialized()) revert NotInitialized();
+    // A sum of uint32 values cannot wrap a 64 or 128 bit accumulator, only the scaling can.
+    function _scaledAverage64(euint32[] storage data, uint64 scale) internal returns (bytes32, ebool) {
+        euint64 sum = FHE.asEuint64(0);
+        for (uint i = 0; i < data.length; i++) {
+            sum = sum.add(FHE.asEuint64(data[i]));
+        }
+        ebool overflowed = sum.gt(type(uint64).max / scale);
+        return (FHE.toBytes32(sum.mul(scale).div(uint64(data.length))), overflowed);
+    }
+
+    function _scaledAverage128(euint32[] storage data, uint64 scale) internal returns (bytes32, ebool) {
+        euint128 sum = FHE.asEuint128(0);
+        for (uint i = 0; i < data.length; i++) {
+            sum = sum.add(FHE.asEuint128(data[i]));
+        }
+        ebool overflowed = sum.gt(type(uint128).max / scale);
+        return (FHE.toBytes32(sum.mul(uint128(scale)).div(uint128(data.length))), overflowed);
+    }
+
+    function _validateStatistics(uint8 statsMask, uint32[] calldata bucketBounds) internal pure {
+        if (statsMask == 0 || statsMask & ~STAT_ALL != 0) revert InvalidParameter();
+        bool histogram = statsMask & STAT_HISTOGRAM != 0;
+        if (histogram != (bucketBounds.length > 0)) revert InvalidParameter();
+        if (bucketBounds.length > MAX_HISTOGRAM_BOUNDS) revert InvalidParameter();
+        for (uint i = 1; i < bucketBounds.length; i++) {
+            if (bucketBounds[i] <= bucketBounds[i - 1]) revert InvalidParameter();
+        }
+    }
+
+    /// @dev The selected statistics in STAT_* order, then the histogram counts, then the mean's
+    /// overflow flag when the mean is selected.
+    function _computeStatistics(
+        euint32[] storage data,
+        BatchPrecision memory config,
+        uint8 statsMask,
+        uint32[] calldata bucketBounds
+    ) internal returns (bytes32[] memory cts) {
+        uint256 n = data.length;
+        uint256 count;
+        for (uint8 flag = STAT_MEAN; flag < STAT_HISTOGRAM; flag <<= 1) {
+            if (statsMask & flag != 0) count++;
+        }
+        if (statsMask & STAT_HISTOGRAM != 0) count += bucketBounds.length + 1;
+        if (statsMask & STAT_MEAN != 0) count++;
+        cts = new bytes32[](count);
+        uint256 k;
+
+        ebool meanOverflowed;
+        if (statsMask & STAT_MEAN != 0) {
+            (cts[k++], meanOverflowed) = _scaledAverage(data, config); // mean * batch scale
+        }
+        if (statsMask & STAT_VARIANCE != 0) {
+            // x^2 fits 64 bits and n * sum(x^2) * 1000 fits 128 bits for any batch the HCU limit lets us
+            // iterate, so the variance is exact.
+            euint64 sum = FHE.asEuint64(0);
+            euint128 sumOfSquares = FHE.asEuint128(0);
+            for (uint i = 0; i < n; i++) {
+                euint64 x = FHE.asEuint64(data[i]);
+                sum = sum.add(x);
+                sumOfSquares = sumOfSquares.add(FHE.asEuint128(x.mul(x)));
+            }
+            // Population variance: (n * sum(x^2) - sum(x)^2) / n^2, scaled by 1000
+            euint128 wideSum = FHE.asEuint128(sum);
+            euint128 variance = sumOfSquares.mul(uint128(n)).sub(wideSum.mul(wideSum)).mul(1000).div(
+                uint128(n * n)
+            );
+            cts[k++] = FHE.toBytes32(variance);
+        }
+        if (statsMask & STAT_MIN != 0) {
+            euint32 minimum = data[0];
+            for (uint i = 1; i < n; i++) {
+                minimum = FHE.min(minimum, data[i]);
+            }
+            cts[k++] = FHE.toBytes32(minimum);
+        }
+        if (statsMask & STAT_MAX != 0) {
+            euint32 maximum = data[0];
+            for (uint i = 1; i < n; i++) {
+                maximum = FHE.max(maximum, data[i]);
+            }
+            cts[k++] = FHE.toBytes32(maximum);
+        }
+        if (statsMask & STAT_HISTOGRAM != 0) {
+            // Count points below each bound and take differences between consecutive bounds.
+            euint32 previous = FHE.asEuint32(0);
+            for (uint b = 0; b < bucketBounds.length; b++) {
+                euint32 below = FHE.asEuint32(0);
+                for (uint i = 0; i < n; i++) {
+                    below = below.add(FHE.asEuint32(data[i].lt(bucketBounds[b])));
+                }
+                cts[k++] = FHE.toBytes32(below.sub(previous));
+                previous = below;
+            }
+            cts[k++] = FHE.toBytes32(FHE.asEuint32(uint32(n)).sub(previous));
+        }
+        if (statsMask & STAT_MEAN != 0) cts[k] = FHE.toBytes32(meanOverflowed);
+    }
+
+    function _isPastDeadline(BatchMetadata storage metadata) internal view returns (bool) {
+        return metadata.closesAt != 0 && block.timestamp >= metadata.closesAt;
+    }
+
+    /// @dev Reverts unless the handles recorded for `requestId` are those the oracle answers for. Only the
+    /// requested ciphertexts are compared, so the cost does not depend on the size of the batch.
+    function _checkRequestedHandles(uint256 requestId, bytes32[] storage handles) internal view {
+        if (keccak256(abi.encode(handles)) != keccak256(abi.encode(FHE.loadRequestedHandles(requestId)))) {
+            revert StateMismatch();
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
     }
 
     function _requireInitialized(euint32 v) internal view {
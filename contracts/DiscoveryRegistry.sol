@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Typed index of submitted discoveries. Each discovery gets its own id, so concurrent
+/// submissions never overwrite each other. Hypothesis texts are only emitted in DiscoverySubmitted;
+/// storage keeps their hash. Statuses are settled by reviewers appointed by the owner, either for
+/// every category or for a single one.
+contract DiscoveryRegistry is SepoliaConfig {
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    enum Status {
+        Pending,
+        Verified,
+        Rejected
+    }
+
+    error NotOwner();
+    error NotReviewer();
+    error SelfReview();
+    error UnknownDiscovery();
+    error InvalidParameter();
+    error InvalidStatus();
+
+    struct Discovery {
+        address owner;
+        uint64 timestamp;
+        Status status;
+        string category;
+        euint32 value;
+        bytes32 hypothesisHash;
+    }
+
+    address public owner;
+    mapping(address => bool) public isReviewer;
+    // keccak256(category) => reviewer => allowed
+    mapping(bytes32 => mapping(address => bool)) internal categoryReviewers;
+
+    uint256 public discoveryCount;
+    mapping(uint256 => Discovery) internal discoveries;
+    mapping(address => uint256[]) internal discoveriesByOwner;
+
+    event DiscoverySubmitted(
+        uint256 indexed id,
+        address indexed owner,
+        string category,
+        euint32 value,
+        bytes32 hypothesisHash,
+        string hypothesis
+    );
+    event DiscoveryStatusChanged(uint256 indexed id, Status status, address indexed reviewer);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    // An empty category stands for every category.
+    event ReviewerAdded(address indexed reviewer, string category);
+    event ReviewerRemoved(address indexed reviewer, string category);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyKnownDiscovery(uint256 id) {
+        if (id == 0 || id > discoveryCount) revert UnknownDiscovery();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    function addReviewer(address reviewer) external onlyOwner {
+        if (reviewer == address(0)) revert InvalidParameter();
+        isReviewer[reviewer] = true;
+        emit ReviewerAdded(reviewer, "");
+    }
+
+    function removeReviewer(address reviewer) external onlyOwner {
+        if (!isReviewer[reviewer]) revert InvalidParameter();
+        delete isReviewer[reviewer];
+        emit ReviewerRemoved(reviewer, "");
+    }
+
+    function addCategoryReviewer(string calldata category, address reviewer) external onlyOwner {
+        if (reviewer == address(0) || bytes(category).length == 0) revert InvalidParameter();
+        categoryReviewers[keccak256(bytes(category))][reviewer] = true;
+        emit ReviewerAdded(reviewer, category);
+    }
+
+    function removeCategoryReviewer(string calldata category, address reviewer) external onlyOwner {
+        bytes32 categoryHash = keccak256(bytes(category));
+        if (!categoryReviewers[categoryHash][reviewer]) revert InvalidParameter();
+        delete categoryReviewers[categoryHash][reviewer];
+        emit ReviewerRemoved(reviewer, category);
+    }
+
+    function isCategoryReviewer(string calldata category, address reviewer) external view returns (bool) {
+        return categoryReviewers[keccak256(bytes(category))][reviewer];
+    }
+
+    /// @notice Whether `reviewer` may settle discovery `id`. Nobody reviews their own discoveries.
+    function canReview(uint256 id, address reviewer) public view onlyKnownDiscovery(id) returns (bool) {
+        Discovery storage discovery = discoveries[id];
+        if (discovery.owner == reviewer) return false;
+        return isReviewer[reviewer] || categoryReviewers[keccak256(bytes(discovery.category))][reviewer];
+    }
+
+    /// @notice Registers an encrypted scientific value. The submitter can user-decrypt it afterwards.
+    function submitDiscovery(
+        string calldata category,
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof,
+        string calldata hypothesis
+    ) external returns (uint256 id) {
+        if (bytes(category).length == 0 || bytes(hypothesis).length == 0) revert InvalidParameter();
+
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        FHE.allowThis(value);
+        FHE.allow(value, msg.sender);
+
+        id = ++discoveryCount;
+        bytes32 hypothesisHash = keccak256(bytes(hypothesis));
+        discoveries[id] = Discovery({
+            owner: msg.sender,
+            timestamp: uint64(block.timestamp),
+            status: Status.Pending,
+            category: category,
+            value: value,
+            hypothesisHash: hypothesisHash
+        });
+        discoveriesByOwner[msg.sender].push(id);
+        emit DiscoverySubmitted(id, msg.sender, category, value, hypothesisHash, hypothesis);
+    }
+
+    /// @notice Moves a pending discovery to Verified or Rejected. The outcome is final.
+    function setStatus(uint256 id, Status status) external {
+        if (!canReview(id, msg.sender)) {
+            if (discoveries[id].owner == msg.sender) revert SelfReview();
+            revert NotReviewer();
+        }
+        if (status == Status.Pending || discoveries[id].status != Status.Pending) revert InvalidStatus();
+        discoveries[id].status = status;
+        emit DiscoveryStatusChanged(id, status, msg.sender);
+    }
+
+    function getDiscovery(uint256 id) external view onlyKnownDiscovery(id) returns (Discovery memory) {
+        return discoveries[id];
+    }
+
+    /// @notice Returns up to `limit` discoveries starting at id `offset + 1`, oldest first.
+    function getDiscoveries(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids, Discovery[] memory page) {
+        if (limit == 0 || limit > MAX_PAGE_SIZE) revert InvalidParameter();
+        uint256 count = offset >= discoveryCount ? 0 : _min(limit, discoveryCount - offset);
+        ids = new uint256[](count);
+        page = new Discovery[](count);
+        for (uint i = 0; i < count; i++) {
+            ids[i] = offset + i + 1;
+            page[i] = discoveries[ids[i]];
+        }
+    }
+
+    function getDiscoveryCountByOwner(address discoveryOwner) external view returns (uint256) {
+        return discoveriesByOwner[discoveryOwner].length;
+    }
+
+    /// @notice Returns up to `limit` ids of discoveries submitted by `discoveryOwner`, oldest first.
+    function getDiscoveryIdsByOwner(
+        address discoveryOwner,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids) {
+        if (limit == 0 || limit > MAX_PAGE_SIZE) revert InvalidParameter();
+        uint256[] storage owned = discoveriesByOwner[discoveryOwner];
+        uint256 count = offset >= owned.length ? 0 : _min(limit, owned.length - offset);
+        ids = new uint256[](count);
+        for (uint i = 0; i < count; i++) {
+            ids[i] = owned[offset + i];
+        }
+    }
+
+    function _min(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a < b ? a : b;
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Test helper: the `aggregate3` entry point of Multicall3, which is predeployed at
+/// 0xcA11bde05977b3631167028862bE2a173976CA11 on Sepolia but not on the hardhat network.
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    function aggregate3(Call3[] calldata calls) external payable returns (Result[] memory returnData) {
+        returnData = new Result[](calls.length);
+        for (uint i = 0; i < calls.length; i++) {
+            (bool success, bytes memory data) = calls[i].target.call(calls[i].callData);
+            if (!success && !calls[i].allowFailure) revert("Multicall3: call failed");
+            returnData[i] = Result({ success: success, returnData: data });
+        }
+    }
+}
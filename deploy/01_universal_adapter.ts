@@ -0,0 +1,15 @@
+// deploy/01_universal_adapter.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { readContractArtifact } from "../src/deployments";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const artifact = await readContractArtifact(hre, "UniversalAdapter");
+  await deploy("UniversalAdapter", { contract: artifact, from: deployer, log: true });
+};
+export default func;
+func.id = "deploy_universalAdapter";
+func.tags = ["UniversalAdapter"];
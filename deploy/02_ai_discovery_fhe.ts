@@ -0,0 +1,38 @@
+// deploy/02_ai_discovery_fhe.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { loadDiscoveryConfig } from "../src/discoveryConfig";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, read } = hre.deployments;
+  const { providers, cooldownSeconds, minBatchPoints, minBatchProviders } = loadDiscoveryConfig();
+
+  await deploy("AIDiscoveryFHE", { from: deployer, log: true });
+
+  // Only send what differs from the contract's state, so running the script again sends nothing.
+  for (const provider of providers) {
+    if (await read("AIDiscoveryFHE", "isProvider", provider)) continue;
+    await execute("AIDiscoveryFHE", { from: deployer, log: true }, "addProvider", provider);
+  }
+  // hardhat-deploy reads return ethers v5 BigNumbers.
+  if ((await read("AIDiscoveryFHE", "cooldownSeconds")).toString() !== String(cooldownSeconds)) {
+    await execute("AIDiscoveryFHE", { from: deployer, log: true }, "setCooldownSeconds", cooldownSeconds);
+  }
+  const thresholds = [
+    await read("AIDiscoveryFHE", "minBatchPoints"),
+    await read("AIDiscoveryFHE", "minBatchProviders"),
+  ];
+  if (thresholds.join() !== [minBatchPoints, minBatchProviders].join()) {
+    await execute(
+      "AIDiscoveryFHE",
+      { from: deployer, log: true },
+      "setPrivacyThresholds",
+      minBatchPoints,
+      minBatchProviders,
+    );
+  }
+};
+export default func;
+func.id = "deploy_aiDiscoveryFHE";
+func.tags = ["AIDiscoveryFHE"];
@@ -0,0 +1,26 @@
+// deploy/03_discovery_registry.ts
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { loadDiscoveryConfig } from "../src/discoveryConfig";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, read } = hre.deployments;
+  const { reviewers, categoryReviewers } = loadDiscoveryConfig();
+
+  await deploy("DiscoveryRegistry", { from: deployer, log: true });
+
+  for (const reviewer of reviewers) {
+    if (await read("DiscoveryRegistry", "isReviewer", reviewer)) continue;
+    await execute("DiscoveryRegistry", { from: deployer, log: true }, "addReviewer", reviewer);
+  }
+  for (const [category, categoryReviewerList] of Object.entries(categoryReviewers)) {
+    for (const reviewer of categoryReviewerList) {
+      if (await read("DiscoveryRegistry", "isCategoryReviewer", category, reviewer)) continue;
+      await execute("DiscoveryRegistry", { from: deployer, log: true }, "addCategoryReviewer", category, reviewer);
+    }
+  }
+};
+export default func;
+func.id = "deploy_discoveryRegistry";
+func.tags = ["DiscoveryRegistry"];
@@ -0,0 +1,37 @@
+// deploy/99_frontend_export.ts
+import fs from "fs";
+import path from "path";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BUILTIN_NETWORKS, NetworksFile } from "../frontend/web/src/networks";
+import { DEPLOYED_CONTRACTS } from "../src/deployments";
+import { exportContracts } from "../tasks/export";
+
+const CONFIG_PATH = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+
+/** Exports this network's deployments to the frontend, adding the network to config.json when it is new. */
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const networkKey = hre.network.name;
+  const { deployer } = await hre.getNamedAccounts();
+
+  const config: NetworksFile & { deployer?: string } = fs.existsSync(CONFIG_PATH)
+    ? JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"))
+    : { defaultNetwork: networkKey, networks: {} };
+  // Networks the frontend does not know need their chain details.
+  const chainDetails =
+    BUILTIN_NETWORKS[networkKey] || !("url" in hre.network.config)
+      ? {}
+      : { name: networkKey, chainId: Number(await hre.getChainId()), rpcUrls: [hre.network.config.url] };
+  config.deployer = deployer;
+  config.networks[networkKey] = { ...chainDetails, ...config.networks[networkKey] };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + "\n");
+
+  const { written, drift } = await exportContracts(hre);
+  if (written) console.log(`Updated frontend/web/src/deployments.ts: ${drift.join(", ")}`);
+};
+export default func;
+func.id = "frontend_export";
+// Runs after any of the contract scripts; the in-process network keeps nothing for the frontend to use.
+func.tags = ["Frontend", ...DEPLOYED_CONTRACTS];
+func.runAtTheEnd = true;
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.name === "hardhat";
@@ -2,102 +2,49 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  config,
+  getDiscoveryIndexer,
+  getReadClient,
+  getRegistryContractReadOnly,
+  getRegistryContractWithSigner,
+  getSigner,
+  network,
+  networks,
+  selectNetwork
+} from "./contract";
+import { decryptValue, encryptValues, fromEncryptable, toEncryptable } from "./fhe";
+import { getFhevmInstance } from "./relayer";
+import BatchConsole from "./components/BatchConsole";
+import RpcStatus from "./components/RpcStatus";
+import { categories } from "./batchMetadata";
+import { createHypothesisEngine, Hypothesis, toObservations } from "./hypotheses";
+import { DiscoveryIndexer } from "./indexer";
+import {
+  canReview,
+  DEFAULT_PAGE_SIZE,
+  getReviewerRole,
+  listDiscoveries,
+  RegisteredDiscovery,
+  ReviewerRole,
+  setDiscoveryStatus,
+  submitDiscovery as registerDiscovery
+} from "./registry";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount, useSwitchChain } from 'wagmi';
 
-interface ScientificDiscovery {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  category: string;
-  status: "pending" | "verified" | "rejected";
-  hypothesis: string;
-}
-
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+// A researcher signs one user-decrypt request per contract for this many days.
+const DECRYPTION_DURATION_DAYS = 30;
 
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'analyze':
-      result = value * (1 + Math.random() * 0.2); // Simulate analysis
-      break;
-    case 'hypothesize':
-      result = value * (0.8 + Math.random() * 0.4); // Simulate hypothesis generation
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
-
-const categories = [
-  "Genomics",
-  "Astrophysics",
-  "Quantum Mechanics",
-  "Climate Science",
-  "Neuroscience",
-  "Materials Science"
-];
-
-const generateRandomHypothesis = (category: string) => {
-  const hypotheses = {
-    "Genomics": [
-      "Gene sequence X correlates with disease Y",
-      "New protein folding pattern discovered",
-      "Epigenetic marker for longevity identified"
-    ],
-    "Astrophysics": [
-      "Dark matter distribution pattern detected",
-      "New exoplanet classification system",
-      "Cosmic ray origin hypothesis"
-    ],
-    "Quantum Mechanics": [
-      "Quantum entanglement communication protocol",
-      "New state of matter predicted",
-      "Quantum decoherence control method"
-    ],
-    "Climate Science": [
-      "Ocean current shift prediction model",
-      "Carbon capture efficiency breakthrough",
-      "Climate tipping point early warning system"
-    ],
-    "Neuroscience": [
-      "Neural pathway for memory consolidation",
-      "Brain-computer interface optimization",
-      "Neuroplasticity enhancement technique"
-    ],
-    "Materials Science": [
-      "Room-temperature superconductor formula",
-      "Self-healing polymer structure",
-      "Nanomaterial for energy storage"
-    ]
-  };
-  return hypotheses[category as keyof typeof hypotheses]?.[Math.floor(Math.random() * 3)] || "New scientific correlation found";
-};
+// Suggests hypotheses from the decrypted batch averages the indexer has seen.
+const hypothesisEngine = createHypothesisEngine();
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
+  const { switchChain, isPending: isSwitchingChain } = useSwitchChain();
+  const isWrongNetwork = isConnected && chainId !== undefined && chainId !== network.chainId;
   const [loading, setLoading] = useState(true);
-  const [discoveries, setDiscoveries] = useState<ScientificDiscovery[]>([]);
+  const [discoveries, setDiscoveries] = useState<RegisteredDiscovery[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -108,116 +55,90 @@ const App: React.FC = () => {
     scientificValue: 0,
     hypothesis: ""
   });
-  const [selectedDiscovery, setSelectedDiscovery] = useState<ScientificDiscovery | null>(null);
+  const [selectedDiscovery, setSelectedDiscovery] = useState<RegisteredDiscovery | null>(null);
   const [decryptedValue, setDecryptedValue] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
   const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
+  const [reviewerRole, setReviewerRole] = useState<ReviewerRole>({ isOwner: false, isReviewer: false, categories: [] });
+  const [activeView, setActiveView] = useState<"discoveries" | "batches">("discoveries");
+  const [hypotheses, setHypotheses] = useState<Hypothesis[]>([]);
 
   const verifiedCount = discoveries.filter(d => d.status === "verified").length;
   const pendingCount = discoveries.filter(d => d.status === "pending").length;
   const rejectedCount = discoveries.filter(d => d.status === "rejected").length;
 
   useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let stopFollowing: (() => void) | undefined;
     loadDiscoveries().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
+    getDiscoveryIndexer().then(indexer => {
+      unsubscribe = indexer.onUpdate(() => showIndexed(indexer));
+      stopFollowing = indexer.follow();
+    }).catch(e => console.error("Error starting the discovery indexer:", e));
+    const initContractAddress = async () => {
+      const contract = await getRegistryContractReadOnly();
       if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
     };
-    initSignatureParams();
+    initContractAddress();
+    return () => { unsubscribe?.(); stopFollowing?.(); };
   }, []);
 
+  useEffect(() => {
+    const loadReviewerRole = async () => {
+      const contract = await getRegistryContractReadOnly();
+      if (!contract || !address) { setReviewerRole({ isOwner: false, isReviewer: false, categories: [] }); return; }
+      try { setReviewerRole(await getReviewerRole(contract, address, categories, await getReadClient())); }
+      catch (e) { console.error("Error loading reviewer role:", e); }
+    };
+    loadReviewerRole();
+  }, [address]);
+
+  const showIndexed = (indexer: DiscoveryIndexer) => {
+    setDiscoveries(indexer.getDiscoveries());
+    setHypotheses(hypothesisEngine.generate(toObservations(indexer.getBatches())));
+  };
+
   const loadDiscoveries = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.log("Contract is not available");
+      if (!config.registryContractAddress) {
+        console.log("DiscoveryRegistry is not deployed on this network");
         return;
       }
-      
-      const keysBytes = await contract.getData("discovery_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing discovery keys:", e); }
+      try {
+        const indexer = await getDiscoveryIndexer();
+        await indexer.sync();
+        showIndexed(indexer);
+      } catch (e) {
+        // Read the registry state directly when log replay fails, e.g. on an RPC that limits eth_getLogs.
+        console.error("Indexer sync failed, reading the registry directly:", e);
+        const contract = await getRegistryContractReadOnly();
+        if (contract) setDiscoveries(await listDiscoveries(contract, DEFAULT_PAGE_SIZE, await getReadClient()));
       }
-      
-      const list: ScientificDiscovery[] = [];
-      for (const key of keys) {
-        try {
-          const discoveryBytes = await contract.getData(`discovery_${key}`);
-          if (discoveryBytes.length > 0) {
-            try {
-              const discoveryData = JSON.parse(ethers.toUtf8String(discoveryBytes));
-              list.push({ 
-                id: key, 
-                encryptedData: discoveryData.data, 
-                timestamp: discoveryData.timestamp, 
-                owner: discoveryData.owner, 
-                category: discoveryData.category, 
-                status: discoveryData.status || "pending",
-                hypothesis: discoveryData.hypothesis || ""
-              });
-            } catch (e) { console.error(`Error parsing discovery data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading discovery ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setDiscoveries(list);
     } catch (e) { console.error("Error loading discoveries:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
   const submitDiscovery = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
+    // The modal checks this too, but the suggestions may have changed since it was opened.
+    const hypothesis =
+      newDiscoveryData.hypothesis || hypotheses.find(h => h.category === newDiscoveryData.category)?.statement;
+    if (!hypothesis) { alert("Enter a hypothesis; none was detected in this category's batch results yet"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting scientific data with Zama FHE..." });
     try {
-      const encryptedData = FHEEncryptNumber(newDiscoveryData.scientificValue);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const discoveryId = `DIS-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const hypothesis = newDiscoveryData.hypothesis || generateRandomHypothesis(newDiscoveryData.category);
-      
-      const discoveryData = { 
-        data: encryptedData, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        category: newDiscoveryData.category, 
-        status: "pending",
-        hypothesis: hypothesis
-      };
-      
-      await contract.setData(`discovery_${discoveryId}`, ethers.toUtf8Bytes(JSON.stringify(discoveryData)));
-      
-      const keysBytes = await contract.getData("discovery_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(discoveryId);
-      await contract.setData("discovery_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const contract = await getRegistryContractWithSigner();
+      const instance = await getFhevmInstance();
+      const { handles, inputProof } = await encryptValues(
+        instance,
+        await contract.getAddress(),
+        address!,
+        [toEncryptable(newDiscoveryData.scientificValue)]
+      );
+      await registerDiscovery(contract, { category: newDiscoveryData.category, hypothesis, handle: handles[0], inputProof });
       
       setTransactionStatus({ visible: true, status: "success", message: "Encrypted scientific data submitted securely!" });
       await loadDiscoveries();
@@ -237,37 +158,22 @@ const App: React.FC = () => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const instance = await getFhevmInstance();
+      const signer = await getSigner();
+      const value = await decryptValue(instance, signer, encryptedData, contractAddress || config.registryContractAddress, {
+        storage: window.localStorage,
+        durationDays: DECRYPTION_DURATION_DAYS
+      });
+      return fromEncryptable(value);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const verifyDiscovery = async (discoveryId: string) => {
+  const verifyDiscovery = async (discoveryId: number) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted data with FHE..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const discoveryBytes = await contract.getData(`discovery_${discoveryId}`);
-      if (discoveryBytes.length === 0) throw new Error("Discovery not found");
-      const discoveryData = JSON.parse(ethers.toUtf8String(discoveryBytes));
-      
-      const verifiedData = FHECompute(discoveryData.data, 'analyze');
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedDiscovery = { 
-        ...discoveryData, 
-        status: "verified", 
-        data: verifiedData,
-        hypothesis: discoveryData.hypothesis || generateRandomHypothesis(discoveryData.category)
-      };
-      await contractWithSigner.setData(`discovery_${discoveryId}`, ethers.toUtf8Bytes(JSON.stringify(updatedDiscovery)));
-      
+      await setDiscoveryStatus(await getRegistryContractWithSigner(), discoveryId, "verified");
       setTransactionStatus({ visible: true, status: "success", message: "FHE verification completed successfully!" });
       await loadDiscoveries();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
@@ -277,17 +183,11 @@ const App: React.FC = () => {
     }
   };
 
-  const rejectDiscovery = async (discoveryId: string) => {
+  const rejectDiscovery = async (discoveryId: number) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted data with FHE..." });
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const discoveryBytes = await contract.getData(`discovery_${discoveryId}`);
-      if (discoveryBytes.length === 0) throw new Error("Discovery not found");
-      const discoveryData = JSON.parse(ethers.toUtf8String(discoveryBytes));
-      const updatedDiscovery = { ...discoveryData, status: "rejected" };
-      await contract.setData(`discovery_${discoveryId}`, ethers.toUtf8Bytes(JSON.stringify(updatedDiscovery)));
+      await setDiscoveryStatus(await getRegistryContractWithSigner(), discoveryId, "rejected");
       setTransactionStatus({ visible: true, status: "success", message: "FHE rejection completed successfully!" });
       await loadDiscoveries();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
@@ -297,7 +197,14 @@ const App: React.FC = () => {
     }
   };
 
-  const isOwner = (discoveryAddress: string) => address?.toLowerCase() === discoveryAddress.toLowerCase();
+  const showBatchStatus = (status: "pending" | "success" | "error", message: string) => {
+    setTransactionStatus({ visible: true, status, message });
+    if (status !== "pending") {
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), status === "success" ? 2000 : 3000);
+    }
+  };
+
+  const isReviewable = (discovery: RegisteredDiscovery) => !!address && canReview(reviewerRole, address, discovery);
 
   const filteredDiscoveries = discoveries.filter(discovery => {
     const matchesSearch = discovery.hypothesis.toLowerCase().includes(searchTerm.toLowerCase()) || 
@@ -398,6 +305,20 @@ const App: React.FC = () => {
           <h1>FHE<span>Scientific</span>Discovery</h1>
         </div>
         <div className="header-actions">
+          <RpcStatus />
+          <select
+            className="network-select"
+            value={network.key}
+            onChange={(e) => selectNetwork(e.target.value)}
+          >
+            {Object.values(networks).map(n => <option key={n.key} value={n.key}>{n.name}</option>)}
+          </select>
+          <button
+            onClick={() => setActiveView(activeView === "discoveries" ? "batches" : "discoveries")}
+            className="view-toggle-btn tech-button"
+          >
+            {activeView === "discoveries" ? "Data Batches" : "Discoveries"}
+          </button>
           <button onClick={() => setShowCreateModal(true)} className="create-discovery-btn tech-button">
             <div className="add-icon"></div>New Discovery
           </button>
@@ -406,133 +327,153 @@ const App: React.FC = () => {
           </div>
         </div>
       </header>
+
+      {isWrongNetwork && (
+        <div className="network-banner">
+          <div className="warning-icon"></div>
+          <p>Your wallet is connected to chain {chainId}, but this app is using {network.name}.</p>
+          <button
+            className="tech-button"
+            disabled={isSwitchingChain}
+            onClick={() => switchChain({ chainId: network.chainId })}
+          >
+            {isSwitchingChain ? "Switching..." : `Switch to ${network.name}`}
+          </button>
+        </div>
+      )}
       
-      <div className="main-content">
-        <div className="central-radial-layout">
-          <div className="core-panel">
-            <div className="project-intro tech-card">
-              <h2>FHE-Powered AI Scientist</h2>
-              <p>
-                An autonomous AI scientist that can homomorphically analyze encrypted scientific databases 
-                (genomic sequences, astronomical observations) to discover new patterns and generate hypotheses.
-              </p>
-              <div className="tech-badge">
-                <span>ZAMA FHE Technology</span>
+      {activeView === "batches" ? (
+        <div className="main-content">
+          <BatchConsole account={address} onStatus={showBatchStatus} />
+        </div>
+      ) : (
+        <div className="main-content">
+          <div className="central-radial-layout">
+            <div className="core-panel">
+              <div className="project-intro tech-card">
+                <h2>FHE-Powered AI Scientist</h2>
+                <p>
+                  An autonomous AI scientist that can homomorphically analyze encrypted scientific databases 
+                  (genomic sequences, astronomical observations) to discover new patterns and generate hypotheses.
+                </p>
+                <div className="tech-badge">
+                  <span>ZAMA FHE Technology</span>
+                </div>
               </div>
-            </div>
             
-            <div className="data-stats tech-card">
-              <h3>Discovery Statistics</h3>
-              <div className="stats-grid">
-                <div className="stat-item">
-                  <div className="stat-value">{discoveries.length}</div>
-                  <div className="stat-label">Total</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{verifiedCount}</div>
-                  <div className="stat-label">Verified</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{pendingCount}</div>
-                  <div className="stat-label">Pending</div>
-                </div>
-                <div className="stat-item">
-                  <div className="stat-value">{rejectedCount}</div>
-                  <div className="stat-label">Rejected</div>
+              <div className="data-stats tech-card">
+                <h3>Discovery Statistics</h3>
+                <div className="stats-grid">
+                  <div className="stat-item">
+                    <div className="stat-value">{discoveries.length}</div>
+                    <div className="stat-label">Total</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{verifiedCount}</div>
+                    <div className="stat-label">Verified</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{pendingCount}</div>
+                    <div className="stat-label">Pending</div>
+                  </div>
+                  <div className="stat-item">
+                    <div className="stat-value">{rejectedCount}</div>
+                    <div className="stat-label">Rejected</div>
+                  </div>
                 </div>
               </div>
-            </div>
             
-            <div className="smart-chart tech-card">
-              <h3>Category Distribution</h3>
-              {renderRadarChart()}
+              <div className="smart-chart tech-card">
+                <h3>Category Distribution</h3>
+                {renderRadarChart()}
+              </div>
             </div>
-          </div>
           
-          <div className="discoveries-section">
-            <div className="section-header">
-              <h2>Scientific Discoveries</h2>
-              <div className="search-filter">
-                <input 
-                  type="text" 
-                  placeholder="Search hypotheses..." 
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="tech-input"
-                />
-                <select 
-                  value={selectedCategory}
-                  onChange={(e) => setSelectedCategory(e.target.value)}
-                  className="tech-select"
-                >
-                  <option value="">All Categories</option>
-                  {categories.map(cat => (
-                    <option key={cat} value={cat}>{cat}</option>
-                  ))}
-                </select>
-                <button onClick={loadDiscoveries} className="refresh-btn tech-button" disabled={isRefreshing}>
-                  {isRefreshing ? "Refreshing..." : "Refresh"}
-                </button>
+            <div className="discoveries-section">
+              <div className="section-header">
+                <h2>Scientific Discoveries</h2>
+                <div className="search-filter">
+                  <input 
+                    type="text" 
+                    placeholder="Search hypotheses..." 
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="tech-input"
+                  />
+                  <select 
+                    value={selectedCategory}
+                    onChange={(e) => setSelectedCategory(e.target.value)}
+                    className="tech-select"
+                  >
+                    <option value="">All Categories</option>
+                    {categories.map(cat => (
+                      <option key={cat} value={cat}>{cat}</option>
+                    ))}
+                  </select>
+                  <button onClick={loadDiscoveries} className="refresh-btn tech-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
               </div>
-            </div>
             
-            <div className="discoveries-list tech-card">
-              <div className="table-header">
-                <div className="header-cell">ID</div>
-                <div className="header-cell">Category</div>
-                <div className="header-cell">Hypothesis</div>
-                <div className="header-cell">Date</div>
-                <div className="header-cell">Status</div>
-                <div className="header-cell">Actions</div>
-              </div>
-              
-              {filteredDiscoveries.length === 0 ? (
-                <div className="no-discoveries">
-                  <div className="no-data-icon"></div>
-                  <p>No scientific discoveries found</p>
-                  <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>
-                    Submit First Discovery
-                  </button>
+              <div className="discoveries-list tech-card">
+                <div className="table-header">
+                  <div className="header-cell">ID</div>
+                  <div className="header-cell">Category</div>
+                  <div className="header-cell">Hypothesis</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
                 </div>
-              ) : filteredDiscoveries.map(discovery => (
-                <div 
-                  className="discovery-row" 
-                  key={discovery.id} 
-                  onClick={() => setSelectedDiscovery(discovery)}
-                >
-                  <div className="table-cell discovery-id">#{discovery.id.substring(0, 6)}</div>
-                  <div className="table-cell">{discovery.category}</div>
-                  <div className="table-cell hypothesis">
-                    {discovery.hypothesis.substring(0, 50)}{discovery.hypothesis.length > 50 ? "..." : ""}
-                  </div>
-                  <div className="table-cell">{new Date(discovery.timestamp * 1000).toLocaleDateString()}</div>
-                  <div className="table-cell">
-                    <span className={`status-badge ${discovery.status}`}>{discovery.status}</span>
+              
+                {filteredDiscoveries.length === 0 ? (
+                  <div className="no-discoveries">
+                    <div className="no-data-icon"></div>
+                    <p>No scientific discoveries found</p>
+                    <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>
+                      Submit First Discovery
+                    </button>
                   </div>
-                  <div className="table-cell actions">
-                    {isOwner(discovery.owner) && discovery.status === "pending" && (
-                      <>
-                        <button 
-                          className="action-btn tech-button success" 
-                          onClick={(e) => { e.stopPropagation(); verifyDiscovery(discovery.id); }}
-                        >
-                          Verify
-                        </button>
-                        <button 
-                          className="action-btn tech-button danger" 
-                          onClick={(e) => { e.stopPropagation(); rejectDiscovery(discovery.id); }}
-                        >
-                          Reject
-                        </button>
-                      </>
-                    )}
+                ) : filteredDiscoveries.map(discovery => (
+                  <div 
+                    className="discovery-row" 
+                    key={discovery.id} 
+                    onClick={() => setSelectedDiscovery(discovery)}
+                  >
+                    <div className="table-cell discovery-id">#{discovery.id}</div>
+                    <div className="table-cell">{discovery.category}</div>
+                    <div className="table-cell hypothesis">
+                      {discovery.hypothesis.substring(0, 50)}{discovery.hypothesis.length > 50 ? "..." : ""}
+                    </div>
+                    <div className="table-cell">{new Date(discovery.timestamp * 1000).toLocaleDateString()}</div>
+                    <div className="table-cell">
+                      <span className={`status-badge ${discovery.status}`}>{discovery.status}</span>
+                    </div>
+                    <div className="table-cell actions">
+                      {isReviewable(discovery) && (
+                        <>
+                          <button 
+                            className="action-btn tech-button success" 
+                            onClick={(e) => { e.stopPropagation(); verifyDiscovery(discovery.id); }}
+                          >
+                            Verify
+                          </button>
+                          <button 
+                            className="action-btn tech-button danger" 
+                            onClick={(e) => { e.stopPropagation(); rejectDiscovery(discovery.id); }}
+                          >
+                            Reject
+                          </button>
+                        </>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
           </div>
         </div>
-      </div>
+      )}
       
       {showCreateModal && (
         <ModalCreate 
@@ -541,6 +482,7 @@ const App: React.FC = () => {
           creating={creating} 
           discoveryData={newDiscoveryData} 
           setDiscoveryData={setNewDiscoveryData}
+          hypotheses={hypotheses}
         />
       )}
       
@@ -603,9 +545,13 @@ interface ModalCreateProps {
   creating: boolean;
   discoveryData: any;
   setDiscoveryData: (data: any) => void;
+  // Detected patterns, most confident first; those of the selected category are offered as hypotheses.
+  hypotheses: Hypothesis[];
 }
 
-const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, discoveryData, setDiscoveryData }) => {
+const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating, discoveryData, setDiscoveryData, hypotheses }) => {
+  const suggestions = hypotheses.filter(h => h.category === discoveryData.category);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setDiscoveryData({ ...discoveryData, [name]: value });
@@ -616,11 +562,24 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
     setDiscoveryData({ ...discoveryData, [name]: parseFloat(value) });
   };
 
+  const encryptablePreview = () => {
+    try {
+      return `${toEncryptable(discoveryData.scientificValue)} (handle + proof created on submit)`;
+    } catch (e) {
+      return "Value out of euint32 range";
+    }
+  };
+
   const handleSubmit = () => {
     if (!discoveryData.category || !discoveryData.scientificValue) { 
       alert("Please fill required fields"); 
       return; 
     }
+    // Without a hypothesis of their own, researchers submit the most confident suggestion.
+    if (!discoveryData.hypothesis && suggestions.length === 0) {
+      alert("Enter a hypothesis; none was detected in this category's batch results yet");
+      return;
+    }
     onSubmit();
   };
 
@@ -662,10 +621,28 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
                 name="hypothesis" 
                 value={discoveryData.hypothesis} 
                 onChange={handleChange} 
-                placeholder="Enter your scientific hypothesis..."
+                placeholder={suggestions.length ? "Leave empty to submit the top suggestion" : "Enter your scientific hypothesis..."}
                 className="tech-textarea"
                 rows={3}
               />
+              {suggestions.length > 0 && (
+                <div className="hypothesis-suggestions">
+                  <div className="input-hint">Detected in the decrypted batch results:</div>
+                  {suggestions.map(h => (
+                    <button
+                      key={h.id}
+                      type="button"
+                      className="hypothesis-suggestion"
+                      title={Object.entries(h.statistics).map(([name, value]) => `${name}: ${Number(value.toPrecision(4))}`).join(", ")}
+                      onClick={() => setDiscoveryData({ ...discoveryData, hypothesis: h.statement })}
+                    >
+                      <span className="suggestion-kind">{h.kind}</span>
+                      <span className="suggestion-statement">{h.statement}</span>
+                      <span className="suggestion-confidence">{Math.round(h.confidence * 100)}%</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             
             <div className="form-group">
@@ -692,12 +669,9 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               </div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
-                <span>Encrypted Data:</span>
+                <span>euint32 Input:</span>
                 <div>
-                  {discoveryData.scientificValue ? 
-                    FHEEncryptNumber(discoveryData.scientificValue).substring(0, 50) + '...' : 
-                    'No value entered'
-                  }
+                  {discoveryData.scientificValue ? encryptablePreview() : 'No value entered'}
                 </div>
               </div>
             </div>
@@ -724,7 +698,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
 };
 
 interface DiscoveryDetailModalProps {
-  discovery: ScientificDiscovery;
+  discovery: RegisteredDiscovery;
   onClose: () => void;
   decryptedValue: number | null;
   setDecryptedValue: (value: number | null) => void;
@@ -745,7 +719,7 @@ const DiscoveryDetailModal: React.FC<DiscoveryDetailModalProps> = ({
       setDecryptedValue(null); 
       return; 
     }
-    const decrypted = await decryptWithSignature(discovery.encryptedData);
+    const decrypted = await decryptWithSignature(discovery.encryptedValue);
     if (decrypted !== null) setDecryptedValue(decrypted);
   };
 
@@ -753,7 +727,7 @@ const DiscoveryDetailModal: React.FC<DiscoveryDetailModalProps> = ({
     <div className="modal-overlay">
       <div className="discovery-detail-modal tech-card">
         <div className="modal-header">
-          <h2>Discovery Details #{discovery.id.substring(0, 8)}</h2>
+          <h2>Discovery Details #{discovery.id}</h2>
           <button onClick={onClose} className="close-modal">&times;</button>
         </div>
         
@@ -791,7 +765,7 @@ const DiscoveryDetailModal: React.FC<DiscoveryDetailModalProps> = ({
           <div className="encrypted-data-section">
             <h3>Encrypted Scientific Data</h3>
             <div className="encrypted-data">
-              {discovery.encryptedData.substring(0, 100)}...
+              {discovery.encryptedValue.substring(0, 100)}...
             </div>
             <div className="tech-tag">
               <div className="fhe-icon"></div>
@@ -0,0 +1,92 @@
+// batchMetadata.ts
+import { ethers } from "ethers";
+
+export const categories = [
+  "Genomics",
+  "Astrophysics",
+  "Quantum Mechanics",
+  "Climate Science",
+  "Neuroscience",
+  "Materials Science"
+];
+
+export interface BatchField {
+  name: string;
+  description?: string;
+}
+
+/** What the owner supplies when opening a batch. */
+export interface BatchDescriptor {
+  category: string;
+  units: string;
+  fields: BatchField[];
+  // 0 for no quota.
+  maxPointsPerProvider: number;
+  // Unix timestamp in seconds, 0 for no deadline.
+  closesAt: number;
+}
+
+/** A descriptor as recorded by AIDiscoveryFHE, with the content hash of its schema. */
+export interface BatchMetadata extends BatchDescriptor {
+  schemaHash: string;
+}
+
+export interface BatchFilter {
+  category?: string;
+  search?: string;
+}
+
+// The field schema is stored on-chain as the keccak256 of this JSON document.
+export const encodeSchema = (fields: BatchField[]): string =>
+  JSON.stringify({ fields: fields.map(({ name, description }) => (description ? { name, description } : { name })) });
+
+export const hashSchema = (schema: string): string => ethers.keccak256(ethers.toUtf8Bytes(schema));
+
+export function parseSchema(schema: string): BatchField[] {
+  try {
+    const parsed = JSON.parse(schema);
+    if (Array.isArray(parsed?.fields)) {
+      return parsed.fields.filter((field: any) => typeof field?.name === "string");
+    }
+  } catch (e) {
+    console.error("Error parsing batch schema:", e);
+  }
+  return [];
+}
+
+export function validateDescriptor(descriptor: BatchDescriptor, now = Math.floor(Date.now() / 1000)): void {
+  if (!descriptor.category) throw new Error("A batch needs a category");
+  const quota = descriptor.maxPointsPerProvider;
+  if (!Number.isInteger(quota) || quota < 0 || quota > 0xffffffff) {
+    throw new Error("Max points per provider must be a uint32 integer");
+  }
+  if (descriptor.closesAt !== 0 && descriptor.closesAt <= now) {
+    throw new Error("The closing deadline must be in the future");
+  }
+}
+
+/** Converts a descriptor to the AIDiscoveryFHE.BatchDescriptor tuple. */
+export const toDescriptorTuple = (descriptor: BatchDescriptor) => ({
+  category: descriptor.category,
+  units: descriptor.units,
+  schema: encodeSchema(descriptor.fields),
+  maxPointsPerProvider: descriptor.maxPointsPerProvider,
+  closesAt: descriptor.closesAt,
+});
+
+export const isPastDeadline = (metadata: BatchMetadata | undefined, now = Math.floor(Date.now() / 1000)) =>
+  !!metadata && metadata.closesAt !== 0 && now >= metadata.closesAt;
+
+export function filterByMetadata<T extends { metadata?: BatchMetadata }>(batches: T[], { category, search }: BatchFilter): T[] {
+  const term = search?.trim().toLowerCase() ?? "";
+  return batches.filter(batch => {
+    if (category && batch.metadata?.category !== category) return false;
+    if (!term) return true;
+    const metadata = batch.metadata;
+    return !!metadata && (
+      metadata.category.toLowerCase().includes(term) ||
+      metadata.units.toLowerCase().includes(term) ||
+      metadata.fields.some(field => field.name.toLowerCase().includes(term))
+    );
+  });
+}
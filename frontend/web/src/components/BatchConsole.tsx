@@ -0,0 +1,386 @@
+import React, { useEffect, useState } from 'react';
+import { config, getDiscoveryContractReadOnly, getDiscoveryContractWithSigner, getReadClient } from '../contract';
+import {
+  BatchInfo,
+  closeBatch,
+  DiscoveryResult,
+  DEFAULT_SCALE,
+  DiscoveryRole,
+  finalizeExpiredBatch,
+  getDiscoveryResults,
+  getDiscoveryRole,
+  getPrivacyThresholds,
+  listBatches,
+  meetsPrivacyThresholds,
+  onDiscoveryResult,
+  openBatchWithPrecision,
+  PrivacyThresholds,
+  requestDiscovery,
+  submitEncryptedPoints
+} from '../discovery';
+import { BatchDescriptor, categories, filterByMetadata, isPastDeadline } from '../batchMetadata';
+import { Precision, PRECISION_LABELS } from '../precision';
+import { queryBatch, QueryResult, ThresholdQueryBuilder, waitForQueryResult } from '../queries';
+import { noiseMargin } from '../privacy';
+import { getFhevmInstance } from '../relayer';
+
+type TxStatus = "pending" | "success" | "error";
+
+interface BatchConsoleProps {
+  account?: string;
+  onStatus: (status: TxStatus, message: string) => void;
+}
+
+const parsePoints = (input: string): number[] => {
+  const points = input.split(/[\s,]+/).filter(p => p !== "").map(p => Number(p));
+  if (points.length === 0 || points.some(p => !Number.isInteger(p) || p < 0 || p > 0xffffffff)) {
+    throw new Error("Data points must be comma separated uint32 integers");
+  }
+  return points;
+};
+
+// Accepts "> 10", "< 5" or "10-20" (both ends included).
+const parseQuery = (batchId: number, input: string): ThresholdQueryBuilder => {
+  const text = input.trim();
+  const range = /^(\d+)\s*-\s*(\d+)$/.exec(text);
+  if (range) return queryBatch(batchId).between(Number(range[1]), Number(range[2]));
+  const bound = /^([<>])\s*(\d+)$/.exec(text);
+  if (!bound) throw new Error("Query must look like > 10, < 5 or 10-20");
+  return bound[1] === ">" ? queryBatch(batchId).above(Number(bound[2])) : queryBatch(batchId).below(Number(bound[2]));
+};
+
+const describeQuery = (result: QueryResult) => {
+  if (result.lower === null) return `private ${result.kind} query`;
+  if (result.kind === "above") return `> ${result.lower}`;
+  if (result.kind === "below") return `< ${result.upper}`;
+  return `${result.lower}-${result.upper}`;
+};
+
+const parseFields = (input: string) =>
+  input.split(",").map(name => name.trim()).filter(name => name !== "").map(name => ({ name }));
+
+// datetime-local values are in the browser's time zone; an empty value means no deadline.
+const toTimestamp = (input: string) => (input ? Math.floor(new Date(input).getTime() / 1000) : 0);
+
+// Progress toward one privacy threshold, capped at a full bar.
+const ThresholdProgress = ({ label, value, min }: { label: string; value: number; min: number }) => (
+  <div className={`threshold-progress ${value >= min ? "met" : ""}`}>
+    <div className="threshold-bar">
+      <div className="threshold-fill" style={{ width: `${Math.min(100, (value / min) * 100)}%` }} />
+    </div>
+    <span className="batch-meta">{Math.min(value, min)}/{min} {label}</span>
+  </div>
+);
+
+const formatDeadline = (closesAt: number) => (closesAt === 0 ? "no deadline" : new Date(closesAt * 1000).toLocaleString());
+
+export default function BatchConsole({ account, onStatus }: BatchConsoleProps) {
+  const [available, setAvailable] = useState(true);
+  const [batches, setBatches] = useState<BatchInfo[]>([]);
+  const [role, setRole] = useState<DiscoveryRole>({ isOwner: false, isProvider: false });
+  const [thresholds, setThresholds] = useState<PrivacyThresholds>({ minBatchPoints: 1, minBatchProviders: 1 });
+  const [results, setResults] = useState<Record<number, DiscoveryResult>>({});
+  const [pointsInput, setPointsInput] = useState<Record<number, string>>({});
+  const [queryInput, setQueryInput] = useState<Record<number, string>>({});
+  const [queryResults, setQueryResults] = useState<Record<number, QueryResult>>({});
+  const [busy, setBusy] = useState(false);
+  const [precision, setPrecision] = useState<Precision>(Precision.Uint64);
+  const [scale, setScale] = useState(String(DEFAULT_SCALE));
+  const [descriptor, setDescriptor] = useState({ category: categories[0], units: "", fields: "", quota: "", closesAt: "" });
+  const [filterCategory, setFilterCategory] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  const addResult = (result: DiscoveryResult) => setResults(prev => ({ ...prev, [result.batchId]: result }));
+  const logRange = { fromBlock: config.startBlock };
+
+  const loadBatches = async () => {
+    const contract = await getDiscoveryContractReadOnly();
+    if (!contract) { setAvailable(false); return; }
+    setAvailable(true);
+    try {
+      const client = await getReadClient();
+      setBatches(await listBatches(contract, client, logRange));
+      setThresholds(await getPrivacyThresholds(contract, client));
+      (await getDiscoveryResults(contract, logRange)).forEach(addResult);
+      setRole(account ? await getDiscoveryRole(contract, account, client) : { isOwner: false, isProvider: false });
+    } catch (e) { console.error("Error loading batches:", e); }
+  };
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    loadBatches();
+    getDiscoveryContractReadOnly().then(contract => {
+      if (contract) unsubscribe = onDiscoveryResult(contract, addResult, logRange);
+    });
+    return () => unsubscribe?.();
+  }, [account]);
+
+  const runAction = async (pending: string, success: string, action: () => Promise<unknown>) => {
+    if (!account) { alert("Please connect wallet first"); return; }
+    setBusy(true);
+    onStatus("pending", pending);
+    try {
+      await action();
+      onStatus("success", success);
+      await loadBatches();
+    } catch (e: any) {
+      const message = e.message?.includes("user rejected") ? "Transaction rejected by user" : (e.shortMessage || e.message || "Unknown error");
+      onStatus("error", message);
+    } finally { setBusy(false); }
+  };
+
+  const handleOpen = () => runAction("Opening batch...", "Batch opened", async () => {
+    if (!/^\d+$/.test(scale)) throw new Error("Scale must be a positive integer");
+    if (descriptor.quota !== "" && !/^\d+$/.test(descriptor.quota)) throw new Error("Quota must be a non-negative integer");
+    const batch: BatchDescriptor = {
+      category: descriptor.category,
+      units: descriptor.units.trim(),
+      fields: parseFields(descriptor.fields),
+      maxPointsPerProvider: Number(descriptor.quota || 0),
+      closesAt: toTimestamp(descriptor.closesAt),
+    };
+    await openBatchWithPrecision(await getDiscoveryContractWithSigner(), batch, precision, BigInt(scale));
+    setDescriptor(prev => ({ ...prev, units: "", fields: "", quota: "", closesAt: "" }));
+  });
+
+  const visibleBatches = filterByMetadata(batches, { category: filterCategory, search: searchTerm });
+
+  const handleClose = (batchId: number) => runAction(`Closing batch #${batchId}...`, `Batch #${batchId} closed`, async () => {
+    await closeBatch(await getDiscoveryContractWithSigner(), batchId);
+  });
+
+  const handleFinalize = (batchId: number) => runAction(`Finalizing batch #${batchId}...`, `Batch #${batchId} finalized`, async () => {
+    await finalizeExpiredBatch(await getDiscoveryContractWithSigner(), batchId);
+  });
+
+  const handleSubmit = (batchId: number) => runAction("Encrypting data points with Zama FHE...", "Encrypted data points submitted", async () => {
+    const points = parsePoints(pointsInput[batchId] || "");
+    const contract = await getDiscoveryContractWithSigner();
+    await submitEncryptedPoints(contract, await getFhevmInstance(), batchId, points);
+    setPointsInput(prev => ({ ...prev, [batchId]: "" }));
+  });
+
+  const handleRequest = (batchId: number) => runAction("Requesting encrypted discovery...", "Discovery requested, waiting for decryption", async () => {
+    await requestDiscovery(await getDiscoveryContractWithSigner(), batchId);
+  });
+
+  // Thresholds are encrypted, so only the count is revealed. The result arrives once the oracle answers.
+  const handleQuery = (batchId: number) => runAction("Encrypting query thresholds...", "Query requested, waiting for decryption", async () => {
+    const builder = parseQuery(batchId, queryInput[batchId] || "");
+    const contract = await getDiscoveryContractWithSigner();
+    const request = await builder.encrypted(await getFhevmInstance()).submit(contract);
+    waitForQueryResult(contract, request)
+      .then(result => setQueryResults(prev => ({ ...prev, [batchId]: result })))
+      .catch(e => onStatus("error", e.message));
+  });
+
+  if (!available) {
+    return (
+      <div className="batch-console tech-card">
+        <p>AIDiscoveryFHE is not deployed on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="batch-console">
+      <div className="section-header">
+        <h2>Encrypted Data Batches</h2>
+        <div className="search-filter">
+          <input
+            type="text"
+            placeholder="Search batches..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="tech-input"
+          />
+          <select
+            value={filterCategory}
+            onChange={(e) => setFilterCategory(e.target.value)}
+            className="tech-select"
+          >
+            <option value="">All Categories</option>
+            {categories.map(cat => (
+              <option key={cat} value={cat}>{cat}</option>
+            ))}
+          </select>
+          <button onClick={loadBatches} className="refresh-btn tech-button" disabled={busy}>Refresh</button>
+        </div>
+      </div>
+
+      {role.isOwner && (
+        <div className="batch-open-form tech-card">
+          <select
+            className="tech-select"
+            value={descriptor.category}
+            onChange={(e) => setDescriptor(prev => ({ ...prev, category: e.target.value }))}
+          >
+            {categories.map(cat => (
+              <option key={cat} value={cat}>{cat}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="tech-input"
+            placeholder="Units, e.g. reads"
+            value={descriptor.units}
+            onChange={(e) => setDescriptor(prev => ({ ...prev, units: e.target.value }))}
+          />
+          <input
+            type="text"
+            className="tech-input"
+            placeholder="Fields, e.g. sample, depth"
+            value={descriptor.fields}
+            onChange={(e) => setDescriptor(prev => ({ ...prev, fields: e.target.value }))}
+          />
+          <input
+            type="text"
+            className="tech-input"
+            placeholder="Max points per provider"
+            value={descriptor.quota}
+            onChange={(e) => setDescriptor(prev => ({ ...prev, quota: e.target.value }))}
+          />
+          <input
+            type="datetime-local"
+            className="tech-input"
+            value={descriptor.closesAt}
+            onChange={(e) => setDescriptor(prev => ({ ...prev, closesAt: e.target.value }))}
+          />
+          <select
+            className="tech-select"
+            value={precision}
+            onChange={(e) => setPrecision(Number(e.target.value) as Precision)}
+          >
+            {Object.values(Precision).map(p => (
+              <option key={p} value={p}>{PRECISION_LABELS[p]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="tech-input"
+            placeholder="Scale"
+            value={scale}
+            onChange={(e) => setScale(e.target.value)}
+          />
+          <button onClick={handleOpen} className="tech-button primary" disabled={busy}>Open Batch</button>
+        </div>
+      )}
+
+      <div className="discoveries-list tech-card">
+        <div className="batch-row table-header">
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Category</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Points</div>
+          <div className="header-cell">Decrypted Average</div>
+          <div className="header-cell">Actions</div>
+        </div>
+
+        {visibleBatches.length === 0 ? (
+          <div className="no-discoveries">
+            <div className="no-data-icon"></div>
+            <p>{batches.length === 0 ? "No batches opened yet" : "No batches match the filter"}</p>
+          </div>
+        ) : visibleBatches.map(batch => (
+          <div className="batch-row discovery-row" key={batch.id}>
+            <div className="table-cell discovery-id">#{batch.id}</div>
+            <div className="table-cell">
+              {batch.metadata ? (
+                <>
+                  <div>{batch.metadata.category}</div>
+                  <div className="batch-meta">
+                    {[batch.metadata.units, batch.metadata.fields.map(field => field.name).join(", ")].filter(Boolean).join(" · ")}
+                  </div>
+                </>
+              ) : "—"}
+            </div>
+            <div className="table-cell">
+              <span className={`status-badge ${batch.isOpen ? "pending" : "verified"}`}>{batch.isOpen ? "open" : "closed"}</span>
+              {batch.metadata && <div className="batch-meta">{formatDeadline(batch.metadata.closesAt)}</div>}
+            </div>
+            <div className="table-cell">
+              {batch.pointCount}
+              {!!batch.metadata?.maxPointsPerProvider && (
+                <div className="batch-meta">max {batch.metadata.maxPointsPerProvider} per provider</div>
+              )}
+              {!meetsPrivacyThresholds(batch, thresholds) && (
+                <>
+                  <ThresholdProgress label="points" value={batch.pointCount} min={thresholds.minBatchPoints} />
+                  <ThresholdProgress label="providers" value={batch.providerCount} min={thresholds.minBatchProviders} />
+                </>
+              )}
+            </div>
+            <div className="table-cell">
+              {!results[batch.id] ? "—" : results[batch.id].overflowed ? (
+                <span className="status-badge rejected">overflow</span>
+              ) : results[batch.id].average}
+              {results[batch.id]?.noise && (
+                <div className="batch-meta">
+                  ± {noiseMargin(results[batch.id].noise!).toPrecision(3)} at 95% (ε {results[batch.id].noise!.epsilon})
+                </div>
+              )}
+              {batch.privacyBudget && (
+                <div className="batch-meta">
+                  privacy budget {batch.privacyBudget.remaining}/{batch.privacyBudget.budget} left
+                </div>
+              )}
+              {queryResults[batch.id] && (
+                <div className="batch-meta">
+                  {describeQuery(queryResults[batch.id])}: {queryResults[batch.id].count} points
+                </div>
+              )}
+            </div>
+            <div className="table-cell actions">
+              {batch.isOpen && role.isProvider && !isPastDeadline(batch.metadata) && (
+                <>
+                  <input
+                    type="text"
+                    className="tech-input"
+                    placeholder="e.g. 12, 40, 7"
+                    value={pointsInput[batch.id] || ""}
+                    onChange={(e) => setPointsInput(prev => ({ ...prev, [batch.id]: e.target.value }))}
+                  />
+                  <button className="action-btn tech-button primary" disabled={busy} onClick={() => handleSubmit(batch.id)}>
+                    Submit
+                  </button>
+                </>
+              )}
+              {batch.isOpen && isPastDeadline(batch.metadata) && (
+                <button className="action-btn tech-button" disabled={busy} onClick={() => handleFinalize(batch.id)}>
+                  Finalize
+                </button>
+              )}
+              {batch.isOpen && role.isOwner && !isPastDeadline(batch.metadata) && (
+                <button className="action-btn tech-button danger" disabled={busy} onClick={() => handleClose(batch.id)}>
+                  Close
+                </button>
+              )}
+              {!batch.isOpen && role.isProvider && meetsPrivacyThresholds(batch, thresholds) && (!results[batch.id] || !!batch.privacyBudget?.requestsLeft) && (
+                <button className="action-btn tech-button success" disabled={busy} onClick={() => handleRequest(batch.id)}>
+                  Request Discovery
+                </button>
+              )}
+              {!batch.isOpen && role.isProvider && meetsPrivacyThresholds(batch, thresholds) && !batch.privacyBudget && (
+                <>
+                  <input
+                    type="text"
+                    className="tech-input"
+                    placeholder="e.g. > 10 or 10-20"
+                    value={queryInput[batch.id] || ""}
+                    onChange={(e) => setQueryInput(prev => ({ ...prev, [batch.id]: e.target.value }))}
+                  />
+                  <button className="action-btn tech-button" disabled={busy} onClick={() => handleQuery(batch.id)}>
+                    Count
+                  </button>
+                </>
+              )}
+              {!batch.isOpen && batch.pointCount > 0 && !meetsPrivacyThresholds(batch, thresholds) && (
+                <span className="batch-meta">Too few points or providers to decrypt</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
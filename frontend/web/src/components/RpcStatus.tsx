@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { getRpcPool } from '../contract';
+import { RpcPoolStatus } from '../rpcPool';
+
+const hostOf = (url: string) => {
+  try { return new URL(url).host; } catch { return url; }
+};
+
+const describe = (status: RpcPoolStatus) =>
+  status.endpoints
+    .map(e => `${e.url === status.active ? "▶ " : ""}${hostOf(e.url)}: ${e.healthy ? "up" : "benched"}` +
+      `${e.latencyMs !== undefined ? `, ${e.latencyMs} ms` : ""}, ${Math.round(e.errorRate * 100)}% errors`)
+    .join("\n");
+
+/** Header badge showing which RPC endpoint serves reads and how healthy the pool is. */
+export default function RpcStatus() {
+  const [status, setStatus] = useState<RpcPoolStatus>(() => getRpcPool().getStatus());
+
+  useEffect(() => getRpcPool().onStatusChange(setStatus), []);
+
+  const healthy = status.endpoints.filter(e => e.healthy).length;
+  const level = healthy === 0 ? "down" : healthy < status.endpoints.length ? "degraded" : "up";
+  const active = status.endpoints.find(e => e.url === status.active);
+
+  return (
+    <div className={`rpc-status rpc-${level}`} title={describe(status)}>
+      <span className="rpc-dot"></span>
+      {hostOf(status.active)}
+      {active?.latencyMs !== undefined && <span className="rpc-latency">{active.latencyMs} ms</span>}
+    </div>
+  );
+}
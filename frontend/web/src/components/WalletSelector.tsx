@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { network } from '../contract';
+import { switchWalletNetwork } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +357,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the app's network
+      await switchWalletNetwork(wallet.provider, network);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,40 +367,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -708,7 +676,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {network.name}
           </div>
         </div>
       </div>
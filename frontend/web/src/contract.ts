@@ -1,10 +1,38 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { CONTRACT_ABIS, DEPLOYMENTS } from "./deployments";
+import { getDiscoveryContract } from "./discovery";
+import { createIndexer, DiscoveryIndexer } from "./indexer";
+import { createMulticallClient, MulticallClient } from "./multicall";
+import { NetworkConfig, NetworksFile, resolveNetworks } from "./networks";
+import { getRegistryContract } from "./registry";
+import { RpcPool } from "./rpcPool";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const ABI = CONTRACT_ABIS.UniversalAdapter;
+
+// Selected network, remembered across reloads. A `?network=<key>` query parameter takes precedence.
+const NETWORK_STORAGE_KEY = "discovery.network";
+
+export const networks = resolveNetworks(configJson as NetworksFile, DEPLOYMENTS);
+
+const selectedNetworkKey = () => {
+  const key = new URLSearchParams(window.location.search).get("network") ?? window.localStorage.getItem(NETWORK_STORAGE_KEY);
+  return key && networks[key] ? key : configJson.defaultNetwork;
+};
+
+/** The active network: its chain, RPCs, relayer and contract addresses. */
+export const network: NetworkConfig = networks[selectedNetworkKey()];
+export const config = network;
+
+/** Switches the app to another network. Providers and caches are per network, so the page reloads. */
+export function selectNetwork(key: string) {
+  if (!networks[key]) throw new Error(`Unknown network ${key}`);
+  window.localStorage.setItem(NETWORK_STORAGE_KEY, key);
+  const url = new URL(window.location.href);
+  url.searchParams.delete("network");
+  window.location.assign(url.toString());
+}
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,40 +46,24 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
+let rpcPool: RpcPool | undefined;
+
+/** Shared read provider over the network's RPC URLs, failing over between them. */
+export function getRpcPool(): RpcPool {
+  if (!rpcPool) {
+    rpcPool = new RpcPool(network.rpcUrls, { name: network.key, chainId: network.chainId }, { storage: window.localStorage });
+    // Requests use the ranking cached from the last session until the probe has measured every endpoint.
+    rpcPool.probe().catch(e => console.error("Error probing RPC endpoints:", e));
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return rpcPool;
+}
+
+const getNetworkProvider = async () => getRpcPool();
 
 export async function getContractReadOnly() {
+  if (!config.contractAddress) return null;
   try {
-    const provider = await getTestnetProvider();
+    const provider = await getNetworkProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
@@ -66,13 +78,102 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getDiscoveryContractReadOnly() {
+  if (!config.discoveryContractAddress) return null;
+  try {
+    const provider = await getNetworkProvider();
+    const code = await retry(() => provider.getCode(config.discoveryContractAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return getDiscoveryContract(config.discoveryContractAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only AIDiscoveryFHE contract:", error);
+    return null;
+  }
+}
+
+export async function getDiscoveryContractWithSigner() {
+  if (!config.discoveryContractAddress) {
+    throw new Error(`AIDiscoveryFHE is not deployed on ${network.name}`);
+  }
+  const signer = await getSigner();
+  return getDiscoveryContract(config.discoveryContractAddress, signer);
+}
+
+export async function getRegistryContractReadOnly() {
+  if (!config.registryContractAddress) return null;
+  try {
+    const provider = await getNetworkProvider();
+    const code = await retry(() => provider.getCode(config.registryContractAddress));
+    if (code === "0x") {
+      return null;
+    }
+    return getRegistryContract(config.registryContractAddress, provider);
+  } catch (error) {
+    console.error("Failed to create read-only DiscoveryRegistry contract:", error);
+    return null;
+  }
+}
+
+export async function getRegistryContractWithSigner() {
+  if (!config.registryContractAddress) {
+    throw new Error(`DiscoveryRegistry is not deployed on ${network.name}`);
+  }
+  const signer = await getSigner();
+  return getRegistryContract(config.registryContractAddress, signer);
+}
+
+let readClient: Promise<MulticallClient> | undefined;
+
+/** Shared client that batches view calls into Multicall3 requests. */
+export function getReadClient(): Promise<MulticallClient> {
+  readClient ??= getNetworkProvider()
+    .then(provider => createMulticallClient(provider, { address: network.multicallAddress }))
+    .catch(error => {
+      readClient = undefined;
+      throw error;
+    });
+  return readClient;
+}
+
+let indexer: Promise<DiscoveryIndexer> | undefined;
+
+/** Shared indexer over the configured contracts, persisted in localStorage. */
+export function getDiscoveryIndexer(): Promise<DiscoveryIndexer> {
+  indexer ??= (async () => {
+    const provider = await getNetworkProvider();
+    return createIndexer(
+      provider,
+      {
+        adapter: config.contractAddress ? new ethers.Contract(config.contractAddress, ABI, provider) : undefined,
+        discovery: config.discoveryContractAddress ? getDiscoveryContract(config.discoveryContractAddress, provider) : undefined,
+        registry: config.registryContractAddress ? getRegistryContract(config.registryContractAddress, provider) : undefined,
+      },
+      { startBlock: config.startBlock, storage: window.localStorage }
+    );
+  })().catch(error => {
+    indexer = undefined;
+    throw error;
+  });
+  return indexer;
+}
+
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== network.chainId) {
+    throw new Error(`Switch your wallet to ${network.name} (chain ${network.chainId})`);
+  }
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner() {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
+    const signer = await getSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
   } catch (error) {
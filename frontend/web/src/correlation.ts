@@ -0,0 +1,157 @@
+// correlation.ts
+import { ethers } from "ethers";
+import { BatchDescriptor, toDescriptorTuple, validateDescriptor } from "./batchMetadata";
+import { correlationConfidence } from "./hypotheses";
+import { InputEncryptor, pollFor, signerAddressOf, WaitOptions } from "./queries";
+import { findEvent } from "./receipts";
+
+// Each pair updates the encrypted sums with three 64-bit multiplications and their overflow checks; more pairs
+// exceed the coprocessor's per-transaction compute limit.
+export const MAX_PAIRS_PER_SUBMISSION = 6;
+
+const MAX_UINT32 = 0xffffffff;
+
+export interface CorrelationRequest {
+  requestId: bigint;
+  // The batch of the pair opened first holds the x values, the other one the y values.
+  batchId: number;
+  pairedBatchId: number;
+}
+
+/** The decrypted sums over the n pairs of a closed pair of batches. */
+export interface CorrelationSums {
+  count: number;
+  sumX: bigint;
+  sumY: bigint;
+  sumXY: bigint;
+  sumXX: bigint;
+  sumYY: bigint;
+  // Set when Σxy, Σx² or Σy² wrapped around 64 bits; the sums then do not describe the data.
+  overflowed: boolean;
+}
+
+export interface Correlation {
+  count: number;
+  meanX: number;
+  meanY: number;
+  // Sample covariance, NaN below two pairs.
+  covariance: number;
+  // Pearson coefficient, NaN when either series is constant.
+  r: number;
+  // Two-sided probability of an |r| this large between uncorrelated series, from Fisher's z-transform.
+  pValue: number;
+}
+
+export interface CorrelationResult extends CorrelationRequest {
+  sums: CorrelationSums;
+  // Undefined when the sums overflowed.
+  correlation?: Correlation;
+}
+
+/** Computes Pearson's r and the covariance from the sums, exactly until the final division. */
+export function computeCorrelation(sums: CorrelationSums): Correlation {
+  const { count, sumX, sumY, sumXY, sumXX, sumYY, overflowed } = sums;
+  if (overflowed) throw new Error("The encrypted sums overflowed, the correlation cannot be computed");
+  const n = BigInt(count);
+  const coMoment = n * sumXY - sumX * sumY;
+  const spreadX = n * sumXX - sumX * sumX;
+  const spreadY = n * sumYY - sumY * sumY;
+
+  const r = spreadX === 0n || spreadY === 0n ? NaN : Number(coMoment) / Math.sqrt(Number(spreadX) * Number(spreadY));
+  return {
+    count,
+    meanX: count ? Number(sumX) / count : NaN,
+    meanY: count ? Number(sumY) / count : NaN,
+    covariance: count > 1 ? Number(coMoment) / (count * (count - 1)) : NaN,
+    r,
+    pValue: 1 - correlationConfidence(r, count),
+  };
+}
+
+/** Opens two batches whose points are submitted in pairs. Resolves with both batch ids. */
+export async function openPairedBatches(
+  contract: ethers.Contract,
+  x: BatchDescriptor,
+  y: BatchDescriptor
+): Promise<[number, number]> {
+  validateDescriptor(x);
+  validateDescriptor(y);
+  if (x.closesAt !== y.closesAt) throw new Error("Paired batches close together and need the same deadline");
+  const tx = await contract.openPairedBatches(toDescriptorTuple(x), toDescriptorTuple(y));
+  const { args } = findEvent(contract, await tx.wait(), "BatchesPaired");
+  return [Number(args.batchId), Number(args.pairedBatchId)];
+}
+
+/**
+ * Encrypts `pairs` for the connected provider and submits x to `batchId` and
+ * y to its paired batch in one transaction. Values are plain uint32 integers.
+ */
+export async function submitPairedPoints(
+  contract: ethers.Contract,
+  encryptor: InputEncryptor,
+  batchId: number,
+  pairs: [number | bigint, number | bigint][]
+): Promise<ethers.TransactionReceipt | null> {
+  if (pairs.length === 0) throw new Error("No pairs to submit");
+  if (pairs.length > MAX_PAIRS_PER_SUBMISSION) {
+    throw new Error(`At most ${MAX_PAIRS_PER_SUBMISSION} pairs fit in one submission`);
+  }
+  const values = pairs.flat();
+  if (values.some(value => value < 0 || value > MAX_UINT32 || !Number.isInteger(Number(value)))) {
+    throw new Error("Paired values must be uint32 integers");
+  }
+
+  const input = encryptor.createEncryptedInput(await contract.getAddress(), await signerAddressOf(contract));
+  pairs.forEach(([x]) => input.add32(x));
+  pairs.forEach(([, y]) => input.add32(y));
+  const { handles, inputProof } = await input.encrypt();
+  const tx = await contract.submitPairedData(
+    batchId,
+    handles.slice(0, pairs.length),
+    handles.slice(pairs.length),
+    inputProof
+  );
+  return tx.wait();
+}
+
+/** Requests decryption of the correlation sums of the closed pair `batchId` belongs to. */
+export async function requestCorrelation(contract: ethers.Contract, batchId: number): Promise<CorrelationRequest> {
+  const tx = await contract.requestCorrelation(batchId);
+  const { args } = findEvent(contract, await tx.wait(), "CorrelationRequested");
+  return { requestId: args.requestId, batchId: Number(args.batchId), pairedBatchId: Number(args.pairedBatchId) };
+}
+
+function toResult(request: CorrelationRequest, log: ethers.EventLog): CorrelationResult {
+  const { count, sumX, sumY, sumXY, sumXX, sumYY, overflowed } = log.args;
+  const sums = { count: Number(count), sumX, sumY, sumXY, sumXX, sumYY, overflowed };
+  return { ...request, sums, ...(!overflowed && { correlation: computeCorrelation(sums) }) };
+}
+
+/** Polls for the decrypted sums of `request` and computes the correlation. */
+export const waitForCorrelation = (
+  contract: ethers.Contract,
+  request: CorrelationRequest,
+  options?: WaitOptions
+): Promise<CorrelationResult> =>
+  pollFor(
+    async () => {
+      const [log] = await contract.queryFilter(contract.filters.CorrelationCompleted(request.requestId));
+      return log ? toResult(request, log as ethers.EventLog) : undefined;
+    },
+    `Correlation request ${request.requestId}`,
+    options
+  );
+
+/** Every answered correlation request, oldest first. */
+export async function getCorrelationResults(contract: ethers.Contract): Promise<CorrelationResult[]> {
+  const requests = new Map<bigint, CorrelationRequest>();
+  for (const log of await contract.queryFilter(contract.filters.CorrelationRequested())) {
+    const { requestId, batchId, pairedBatchId } = (log as ethers.EventLog).args;
+    requests.set(requestId, { requestId, batchId: Number(batchId), pairedBatchId: Number(pairedBatchId) });
+  }
+  const logs = await contract.queryFilter(contract.filters.CorrelationCompleted());
+  return logs.flatMap(log => {
+    const request = requests.get((log as ethers.EventLog).args.requestId);
+    return request ? [toResult(request, log as ethers.EventLog)] : [];
+  });
+}
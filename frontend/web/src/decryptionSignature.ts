@@ -0,0 +1,123 @@
+// decryptionSignature.ts
+import type { HandleContractPair } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmBackend, TypedDataSigner } from "./fhe";
+
+/**
+ * A signed user-decrypt request. The keypair and signature stay valid for
+ * every listed contract until `startTimestamp + durationDays`, so one wallet
+ * prompt covers all decryptions in that window.
+ */
+export interface DecryptionSignature {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  userAddress: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Structurally compatible with window.localStorage / sessionStorage.
+export interface SignatureStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export function createMemoryStorage(): SignatureStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); },
+  };
+}
+
+const normalizeAddresses = (addresses: string[]) =>
+  [...new Set(addresses.map(a => a.toLowerCase()))].sort();
+
+const storageKey = (userAddress: string, contractAddresses: string[]) =>
+  `fhevm.decryptionSignature:${userAddress.toLowerCase()}:${normalizeAddresses(contractAddresses).join(",")}`;
+
+export const isSignatureValid = (signature: DecryptionSignature, now = Math.floor(Date.now() / 1000)) =>
+  now >= signature.startTimestamp && now < signature.startTimestamp + signature.durationDays * SECONDS_PER_DAY;
+
+export function loadDecryptionSignature(
+  storage: SignatureStorage,
+  userAddress: string,
+  contractAddresses: string[]
+): DecryptionSignature | null {
+  const key = storageKey(userAddress, contractAddresses);
+  const raw = storage.getItem(key);
+  if (!raw) return null;
+  try {
+    const signature = JSON.parse(raw) as DecryptionSignature;
+    if (isSignatureValid(signature)) return signature;
+  } catch (e) {
+    console.error("Error parsing cached decryption signature:", e);
+  }
+  storage.removeItem(key);
+  return null;
+}
+
+/**
+ * Returns the cached signature for `contractAddresses` or asks the wallet for
+ * a new one and caches it for `durationDays`.
+ */
+export async function loadOrSignDecryptionSignature(
+  backend: FhevmBackend,
+  signer: TypedDataSigner,
+  contractAddresses: string[],
+  durationDays: number,
+  storage: SignatureStorage
+): Promise<DecryptionSignature> {
+  const userAddress = await signer.getAddress();
+  const cached = loadDecryptionSignature(storage, userAddress, contractAddresses);
+  if (cached) return cached;
+
+  const addresses = normalizeAddresses(contractAddresses);
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = backend.createEIP712(publicKey, addresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const decryptionSignature: DecryptionSignature = {
+    publicKey,
+    privateKey,
+    signature: signature.replace("0x", ""),
+    contractAddresses: addresses,
+    userAddress,
+    startTimestamp,
+    durationDays,
+  };
+  storage.setItem(storageKey(userAddress, addresses), JSON.stringify(decryptionSignature));
+  return decryptionSignature;
+}
+
+export async function userDecryptHandles(
+  backend: FhevmBackend,
+  signature: DecryptionSignature,
+  handles: HandleContractPair[]
+): Promise<Record<string, bigint>> {
+  const results = await backend.userDecrypt(
+    handles,
+    signature.privateKey,
+    signature.publicKey,
+    signature.signature,
+    signature.contractAddresses,
+    signature.userAddress,
+    signature.startTimestamp,
+    signature.durationDays
+  );
+  const values: Record<string, bigint> = {};
+  for (const [handle, value] of Object.entries(results)) {
+    values[handle.toLowerCase()] = typeof value === "boolean" ? BigInt(value ? 1 : 0) : BigInt(value);
+  }
+  return values;
+}
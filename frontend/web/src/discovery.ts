@@ -0,0 +1,259 @@
+// discovery.ts
+import { ethers } from "ethers";
+import { BatchDescriptor, BatchMetadata, parseSchema, toDescriptorTuple, validateDescriptor } from "./batchMetadata";
+import { CONTRACT_ABIS } from "./deployments";
+import { encryptValues, FhevmBackend } from "./fhe";
+import { LogRange, queryLogs } from "./logs";
+import { MulticallClient, readWith } from "./multicall";
+import { Precision, scaledToDecimal, validateScale } from "./precision";
+import { DiscoveryNoise, getAddedNoise, getPrivacyBudget, PrivacyBudget, toDiscoveryNoise } from "./privacy";
+import { findEvent } from "./receipts";
+
+export const DISCOVERY_ABI = CONTRACT_ABIS.AIDiscoveryFHE;
+
+// Batches opened with openBatch() decrypt their mean multiplied by this factor.
+export const DEFAULT_SCALE = 1000;
+
+export interface DiscoveryRole {
+  isOwner: boolean;
+  isProvider: boolean;
+}
+
+export interface BatchInfo {
+  id: number;
+  isOpen: boolean;
+  pointCount: number;
+  // Distinct providers that submitted to the batch.
+  providerCount: number;
+  // Set for batches with differential privacy.
+  privacyBudget?: PrivacyBudget;
+  // Missing for batches whose BatchMetadataSet event is out of the queried range.
+  metadata?: BatchMetadata;
+}
+
+/** How many points and distinct providers a batch needs before any of its results are decrypted. */
+export interface PrivacyThresholds {
+  minBatchPoints: number;
+  minBatchProviders: number;
+}
+
+export interface BatchPrecision {
+  precision: Precision;
+  scale: bigint;
+}
+
+export interface DiscoveryResult {
+  requestId: bigint;
+  batchId: number;
+  scaledAverage: bigint;
+  scale: bigint;
+  // Set when the encrypted accumulator wrapped around; the average is meaningless then.
+  overflowed: boolean;
+  average: string;
+  // Set for batches with differential privacy, whose averages are decrypted with noise.
+  noise?: DiscoveryNoise;
+}
+
+export function getDiscoveryContract(address: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(address, DISCOVERY_ABI, runner);
+}
+
+const signerAddress = async (contract: ethers.Contract) => {
+  const runner = contract.runner as ethers.Signer | null;
+  if (!runner || typeof runner.getAddress !== "function") {
+    throw new Error("AIDiscoveryFHE contract is not connected to a signer");
+  }
+  return runner.getAddress();
+};
+
+const toResult = (
+  requestId: bigint,
+  batchId: bigint,
+  scaledAverage: bigint,
+  scale: bigint,
+  overflowed: boolean,
+  added?: { epsilon: bigint; noiseScale: bigint }
+): DiscoveryResult => ({
+  requestId,
+  batchId: Number(batchId),
+  scaledAverage,
+  scale,
+  overflowed,
+  average: scaledToDecimal(scaledAverage, scale),
+  ...(added && { noise: toDiscoveryNoise(added.epsilon, added.noiseScale, scale) }),
+});
+
+export async function getDiscoveryRole(
+  contract: ethers.Contract,
+  account: string,
+  client?: MulticallClient
+): Promise<DiscoveryRole> {
+  const [owner, isProvider] = await Promise.all([
+    readWith<string>(client, contract, "owner"),
+    readWith<boolean>(client, contract, "isProvider", account),
+  ]);
+  return { isOwner: owner.toLowerCase() === account.toLowerCase(), isProvider };
+}
+
+export async function getPrivacyThresholds(
+  contract: ethers.Contract,
+  client?: MulticallClient
+): Promise<PrivacyThresholds> {
+  const [minBatchPoints, minBatchProviders] = await Promise.all([
+    readWith<bigint>(client, contract, "minBatchPoints"),
+    readWith<bigint>(client, contract, "minBatchProviders"),
+  ]);
+  return { minBatchPoints: Number(minBatchPoints), minBatchProviders: Number(minBatchProviders) };
+}
+
+/** Whether `batch` has enough points and providers for requestDiscovery, statistics and queries. */
+export const meetsPrivacyThresholds = (batch: BatchInfo, thresholds: PrivacyThresholds) =>
+  batch.pointCount >= thresholds.minBatchPoints && batch.providerCount >= thresholds.minBatchProviders;
+
+export async function openBatch(contract: ethers.Contract, descriptor: BatchDescriptor): Promise<number> {
+  validateDescriptor(descriptor);
+  const tx = await contract.openBatch(toDescriptorTuple(descriptor));
+  const event = findEvent(contract, await tx.wait(), "BatchOpened");
+  return Number(event.args.batchId);
+}
+
+/** Opens a batch that averages in `precision` ciphertexts and decrypts `mean * scale`. */
+export async function openBatchWithPrecision(
+  contract: ethers.Contract,
+  descriptor: BatchDescriptor,
+  precision: Precision,
+  scale: bigint | number = DEFAULT_SCALE
+): Promise<number> {
+  validateDescriptor(descriptor);
+  const tx = await contract.openBatchWithPrecision(
+    toDescriptorTuple(descriptor),
+    precision,
+    validateScale(precision, scale)
+  );
+  const event = findEvent(contract, await tx.wait(), "BatchOpened");
+  return Number(event.args.batchId);
+}
+
+export async function getBatchPrecision(contract: ethers.Contract, batchId: number): Promise<BatchPrecision> {
+  const { precision, scale } = await contract.batchPrecision(batchId);
+  return { precision: Number(precision) as Precision, scale };
+}
+
+// The schema itself is only kept in the BatchMetadataSet event; storage holds its hash.
+async function getBatchMetadataById(contract: ethers.Contract, range: LogRange): Promise<Map<number, BatchMetadata>> {
+  const metadata = new Map<number, BatchMetadata>();
+  for (const log of await queryLogs(contract, contract.filters.BatchMetadataSet(), range)) {
+    const { batchId, category, units, schema, schemaHash, maxPointsPerProvider, closesAt } = log.args;
+    metadata.set(Number(batchId), {
+      category,
+      units,
+      fields: parseSchema(schema),
+      schemaHash,
+      maxPointsPerProvider: Number(maxPointsPerProvider),
+      closesAt: Number(closesAt),
+    });
+  }
+  return metadata;
+}
+
+/** Data points `provider` already submitted to a batch, counted against its quota. */
+export async function getPointsSubmitted(contract: ethers.Contract, batchId: number, provider: string): Promise<number> {
+  return Number(await contract.pointsSubmitted(batchId, provider));
+}
+
+export async function closeBatch(contract: ethers.Contract, batchId: number): Promise<void> {
+  const tx = await contract.closeBatch(batchId);
+  await tx.wait();
+}
+
+/** Closes an open batch whose deadline has passed. Any account may call it. */
+export async function finalizeExpiredBatch(contract: ethers.Contract, batchId: number): Promise<void> {
+  const tx = await contract.finalizeExpiredBatch(batchId);
+  await tx.wait();
+}
+
+/**
+ * Encrypts `values` for the connected provider and appends them to an open
+ * batch in one transaction, which verifies them against the input proof.
+ * Values are plain uint32 integers; scale them before calling.
+ */
+export async function submitEncryptedPoints(
+  contract: ethers.Contract,
+  backend: FhevmBackend,
+  batchId: number,
+  values: (number | bigint)[]
+): Promise<ethers.TransactionReceipt | null> {
+  if (values.length === 0) throw new Error("No data points to submit");
+  const { handles, inputProof } = await encryptValues(
+    backend,
+    await contract.getAddress(),
+    await signerAddress(contract),
+    values
+  );
+  const tx = await contract.submitData(batchId, handles, inputProof);
+  return tx.wait();
+}
+
+/** Requests decryption of a closed batch's average and returns the request id. */
+export async function requestDiscovery(contract: ethers.Contract, batchId: number): Promise<bigint> {
+  const tx = await contract.requestDiscovery(batchId);
+  const event = findEvent(contract, await tx.wait(), "DecryptionRequested");
+  return event.args.requestId;
+}
+
+/**
+ * Lists every batch, newest first. With a multicall `client` the open flags are read in one request.
+ * Metadata is read from the BatchMetadataSet events in `range`, which should start at the deployment block.
+ */
+export async function listBatches(
+  contract: ethers.Contract,
+  client?: MulticallClient,
+  range: LogRange = {}
+): Promise<BatchInfo[]> {
+  const currentBatchId = Number(await contract.currentBatchId());
+  const metadata = await getBatchMetadataById(contract, range);
+
+  const ids = Array.from({ length: currentBatchId }, (_, i) => currentBatchId - i);
+  const [openFlags, batchSizes, providerCounts, privacyBudgets] = await Promise.all([
+    Promise.all(ids.map(id => readWith<boolean>(client, contract, "isBatchOpen", id))),
+    Promise.all(ids.map(id => readWith<bigint>(client, contract, "getBatchSize", id))),
+    Promise.all(ids.map(id => readWith<bigint>(client, contract, "providerCount", id))),
+    Promise.all(ids.map(id => getPrivacyBudget(contract, id, client))),
+  ]);
+  return ids.map((id, i) => ({
+    id,
+    isOpen: openFlags[i],
+    pointCount: Number(batchSizes[i]),
+    providerCount: Number(providerCounts[i]),
+    privacyBudget: privacyBudgets[i],
+    metadata: metadata.get(id),
+  }));
+}
+
+/** Decrypted averages logged in `range`, which should start at the deployment block. */
+export async function getDiscoveryResults(contract: ethers.Contract, range: LogRange = {}): Promise<DiscoveryResult[]> {
+  const logs = await queryLogs(contract, contract.filters.DecryptionCompleted(), range);
+  const noise = await getAddedNoise(contract, undefined, range);
+  return logs.map(log => {
+    const { requestId, batchId, result, scale, overflowed } = log.args;
+    return toResult(requestId, batchId, result, scale, overflowed, noise.get(requestId));
+  });
+}
+
+/**
+ * Calls `listener` for every DecryptionCompleted event. Returns an unsubscribe function.
+ * The noise of each result is looked up in `range`.
+ */
+export function onDiscoveryResult(
+  contract: ethers.Contract,
+  listener: (result: DiscoveryResult) => void,
+  range: LogRange = {}
+): () => void {
+  // The noise of a request was logged when it was made, before its result.
+  const handler = async (requestId: bigint, batchId: bigint, result: bigint, scale: bigint, overflowed: boolean) => {
+    const noise = await getAddedNoise(contract, requestId, range);
+    listener(toResult(requestId, batchId, result, scale, overflowed, noise.get(requestId)));
+  };
+  contract.on("DecryptionCompleted", handler);
+  return () => { contract.off("DecryptionCompleted", handler); };
+}
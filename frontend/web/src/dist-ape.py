@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\dist-ape.py
-// Generated at: 2025-10-20T19:41:55.157Z
\ No newline at end of file
@@ -0,0 +1,93 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import {
+  createMemoryStorage,
+  loadOrSignDecryptionSignature,
+  SignatureStorage,
+  userDecryptHandles,
+} from "./decryptionSignature";
+
+/**
+ * The part of the relayer-sdk instance the app relies on. The hardhat
+ * plugin's `fhevm` runtime exposes the same methods backed by the mock
+ * coprocessor, so it can be passed in wherever a backend is expected.
+ */
+export type FhevmBackend = Pick<
+  FhevmInstance,
+  "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt"
+>;
+
+export interface EncryptedValues {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface TypedDataSigner {
+  getAddress(): Promise<string>;
+  signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+export interface DecryptOptions {
+  storage?: SignatureStorage;
+  durationDays?: number;
+}
+
+export const DEFAULT_DECRYPTION_DAYS = 30;
+const defaultSignatureStorage = createMemoryStorage();
+
+// Scientific values are entered with two decimals and stored as euint32.
+export const VALUE_DECIMALS = 2;
+const VALUE_SCALE = 10 ** VALUE_DECIMALS;
+const MAX_UINT32 = 2 ** 32 - 1;
+
+export const toEncryptable = (value: number): number => {
+  const scaled = Math.round(value * VALUE_SCALE);
+  if (!Number.isFinite(scaled) || scaled < 0 || scaled > MAX_UINT32) {
+    throw new Error(`Value ${value} cannot be encrypted as euint32`);
+  }
+  return scaled;
+};
+
+export const fromEncryptable = (value: bigint | number): number => Number(value) / VALUE_SCALE;
+
+/**
+ * Encrypts `values` as euint32 inputs bound to `contractAddress` and
+ * `userAddress`. The returned handles are only accepted on-chain together
+ * with the input proof, and only when sent by `userAddress`.
+ */
+export async function encryptValues(
+  backend: FhevmBackend,
+  contractAddress: string,
+  userAddress: string,
+  values: (number | bigint)[]
+): Promise<EncryptedValues> {
+  const input = backend.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+/**
+ * Decrypts a single handle for the signer. The handle must be ACL-allowed for
+ * both the signer and `contractAddress`. The user-decrypt signature is cached
+ * in `storage`, so the wallet is only prompted once per `durationDays`.
+ */
+export async function decryptValue(
+  backend: FhevmBackend,
+  signer: TypedDataSigner,
+  handle: string,
+  contractAddress: string,
+  { storage = defaultSignatureStorage, durationDays = DEFAULT_DECRYPTION_DAYS }: DecryptOptions = {}
+): Promise<bigint> {
+  const signature = await loadOrSignDecryptionSignature(backend, signer, [contractAddress], durationDays, storage);
+  const results = await userDecryptHandles(backend, signature, [{ handle, contractAddress }]);
+  return results[handle.toLowerCase()];
+}
@@ -0,0 +1,273 @@
+// hypotheses.ts
+import type { IndexedBatch } from "./indexer";
+import type { StatisticsResult } from "./statistics";
+
+/** The decrypted aggregates of one closed batch. */
+export interface BatchObservation {
+  batchId: number;
+  category: string;
+  units: string;
+  // Decrypted average from requestDiscovery.
+  mean: number;
+  pointCount: number;
+  // Decrypted by requestStatistics, when requested.
+  variance?: number;
+  min?: number;
+  max?: number;
+}
+
+export type HypothesisKind = "trend" | "outlier" | "correlation";
+
+export interface Hypothesis {
+  // Stable across runs, e.g. "trend:Genomics"; detectors of two categories that find the same pattern share it.
+  id: string;
+  kind: HypothesisKind;
+  category: string;
+  statement: string;
+  // Between 0 and 1.
+  confidence: number;
+  batchIds: number[];
+  // The figures the statement rests on, e.g. slope, r and the number of batches.
+  statistics: Record<string, number>;
+}
+
+export interface DetectionContext {
+  category: string;
+  // Every category's observations, oldest batch first.
+  series: Map<string, BatchObservation[]>;
+}
+
+/** Finds patterns in one category's observations, which are sorted oldest batch first. */
+export type HypothesisDetector = (observations: BatchObservation[], context: DetectionContext) => Hypothesis[];
+
+export interface HypothesisEngineOptions {
+  // Run for every category without its own detectors. Defaults to trend, outlier and correlation detection.
+  detectors?: HypothesisDetector[];
+  // Replace the default detectors for a category.
+  categoryDetectors?: Record<string, HypothesisDetector[]>;
+  // Hypotheses below this confidence are dropped.
+  minConfidence?: number;
+}
+
+export interface HypothesisEngine {
+  /** Replaces the detectors of `category`. */
+  use(category: string, detectors: HypothesisDetector[]): void;
+  /** Runs the detectors of every category, most confident hypothesis first. */
+  generate(observations: BatchObservation[]): Hypothesis[];
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.9;
+
+// Fewer batches than this carry no usable trend or correlation.
+export const MIN_SERIES_LENGTH = 4;
+
+// Iglewicz and Hoaglin's cut-off for the modified z-score.
+export const DEFAULT_OUTLIER_THRESHOLD = 3.5;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+  const m = average(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Abramowitz and Stegun 7.1.26, accurate to 1.5e-7.
+function erf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = (((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592;
+  const y = 1 - poly * t * Math.exp(-x * x);
+  return x >= 0 ? y : -y;
+}
+
+/** Probability that a standard normal variable lies within ±z. */
+const twoSidedConfidence = (z: number) => (Number.isFinite(z) ? erf(Math.abs(z) / Math.SQRT2) : 1);
+
+/** Pearson correlation and least-squares slope of `ys` against `xs`; NaN when either is constant. */
+export function linearFit(xs: number[], ys: number[]): { slope: number; r: number } {
+  const mx = average(xs);
+  const my = average(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return { slope: sxy / sxx, r: sxy / Math.sqrt(sxx * syy) };
+}
+
+/** Confidence that a correlation `r` over `n` pairs is not chance, from Fisher's z-transform. */
+export function correlationConfidence(r: number, n: number): number {
+  if (n < MIN_SERIES_LENGTH || !Number.isFinite(r)) return 0;
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  return twoSidedConfidence(Math.atanh(clamped) * Math.sqrt(n - 3));
+}
+
+const format = (value: number) => Number(value.toPrecision(3)).toString();
+
+const unitsOf = (observations: BatchObservation[]) => (observations[0]?.units ? ` ${observations[0].units}` : "");
+
+/** A mean that rises or falls steadily from batch to batch. */
+export function trendDetector(): HypothesisDetector {
+  return (observations, { category }) => {
+    if (observations.length < MIN_SERIES_LENGTH) return [];
+    const { slope, r } = linearFit(
+      observations.map(o => o.batchId),
+      observations.map(o => o.mean)
+    );
+    if (!Number.isFinite(r)) return [];
+    const n = observations.length;
+    const change = `${slope > 0 ? "rise" : "fall"} by ${format(Math.abs(slope))}${unitsOf(observations)}`;
+    return [
+      {
+        id: `trend:${category}`,
+        kind: "trend",
+        category,
+        statement: `${category} batch means ${change} per batch across ${n} batches (r² = ${format(r * r)})`,
+        confidence: correlationConfidence(r, n),
+        batchIds: observations.map(o => o.batchId),
+        statistics: { slope, r, rSquared: r * r, batches: n },
+      },
+    ];
+  };
+}
+
+/** A batch whose mean stands apart from the category's other batches. */
+export function outlierDetector({ threshold = DEFAULT_OUTLIER_THRESHOLD } = {}): HypothesisDetector {
+  return (observations, { category }) => {
+    if (observations.length < MIN_SERIES_LENGTH) return [];
+    const means = observations.map(o => o.mean);
+    const center = median(means);
+    const mad = median(means.map(m => Math.abs(m - center)));
+    if (mad === 0) return [];
+
+    return observations.flatMap((observation, i) => {
+      const modifiedZ = (0.6745 * (observation.mean - center)) / mad;
+      if (Math.abs(modifiedZ) < threshold) return [];
+      // How unlikely the batch is given the others alone, so the outlier does not widen its own yardstick.
+      const others = means.filter((_, j) => j !== i);
+      const spread = standardDeviation(others) * Math.sqrt(1 + 1 / others.length);
+      const zScore = spread > 0 ? (observation.mean - average(others)) / spread : Infinity;
+      return [
+        {
+          id: `outlier:${category}:${observation.batchId}`,
+          kind: "outlier" as const,
+          category,
+          statement:
+            `Batch #${observation.batchId} ${category} mean of ${format(observation.mean)}${unitsOf(observations)} ` +
+            `lies ${format(Math.abs(modifiedZ))} robust deviations ${modifiedZ > 0 ? "above" : "below"} ` +
+            `the median of ${format(center)}`,
+          confidence: twoSidedConfidence(zScore),
+          batchIds: [observation.batchId],
+          statistics: {
+            mean: observation.mean,
+            median: center,
+            mad,
+            modifiedZ,
+            zScore,
+            points: observation.pointCount,
+            ...(observation.variance !== undefined && { variance: observation.variance }),
+          },
+        },
+      ];
+    });
+  };
+}
+
+/**
+ * Means of this category that move with another category's. The i-th most recent batches of both
+ * categories are paired, since batches of different categories do not share ids.
+ */
+export function correlationDetector(): HypothesisDetector {
+  return (observations, { category, series }) => {
+    const hypotheses: Hypothesis[] = [];
+    for (const [other, otherObservations] of series) {
+      if (other === category) continue;
+      const n = Math.min(observations.length, otherObservations.length);
+      if (n < MIN_SERIES_LENGTH) continue;
+      const mine = observations.slice(-n);
+      const theirs = otherObservations.slice(-n);
+      const { r } = linearFit(
+        mine.map(o => o.mean),
+        theirs.map(o => o.mean)
+      );
+      if (!Number.isFinite(r)) continue;
+      hypotheses.push({
+        id: `correlation:${[category, other].sort().join(":")}`,
+        kind: "correlation",
+        category,
+        statement:
+          `${category} and ${other} batch means move ${r > 0 ? "together" : "in opposite directions"} ` +
+          `(r = ${format(r)} over ${n} paired batches)`,
+        confidence: correlationConfidence(r, n),
+        batchIds: [...mine, ...theirs].map(o => o.batchId),
+        statistics: { r, pairs: n },
+      });
+    }
+    return hypotheses;
+  };
+}
+
+export const DEFAULT_DETECTORS: HypothesisDetector[] = [trendDetector(), outlierDetector(), correlationDetector()];
+
+/** Builds a pattern-detection engine whose detectors can be swapped per category. */
+export function createHypothesisEngine(options: HypothesisEngineOptions = {}): HypothesisEngine {
+  const detectors = options.detectors ?? DEFAULT_DETECTORS;
+  const categoryDetectors = new Map(Object.entries(options.categoryDetectors ?? {}));
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+  return {
+    use: (category, categoryDetectorList) => void categoryDetectors.set(category, categoryDetectorList),
+
+    generate(observations) {
+      const series = new Map<string, BatchObservation[]>();
+      for (const observation of [...observations].sort((a, b) => a.batchId - b.batchId)) {
+        if (!series.has(observation.category)) series.set(observation.category, []);
+        series.get(observation.category)!.push(observation);
+      }
+
+      const hypotheses = new Map<string, Hypothesis>();
+      for (const [category, categoryObservations] of series) {
+        for (const detect of categoryDetectors.get(category) ?? detectors) {
+          for (const hypothesis of detect(categoryObservations, { category, series })) {
+            if (hypothesis.confidence < minConfidence) continue;
+            const known = hypotheses.get(hypothesis.id);
+            if (!known || known.confidence < hypothesis.confidence) hypotheses.set(hypothesis.id, hypothesis);
+          }
+        }
+      }
+      return [...hypotheses.values()].sort((a, b) => b.confidence - a.confidence);
+    },
+  };
+}
+
+/**
+ * Turns indexed batches into observations. Only batches with a decrypted, non-overflowed average and
+ * known metadata are used; decrypted statistics of the same batch are added when given.
+ */
+export function toObservations(batches: IndexedBatch[], statistics: StatisticsResult[] = []): BatchObservation[] {
+  const statisticsByBatch = new Map(statistics.map(result => [result.batchId, result.statistics]));
+  return batches.flatMap(batch => {
+    if (!batch.result || batch.result.overflowed || !batch.metadata) return [];
+    const stats = statisticsByBatch.get(batch.id);
+    return [
+      {
+        batchId: batch.id,
+        category: batch.metadata.category,
+        units: batch.metadata.units,
+        mean: Number(batch.result.average),
+        pointCount: batch.pointCount,
+        variance: stats?.variance,
+        min: stats?.min === undefined ? undefined : Number(stats.min),
+        max: stats?.max === undefined ? undefined : Number(stats.max),
+      },
+    ];
+  });
+}
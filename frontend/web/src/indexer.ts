@@ -0,0 +1,269 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { BatchMetadata, parseSchema } from "./batchMetadata";
+import { scaledToDecimal } from "./precision";
+import { DISCOVERY_STATUSES, RegisteredDiscovery } from "./registry";
+
+const SNAPSHOT_VERSION = 1;
+
+// Public Sepolia RPCs reject eth_getLogs over wide ranges.
+export const DEFAULT_MAX_BLOCK_RANGE = 5000;
+export const DEFAULT_POLL_INTERVAL_MS = 4000;
+
+// Structurally compatible with window.localStorage / sessionStorage.
+export interface IndexerStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/** Contracts to index. Each one is optional; only the configured ones are replayed. */
+export interface IndexerSources {
+  // UniversalAdapter: DataStored key/value writes.
+  adapter?: ethers.Contract;
+  // AIDiscoveryFHE: batch lifecycle and decryption results.
+  discovery?: ethers.Contract;
+  // DiscoveryRegistry: the discovery list.
+  registry?: ethers.Contract;
+}
+
+export interface IndexerOptions {
+  // First block to replay, usually the deployment block.
+  startBlock?: number;
+  maxBlockRange?: number;
+  // Blocks to stay behind the chain head, to avoid indexing logs that get reorged away.
+  confirmations?: number;
+  storage?: IndexerStorage;
+}
+
+export interface AdapterEntry {
+  sender: string;
+  value: string;
+  blockNumber: number;
+}
+
+export interface IndexedBatchResult {
+  requestId: string;
+  scaledAverage: string;
+  scale: string;
+  overflowed: boolean;
+  average: string;
+}
+
+export interface IndexedBatch {
+  id: number;
+  isOpen: boolean;
+  pointCount: number;
+  metadata?: BatchMetadata;
+  result?: IndexedBatchResult;
+}
+
+// Plain JSON so it can be persisted; bigints are kept as decimal strings.
+interface IndexSnapshot {
+  version: number;
+  chainId: number;
+  // Last block whose logs are included.
+  lastBlock: number;
+  adapter: Record<string, AdapterEntry>;
+  batches: Record<number, IndexedBatch>;
+  discoveries: Record<number, RegisteredDiscovery>;
+}
+
+export interface DiscoveryIndexer {
+  /** Replays logs up to the confirmed head. Resolves with the number of logs applied. */
+  sync(): Promise<number>;
+  /** Polls for new blocks every `intervalMs`. Returns a stop function. */
+  follow(intervalMs?: number): () => void;
+  /** Calls `listener` after every sync that applied logs. Returns an unsubscribe function. */
+  onUpdate(listener: () => void): () => void;
+  lastBlock(): number;
+  /** Registry discoveries, newest first. */
+  getDiscoveries(): RegisteredDiscovery[];
+  /** AIDiscoveryFHE batches, newest first. */
+  getBatches(): IndexedBatch[];
+  getAdapterEntry(key: string): AdapterEntry | undefined;
+}
+
+const emptySnapshot = (chainId: number, startBlock: number): IndexSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  chainId,
+  lastBlock: startBlock - 1,
+  adapter: {},
+  batches: {},
+  discoveries: {},
+});
+
+const storageKey = (chainId: number, addresses: string[]) =>
+  `discovery.indexer:${chainId}:${addresses.map(a => a.toLowerCase()).sort().join(",")}`;
+
+function loadSnapshot(storage: IndexerStorage | undefined, key: string, chainId: number, startBlock: number) {
+  const raw = storage?.getItem(key);
+  if (raw) {
+    try {
+      const snapshot = JSON.parse(raw) as IndexSnapshot;
+      if (snapshot.version === SNAPSHOT_VERSION && snapshot.chainId === chainId) return snapshot;
+    } catch (e) {
+      console.error("Error parsing indexer snapshot:", e);
+    }
+  }
+  return emptySnapshot(chainId, startBlock);
+}
+
+const batchOf = (snapshot: IndexSnapshot, batchId: bigint): IndexedBatch => {
+  const id = Number(batchId);
+  snapshot.batches[id] ??= { id, isOpen: true, pointCount: 0 };
+  return snapshot.batches[id];
+};
+
+function applyAdapterLog(snapshot: IndexSnapshot, event: ethers.LogDescription, log: ethers.Log) {
+  if (event.name !== "DataStored") return;
+  const { sender, key, value } = event.args;
+  snapshot.adapter[key] = { sender, value: ethers.hexlify(value), blockNumber: log.blockNumber };
+}
+
+function applyDiscoveryLog(snapshot: IndexSnapshot, event: ethers.LogDescription) {
+  const args = event.args;
+  switch (event.name) {
+    case "BatchOpened":
+      batchOf(snapshot, args.batchId).isOpen = true;
+      break;
+    case "BatchClosed":
+      batchOf(snapshot, args.batchId).isOpen = false;
+      break;
+    case "BatchMetadataSet":
+      batchOf(snapshot, args.batchId).metadata = {
+        category: args.category,
+        units: args.units,
+        fields: parseSchema(args.schema),
+        schemaHash: args.schemaHash,
+        maxPointsPerProvider: Number(args.maxPointsPerProvider),
+        closesAt: Number(args.closesAt),
+      };
+      break;
+    case "DataSubmitted":
+      batchOf(snapshot, args.batchId).pointCount += Number(args.count);
+      break;
+    case "DecryptionCompleted":
+      batchOf(snapshot, args.batchId).result = {
+        requestId: args.requestId.toString(),
+        scaledAverage: args.result.toString(),
+        scale: args.scale.toString(),
+        overflowed: args.overflowed,
+        average: scaledToDecimal(args.result, args.scale),
+      };
+      break;
+  }
+}
+
+function applyRegistryLog(snapshot: IndexSnapshot, event: ethers.LogDescription, timestamp: number) {
+  const args = event.args;
+  if (event.name === "DiscoverySubmitted") {
+    const id = Number(args.id);
+    snapshot.discoveries[id] = {
+      id,
+      owner: args.owner,
+      timestamp,
+      status: "pending",
+      category: args.category,
+      encryptedValue: args.value,
+      hypothesisHash: args.hypothesisHash,
+      hypothesis: ethers.id(args.hypothesis) === args.hypothesisHash ? args.hypothesis : "",
+    };
+  } else if (event.name === "DiscoveryStatusChanged") {
+    const discovery = snapshot.discoveries[Number(args.id)];
+    if (discovery) discovery.status = DISCOVERY_STATUSES[Number(args.status)] ?? discovery.status;
+  }
+}
+
+/**
+ * Creates an indexer that rebuilds the discovery list and batch states from
+ * contract logs. Logs of all sources are fetched with one eth_getLogs call per
+ * block range, and the resulting snapshot is persisted to `storage` so a
+ * reload only replays blocks it has not seen.
+ */
+export async function createIndexer(
+  provider: ethers.Provider,
+  sources: IndexerSources,
+  options: IndexerOptions = {}
+): Promise<DiscoveryIndexer> {
+  const maxBlockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  const confirmations = options.confirmations ?? 0;
+  if (maxBlockRange <= 0) throw new Error("maxBlockRange must be positive");
+
+  const contracts = new Map<string, { kind: keyof IndexerSources; contract: ethers.Contract }>();
+  for (const kind of ["adapter", "discovery", "registry"] as const) {
+    const contract = sources[kind];
+    if (contract) contracts.set((await contract.getAddress()).toLowerCase(), { kind, contract });
+  }
+  if (contracts.size === 0) throw new Error("No contract to index");
+
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const key = storageKey(chainId, [...contracts.keys()]);
+  const snapshot = loadSnapshot(options.storage, key, chainId, options.startBlock ?? 0);
+  const listeners = new Set<() => void>();
+  let syncing: Promise<number> | undefined;
+
+  // Fetches every block timestamp the logs need before touching the snapshot, so a failing
+  // getBlock leaves it unchanged and the whole range is replayed on the next sync.
+  const applyLogs = async (logs: ethers.Log[]) => {
+    const ordered = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const events = ordered.flatMap(log => {
+      const source = contracts.get(log.address.toLowerCase());
+      const event = source?.contract.interface.parseLog(log);
+      return source && event ? [{ log, kind: source.kind, event }] : [];
+    });
+
+    const timestamps = new Map<number, number>();
+    for (const { log, kind } of events) {
+      if (kind !== "registry" || timestamps.has(log.blockNumber)) continue;
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+
+    for (const { log, kind, event } of events) {
+      if (kind === "adapter") applyAdapterLog(snapshot, event, log);
+      else if (kind === "discovery") applyDiscoveryLog(snapshot, event);
+      else applyRegistryLog(snapshot, event, timestamps.get(log.blockNumber)!);
+    }
+  };
+
+  const runSync = async (): Promise<number> => {
+    const head = (await provider.getBlockNumber()) - confirmations;
+    let applied = 0;
+    while (snapshot.lastBlock < head) {
+      const fromBlock = snapshot.lastBlock + 1;
+      const toBlock = Math.min(head, fromBlock + maxBlockRange - 1);
+      const logs = await provider.getLogs({ address: [...contracts.keys()], fromBlock, toBlock });
+      await applyLogs(logs);
+      snapshot.lastBlock = toBlock;
+      applied += logs.length;
+      options.storage?.setItem(key, JSON.stringify(snapshot));
+    }
+    if (applied > 0) listeners.forEach(listener => listener());
+    return applied;
+  };
+
+  // Concurrent callers share the running sync instead of replaying the same range twice.
+  const sync = () => {
+    syncing ??= runSync().finally(() => { syncing = undefined; });
+    return syncing;
+  };
+
+  return {
+    sync,
+    follow(intervalMs = DEFAULT_POLL_INTERVAL_MS) {
+      const timer = setInterval(() => {
+        sync().catch(e => console.error("Indexer sync failed:", e));
+      }, intervalMs);
+      return () => clearInterval(timer);
+    },
+    onUpdate(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    lastBlock: () => snapshot.lastBlock,
+    // Copies, so callers never see the snapshot change under them.
+    getDiscoveries: () => Object.values(snapshot.discoveries).map(d => ({ ...d })).sort((a, b) => b.id - a.id),
+    getBatches: () => Object.values(snapshot.batches).map(b => ({ ...b })).sort((a, b) => b.id - a.id),
+    getAdapterEntry: key => snapshot.adapter[key],
+  };
+}
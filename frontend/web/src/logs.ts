@@ -0,0 +1,30 @@
+// logs.ts
+import { ethers } from "ethers";
+import { DEFAULT_MAX_BLOCK_RANGE } from "./indexer";
+
+/** Blocks an event query covers. Pass the deployment block as `fromBlock`; public RPCs reject ranges from genesis. */
+export interface LogRange {
+  fromBlock?: number;
+  maxBlockRange?: number;
+}
+
+/** Runs `contract.queryFilter(event)` from `range.fromBlock` to the chain head, `maxBlockRange` blocks per request. */
+export async function queryLogs(
+  contract: ethers.Contract,
+  event: ethers.ContractEventName,
+  range: LogRange = {}
+): Promise<ethers.EventLog[]> {
+  const maxBlockRange = range.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE;
+  if (maxBlockRange <= 0) throw new Error("maxBlockRange must be positive");
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract runner has no provider to query logs with");
+
+  const head = await provider.getBlockNumber();
+  const logs: ethers.EventLog[] = [];
+  for (let fromBlock = range.fromBlock ?? 0; fromBlock <= head; fromBlock += maxBlockRange) {
+    const toBlock = Math.min(head, fromBlock + maxBlockRange - 1);
+    // Logs of the contract's own events always decode, so they are EventLogs.
+    logs.push(...((await contract.queryFilter(event, fromBlock, toBlock)) as ethers.EventLog[]));
+  }
+  return logs;
+}
@@ -5,15 +5,28 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { Chain, defineChain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { network, networks } from './contract';
+import { NetworkConfig } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const toChain = (n: NetworkConfig): Chain => defineChain({
+  id: n.chainId,
+  name: n.name,
+  nativeCurrency: n.nativeCurrency,
+  rpcUrls: { default: { http: n.rpcUrls } },
+  blockExplorers: n.blockExplorerUrl ? { default: { name: 'Explorer', url: n.blockExplorerUrl } } : undefined,
+});
+
+// The active network comes first, so wallets connect to it by default.
+const chains = [network, ...Object.values(networks).filter(n => n.key !== network.key)].map(toChain) as [Chain, ...Chain[]];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
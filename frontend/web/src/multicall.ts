@@ -0,0 +1,155 @@
+// multicall.ts
+import { ethers } from "ethers";
+
+// Multicall3 is deployed at the same address on Sepolia, mainnet and most other chains.
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+export const DEFAULT_CHUNK_SIZE = 100;
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+export interface ReadCall {
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+}
+
+export type ReadResult<T = any> = { success: true; value: T } | { success: false; error: Error };
+
+export interface MulticallOptions {
+  address?: string;
+  // Calls per aggregate3 request.
+  chunkSize?: number;
+}
+
+export interface MulticallClient {
+  /** Runs `calls` in as few eth_calls as possible. One failing call does not fail the others. */
+  read(calls: ReadCall[]): Promise<ReadResult[]>;
+  /** Like `read`, but throws the first failure. */
+  readAll(calls: ReadCall[]): Promise<any[]>;
+  /** Queues a single call; calls queued in the same tick share one request. */
+  call<T = any>(contract: ethers.Contract, method: string, ...args: unknown[]): Promise<T>;
+}
+
+interface EncodedCall {
+  target: string;
+  callData: string;
+  fragment: ethers.FunctionFragment;
+  contract: ethers.Contract;
+}
+
+// Unwraps single-output functions, like ethers.Contract does.
+const unwrap = (fragment: ethers.FunctionFragment, decoded: ethers.Result) =>
+  fragment.outputs.length === 1 ? decoded[0] : decoded;
+
+function decodeResult(call: EncodedCall, success: boolean, returnData: string): ReadResult {
+  if (!success) {
+    const parsed = returnData !== "0x" ? call.contract.interface.parseError(returnData) : null;
+    const reason = parsed ? `${parsed.name}(${parsed.args.join(", ")})` : `reverted with ${returnData}`;
+    return { success: false, error: new Error(`${call.fragment.name}: ${reason}`) };
+  }
+  try {
+    return { success: true, value: unwrap(call.fragment, call.contract.interface.decodeFunctionResult(call.fragment, returnData)) };
+  } catch (e) {
+    return { success: false, error: e as Error };
+  }
+}
+
+async function encodeCall({ contract, method, args = [] }: ReadCall): Promise<EncodedCall> {
+  const fragment = contract.interface.getFunction(method, args);
+  if (!fragment) throw new Error(`Unknown function ${method}`);
+  return {
+    target: await contract.getAddress(),
+    callData: contract.interface.encodeFunctionData(fragment, args),
+    fragment,
+    contract,
+  };
+}
+
+/**
+ * Creates a read client that aggregates view calls into Multicall3
+ * `aggregate3` requests of at most `chunkSize` calls. A chunk the node rejects
+ * as a whole (gas or response size limits) is split in halves and retried;
+ * without a Multicall3 deployment every call is sent on its own.
+ */
+export function createMulticallClient(provider: ethers.Provider, options: MulticallOptions = {}): MulticallClient {
+  const address = options.address ?? MULTICALL3_ADDRESS;
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (chunkSize <= 0) throw new Error("chunkSize must be positive");
+
+  let deployed: Promise<boolean> | undefined;
+  const isDeployed = () => (deployed ??= provider.getCode(address).then(code => code !== "0x"));
+
+  const callDirect = async (call: EncodedCall): Promise<ReadResult> => {
+    try {
+      return decodeResult(call, true, await provider.call({ to: call.target, data: call.callData }));
+    } catch (e: any) {
+      const data = typeof e?.data === "string" ? e.data : undefined;
+      return data ? decodeResult(call, false, data) : { success: false, error: e };
+    }
+  };
+
+  const aggregate = async (calls: EncodedCall[]): Promise<ReadResult[]> => {
+    if (calls.length === 1) return [await callDirect(calls[0])];
+    try {
+      const data = multicallInterface.encodeFunctionData("aggregate3", [
+        calls.map(({ target, callData }) => ({ target, allowFailure: true, callData })),
+      ]);
+      const [results] = multicallInterface.decodeFunctionResult("aggregate3", await provider.call({ to: address, data }));
+      return calls.map((call, i) => decodeResult(call, results[i].success, results[i].returnData));
+    } catch (e) {
+      const middle = Math.ceil(calls.length / 2);
+      return [...(await aggregate(calls.slice(0, middle))), ...(await aggregate(calls.slice(middle)))];
+    }
+  };
+
+  const read = async (calls: ReadCall[]): Promise<ReadResult[]> => {
+    if (calls.length === 0) return [];
+    const encoded = await Promise.all(calls.map(encodeCall));
+    if (!(await isDeployed())) return Promise.all(encoded.map(callDirect));
+
+    const chunks: EncodedCall[][] = [];
+    for (let i = 0; i < encoded.length; i += chunkSize) chunks.push(encoded.slice(i, i + chunkSize));
+    return (await Promise.all(chunks.map(aggregate))).flat();
+  };
+
+  let queue: { call: ReadCall; resolve: (value: any) => void; reject: (error: Error) => void }[] = [];
+  const flush = async () => {
+    const pending = queue;
+    queue = [];
+    try {
+      const results = await read(pending.map(({ call }) => call));
+      results.forEach((result, i) => (result.success ? pending[i].resolve(result.value) : pending[i].reject(result.error)));
+    } catch (e) {
+      pending.forEach(({ reject }) => reject(e as Error));
+    }
+  };
+
+  return {
+    read,
+    async readAll(calls) {
+      return (await read(calls)).map(result => {
+        if (!result.success) throw result.error;
+        return result.value;
+      });
+    },
+    call(contract, method, ...args) {
+      return new Promise((resolve, reject) => {
+        if (queue.length === 0) setTimeout(flush, 0);
+        queue.push({ call: { contract, method, args }, resolve, reject });
+      });
+    },
+  };
+}
+
+/** Calls a view function through `client` when given, otherwise directly on `contract`. */
+export function readWith<T = any>(
+  client: MulticallClient | undefined,
+  contract: ethers.Contract,
+  method: string,
+  ...args: unknown[]
+): Promise<T> {
+  return client ? client.call<T>(contract, method, ...args) : contract.getFunction(method)(...args);
+}
@@ -0,0 +1,156 @@
+// networks.ts
+import type { DeployedContractName, NetworkDeployments } from "./deployments";
+
+/** Addresses of the deployed contracts, from deployments.ts unless config.json overrides them. */
+export interface NetworkContracts {
+  // UniversalAdapter
+  contractAddress: string;
+  discoveryContractAddress: string;
+  registryContractAddress: string;
+  // Defaults to the canonical Multicall3 address.
+  multicallAddress?: string;
+  // Deployment block, where the indexer starts replaying logs.
+  startBlock: number;
+}
+
+/** FHEVM host and gateway contracts, for chains other than Sepolia. */
+export interface FhevmContracts {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+}
+
+export interface NetworkConfig extends NetworkContracts {
+  key: string;
+  name: string;
+  chainId: number;
+  // Tried in order by the read-only provider.
+  rpcUrls: string[];
+  blockExplorerUrl?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // Encryption and decryption are unavailable on networks without a relayer.
+  relayerUrl?: string;
+  // Overrides the relayer SDK's Sepolia defaults.
+  fhevm?: Partial<FhevmContracts>;
+}
+
+/** Shape of config.json. Entries with a built-in key may be empty. */
+export interface NetworksFile {
+  defaultNetwork: string;
+  networks: Record<string, Partial<NetworkConfig>>;
+}
+
+const ETHER = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+const EMPTY_CONTRACTS: NetworkContracts = {
+  contractAddress: "",
+  discoveryContractAddress: "",
+  registryContractAddress: "",
+  startBlock: 0,
+};
+
+export const BUILTIN_NETWORKS: Record<string, Omit<NetworkConfig, keyof NetworkContracts>> = {
+  localhost: {
+    key: "localhost",
+    name: "Hardhat localhost",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"],
+    nativeCurrency: ETHER,
+  },
+  sepolia: {
+    key: "sepolia",
+    name: "Sepolia",
+    chainId: 11155111,
+    rpcUrls: [
+      "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+      "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+      "https://rpc.sepolia.org",
+      "https://rpc2.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io",
+    ],
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    relayerUrl: "https://relayer.testnet.zama.cloud",
+  },
+};
+
+// Where each deployed contract's address goes.
+const ADDRESS_FIELDS: Record<DeployedContractName, "contractAddress" | "discoveryContractAddress" | "registryContractAddress"> = {
+  UniversalAdapter: "contractAddress",
+  AIDiscoveryFHE: "discoveryContractAddress",
+  DiscoveryRegistry: "registryContractAddress",
+};
+
+/** The addresses of a network's deployments; the indexer starts at the oldest one. */
+export function deployedContracts(deployments: NetworkDeployments | undefined): Partial<NetworkContracts> {
+  const contracts: Partial<NetworkContracts> = {};
+  const blocks: number[] = [];
+  for (const [name, deployment] of Object.entries(deployments?.contracts ?? {})) {
+    contracts[ADDRESS_FIELDS[name as DeployedContractName]] = deployment.address;
+    blocks.push(deployment.blockNumber);
+  }
+  if (blocks.length > 0) contracts.startBlock = Math.min(...blocks);
+  return contracts;
+}
+
+/** Merges the deployments and config.json entries over the built-in networks and validates the result. */
+export function resolveNetworks(
+  file: NetworksFile,
+  deployments: Record<string, NetworkDeployments> = {}
+): Record<string, NetworkConfig> {
+  const networks: Record<string, NetworkConfig> = {};
+  const keys = new Set([...Object.keys(BUILTIN_NETWORKS), ...Object.keys(file.networks)]);
+  for (const key of keys) {
+    const network = {
+      ...EMPTY_CONTRACTS,
+      ...BUILTIN_NETWORKS[key],
+      ...deployedContracts(deployments[key]),
+      ...file.networks[key],
+      key,
+    } as NetworkConfig;
+    if (!network.name) throw new Error(`Network ${key} needs a name`);
+    if (!Number.isInteger(network.chainId) || network.chainId <= 0) throw new Error(`Network ${key} needs a chainId`);
+    if (deployments[key] && deployments[key].chainId !== network.chainId) {
+      throw new Error(`Network ${key} is chain ${network.chainId}, but its deployments are on chain ${deployments[key].chainId}`);
+    }
+    if (!network.rpcUrls?.length) throw new Error(`Network ${key} needs at least one RPC URL`);
+    network.nativeCurrency ??= ETHER;
+    networks[key] = network;
+  }
+  if (!networks[file.defaultNetwork]) throw new Error(`Unknown default network ${file.defaultNetwork}`);
+  return networks;
+}
+
+export const findNetworkByChainId = (networks: Record<string, NetworkConfig>, chainId: number) =>
+  Object.values(networks).find(network => network.chainId === chainId);
+
+export const toChainIdHex = (chainId: number) => `0x${chainId.toString(16)}`;
+
+// EIP-1193 error code for a chain the wallet does not know yet.
+const UNRECOGNIZED_CHAIN = 4902;
+
+/** Asks an EIP-1193 wallet to switch to `network`, adding the chain first when the wallet does not know it. */
+export async function switchWalletNetwork(
+  wallet: { request(request: { method: string; params?: any[] }): Promise<any> },
+  network: NetworkConfig
+): Promise<void> {
+  const chainId = toChainIdHex(network.chainId);
+  try {
+    await wallet.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (e: any) {
+    if (e?.code !== UNRECOGNIZED_CHAIN) throw e;
+    await wallet.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.blockExplorerUrl ? [network.blockExplorerUrl] : undefined,
+      }],
+    });
+  }
+}
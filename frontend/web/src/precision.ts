@@ -0,0 +1,56 @@
+// precision.ts
+
+// Mirrors AIDiscoveryFHE.Precision: the width of the encrypted accumulator.
+export const Precision = {
+  Uint32: 0,
+  Uint64: 1,
+  Uint128: 2,
+} as const;
+export type Precision = (typeof Precision)[keyof typeof Precision];
+
+export const PRECISION_LABELS: Record<Precision, string> = {
+  [Precision.Uint32]: "euint32",
+  [Precision.Uint64]: "euint64",
+  [Precision.Uint128]: "euint128",
+};
+
+const MAX_SCALE = 2n ** 64n - 1n;
+const MAX_UINT32 = 2n ** 32n - 1n;
+
+/** Largest scale openBatchWithPrecision accepts for `precision`. */
+export const maxScale = (precision: Precision): bigint => (precision === Precision.Uint32 ? MAX_UINT32 : MAX_SCALE);
+
+export function validateScale(precision: Precision, scale: bigint | number): bigint {
+  const value = BigInt(scale);
+  if (value <= 0n || value > maxScale(precision)) {
+    throw new Error(`Scale must be between 1 and ${maxScale(precision)} for ${PRECISION_LABELS[precision]}`);
+  }
+  return value;
+}
+
+// Number of decimals to show for `scale`: exact for powers of ten, `fallback` otherwise.
+const decimalsFor = (scale: bigint, fallback: number): number => {
+  const digits = scale.toString();
+  return /^10*$/.test(digits) ? digits.length - 1 : fallback;
+};
+
+/**
+ * Converts a decrypted `value * scale` back to a decimal string without going
+ * through floating point, e.g. (1666n, 1000n) => "1.666". Scales that are not
+ * powers of ten are truncated to `fractionDigits` decimals.
+ */
+export function scaledToDecimal(value: bigint, scale: bigint | number, fractionDigits = 6): string {
+  const divisor = BigInt(scale);
+  if (divisor <= 0n) throw new Error("Scale must be positive");
+
+  const integer = value / divisor;
+  const decimals = decimalsFor(divisor, fractionDigits);
+  if (decimals === 0) return integer.toString();
+
+  const fraction = ((value % divisor) * 10n ** BigInt(decimals)) / divisor;
+  const fractionText = fraction.toString().padStart(decimals, "0").replace(/0+$/, "");
+  return fractionText ? `${integer}.${fractionText}` : integer.toString();
+}
+
+export const scaledToNumber = (value: bigint, scale: bigint | number): number =>
+  Number(scaledToDecimal(value, scale));
@@ -0,0 +1,112 @@
+// privacy.ts
+import { ethers } from "ethers";
+import { LogRange, queryLogs } from "./logs";
+import { MulticallClient, readWith } from "./multicall";
+import { scaledToDecimal, scaledToNumber } from "./precision";
+
+// AIDiscoveryFHE takes and reports epsilons in thousandths.
+export const EPSILON_UNITS = 1000;
+
+const MAX_UINT32 = 0xffffffff;
+
+export interface DifferentialPrivacyConfig {
+  // Points above this are clipped on submission; it bounds how far one point moves the average.
+  maxValue: number;
+  // Privacy loss of one noisy average, e.g. 0.5.
+  epsilon: number;
+  // Total privacy loss the batch may spend, e.g. 2 allows four averages at epsilon 0.5.
+  budget: number;
+}
+
+export interface PrivacyBudget extends DifferentialPrivacyConfig {
+  spent: number;
+  remaining: number;
+  // Noisy averages the batch can still answer.
+  requestsLeft: number;
+}
+
+/** The noise added to one decrypted average before decryption. */
+export interface DiscoveryNoise {
+  epsilon: number;
+  // Laplace scale b of the noise, in the scaled units of the decrypted result.
+  scaledNoiseScale: bigint;
+  // b in the units of the average.
+  noiseScale: string;
+  // b * √2, in the units of the average.
+  standardDeviation: number;
+}
+
+function toEpsilonUnits(epsilon: number, name: string): number {
+  const units = Math.round(epsilon * EPSILON_UNITS);
+  if (!Number.isFinite(epsilon) || units < 1 || units > MAX_UINT32) {
+    throw new Error(`${name} must be between ${1 / EPSILON_UNITS} and ${MAX_UINT32 / EPSILON_UNITS}`);
+  }
+  return units;
+}
+
+/**
+ * Makes requestDiscovery on an open, still empty batch return noisy averages, each spending
+ * `epsilon` of `budget`. Statistics and threshold queries of the batch are refused from then on.
+ */
+export async function setDifferentialPrivacy(
+  contract: ethers.Contract,
+  batchId: number,
+  config: DifferentialPrivacyConfig
+): Promise<void> {
+  const { maxValue } = config;
+  if (!Number.isInteger(maxValue) || maxValue < 1 || maxValue > MAX_UINT32) {
+    throw new Error("maxValue must be a positive uint32 integer");
+  }
+  const epsilon = toEpsilonUnits(config.epsilon, "epsilon");
+  const budget = toEpsilonUnits(config.budget, "budget");
+  if (budget < epsilon) throw new Error("The budget must cover at least one request");
+  const tx = await contract.setDifferentialPrivacy(batchId, maxValue, epsilon, budget);
+  await tx.wait();
+}
+
+/** The privacy budget of `batchId`, or undefined when its averages are decrypted exactly. */
+export async function getPrivacyBudget(
+  contract: ethers.Contract,
+  batchId: number,
+  client?: MulticallClient
+): Promise<PrivacyBudget | undefined> {
+  const [maxValue, epsilon, budget, spent] = (
+    await readWith<bigint[]>(client, contract, "differentialPrivacy", batchId)
+  ).map(Number);
+  if (epsilon === 0) return undefined;
+  return {
+    maxValue,
+    epsilon: epsilon / EPSILON_UNITS,
+    budget: budget / EPSILON_UNITS,
+    spent: spent / EPSILON_UNITS,
+    remaining: (budget - spent) / EPSILON_UNITS,
+    requestsLeft: Math.floor((budget - spent) / epsilon),
+  };
+}
+
+/** Describes the noise of a NoiseAdded event for a result decrypted with `scale`. */
+export const toDiscoveryNoise = (epsilon: bigint, noiseScale: bigint, scale: bigint): DiscoveryNoise => ({
+  epsilon: Number(epsilon) / EPSILON_UNITS,
+  scaledNoiseScale: noiseScale,
+  noiseScale: scaledToDecimal(noiseScale, scale),
+  standardDeviation: scaledToNumber(noiseScale, scale) * Math.SQRT2,
+});
+
+/** Distance from the true average that the noise stays within with probability `confidence`. */
+export const noiseMargin = (noise: DiscoveryNoise, confidence = 0.95): number =>
+  Number(noise.noiseScale) * Math.log(1 / (1 - confidence));
+
+/** The epsilon and Laplace scale of every noisy requestDiscovery in `range`, keyed by request id. */
+export async function getAddedNoise(
+  contract: ethers.Contract,
+  requestId?: bigint,
+  range: LogRange = {}
+): Promise<Map<bigint, { epsilon: bigint; noiseScale: bigint }>> {
+  const logs = await queryLogs(contract, contract.filters.NoiseAdded(requestId), range);
+  return new Map(
+    logs.map(log => {
+      const { requestId, epsilon, noiseScale } = log.args;
+      return [requestId, { epsilon, noiseScale }];
+    })
+  );
+}
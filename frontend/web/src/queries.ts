@@ -0,0 +1,208 @@
+// queries.ts
+import { ethers } from "ethers";
+import { findEvent } from "./receipts";
+
+export type QueryKind = "above" | "below" | "between";
+
+// Mirrors AIDiscoveryFHE.QueryKind.
+export const QUERY_KINDS: Record<QueryKind, number> = { above: 0, below: 1, between: 2 };
+
+const KIND_NAMES = Object.keys(QUERY_KINDS) as QueryKind[];
+
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Encrypts contract inputs. The relayer-sdk instance and the hardhat
+ * plugin's `fhevm` runtime both fit, so this module does not load either.
+ */
+export interface InputEncryptor {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string
+  ): {
+    add32(value: number | bigint): unknown;
+    encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  };
+}
+
+/** Counts the points of a closed batch above `lower`, below `upper` or within [lower, upper]. */
+export interface ThresholdQuery {
+  batchId: number;
+  kind: QueryKind;
+  lower: number;
+  upper: number;
+  // Encrypted thresholds are never revealed on-chain; only the count is decrypted.
+  encrypted: boolean;
+}
+
+export interface QueryRequest {
+  requestId: bigint;
+  batchId: number;
+  kind: QueryKind;
+  // Null when the thresholds were encrypted.
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface QueryResult extends QueryRequest {
+  count: number;
+}
+
+export interface WaitOptions {
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+export const DEFAULT_QUERY_POLL_MS = 4_000;
+export const DEFAULT_QUERY_TIMEOUT_MS = 10 * 60_000;
+
+export interface ThresholdQueryBuilder {
+  /** Counts points strictly greater than `threshold`. */
+  above(threshold: number): ThresholdQueryBuilder;
+  /** Counts points strictly less than `threshold`. */
+  below(threshold: number): ThresholdQueryBuilder;
+  /** Counts points from `lower` to `upper`, both included. */
+  between(lower: number, upper: number): ThresholdQueryBuilder;
+  /** Sends the thresholds encrypted with `encryptor` instead of in the clear. */
+  encrypted(encryptor: InputEncryptor): ThresholdQueryBuilder;
+  build(): ThresholdQuery;
+  /** Sends the query; the count arrives once the decryption oracle answers. */
+  submit(contract: ethers.Contract): Promise<QueryRequest>;
+  /** Sends the query and waits for its count. */
+  run(contract: ethers.Contract, options?: WaitOptions): Promise<QueryResult>;
+}
+
+function validateThreshold(value: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`Threshold ${value} is not a uint32 integer`);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** The account whose transactions `contract` sends; encrypted inputs are bound to it. */
+export async function signerAddressOf(contract: ethers.Contract): Promise<string> {
+  const runner = contract.runner as ethers.Signer | null;
+  if (!runner || typeof runner.getAddress !== "function") {
+    throw new Error("AIDiscoveryFHE contract is not connected to a signer");
+  }
+  return runner.getAddress();
+}
+
+const toRequest = (
+  requestId: bigint,
+  batchId: bigint,
+  kind: bigint,
+  encryptedThresholds: boolean,
+  lower: bigint,
+  upper: bigint
+): QueryRequest => ({
+  requestId,
+  batchId: Number(batchId),
+  kind: KIND_NAMES[Number(kind)],
+  lower: encryptedThresholds ? null : Number(lower),
+  upper: encryptedThresholds ? null : Number(upper),
+});
+
+async function sendQuery(
+  contract: ethers.Contract,
+  query: ThresholdQuery,
+  encryptor?: InputEncryptor
+): Promise<QueryRequest> {
+  const kind = QUERY_KINDS[query.kind];
+  let tx: ethers.ContractTransactionResponse;
+  if (encryptor) {
+    const input = encryptor.createEncryptedInput(await contract.getAddress(), await signerAddressOf(contract));
+    input.add32(query.lower);
+    input.add32(query.upper);
+    const { handles, inputProof } = await input.encrypt();
+    tx = await contract.requestEncryptedThresholdQuery(query.batchId, kind, handles[0], handles[1], inputProof);
+  } else {
+    tx = await contract.requestThresholdQuery(query.batchId, kind, query.lower, query.upper);
+  }
+  const { args } = findEvent(contract, await tx.wait(), "QueryRequested");
+  return toRequest(args.requestId, args.batchId, args.kind, args.encryptedThresholds, args.lower, args.upper);
+}
+
+/** Starts a threshold query over a closed batch, e.g. `queryBatch(3).between(10, 20).run(contract)`. */
+export function queryBatch(batchId: number): ThresholdQueryBuilder {
+  let query: Omit<ThresholdQuery, "encrypted"> | undefined;
+  let encryptor: InputEncryptor | undefined;
+
+  const builder: ThresholdQueryBuilder = {
+    above(threshold) {
+      validateThreshold(threshold);
+      query = { batchId, kind: "above", lower: threshold, upper: 0 };
+      return builder;
+    },
+    below(threshold) {
+      validateThreshold(threshold);
+      query = { batchId, kind: "below", lower: 0, upper: threshold };
+      return builder;
+    },
+    between(lower, upper) {
+      validateThreshold(lower);
+      validateThreshold(upper);
+      if (lower > upper) throw new Error(`Range ${lower}..${upper} is inverted`);
+      query = { batchId, kind: "between", lower, upper };
+      return builder;
+    },
+    encrypted(value) {
+      encryptor = value;
+      return builder;
+    },
+    build() {
+      if (!query) throw new Error("Choose above, below or between before running the query");
+      return { ...query, encrypted: encryptor !== undefined };
+    },
+    submit: contract => sendQuery(contract, builder.build(), encryptor),
+    async run(contract, options) {
+      return waitForQueryResult(contract, await builder.submit(contract), options);
+    },
+  };
+  return builder;
+}
+
+async function findQueryResult(contract: ethers.Contract, request: QueryRequest): Promise<QueryResult | undefined> {
+  const [log] = await contract.queryFilter(contract.filters.QueryCompleted(request.requestId));
+  return log ? { ...request, count: Number((log as ethers.EventLog).args.count) } : undefined;
+}
+
+/** Calls `find` until it returns a result, e.g. once the decryption oracle answered `description`. */
+export async function pollFor<T>(
+  find: () => Promise<T | undefined>,
+  description: string,
+  { pollIntervalMs = DEFAULT_QUERY_POLL_MS, timeoutMs = DEFAULT_QUERY_TIMEOUT_MS }: WaitOptions = {}
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await find();
+    if (result !== undefined) return result;
+    if (Date.now() >= deadline) {
+      throw new Error(`${description} was not answered within ${Math.round(timeoutMs / 1000)}s`);
+    }
+    await sleep(pollIntervalMs);
+  }
+}
+
+/** Polls for the QueryCompleted event of `request`. */
+export const waitForQueryResult = (
+  contract: ethers.Contract,
+  request: QueryRequest,
+  options?: WaitOptions
+): Promise<QueryResult> => pollFor(() => findQueryResult(contract, request), `Query ${request.requestId}`, options);
+
+/** Every answered query, oldest first. */
+export async function getQueryResults(contract: ethers.Contract): Promise<QueryResult[]> {
+  const requests = new Map<bigint, QueryRequest>();
+  for (const log of await contract.queryFilter(contract.filters.QueryRequested())) {
+    const { requestId, batchId, kind, encryptedThresholds, lower, upper } = (log as ethers.EventLog).args;
+    requests.set(requestId, toRequest(requestId, batchId, kind, encryptedThresholds, lower, upper));
+  }
+  const logs = await contract.queryFilter(contract.filters.QueryCompleted());
+  return logs.flatMap(log => {
+    const { requestId, count } = (log as ethers.EventLog).args;
+    const request = requests.get(requestId);
+    return request ? [{ ...request, count: Number(count) }] : [];
+  });
+}
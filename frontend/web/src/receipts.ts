@@ -0,0 +1,11 @@
+// receipts.ts
+import { ethers } from "ethers";
+
+/** Returns the first `name` event emitted by `contract` in the receipt. */
+export function findEvent(contract: ethers.Contract, receipt: ethers.TransactionReceipt | null, name: string) {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === name) return parsed;
+  }
+  throw new Error(`${name} event not found in transaction receipt`);
+}
@@ -0,0 +1,171 @@
+// registry.ts
+import { ethers } from "ethers";
+import { CONTRACT_ABIS } from "./deployments";
+import { MulticallClient, readWith } from "./multicall";
+import { findEvent } from "./receipts";
+
+export const REGISTRY_ABI = CONTRACT_ABIS.DiscoveryRegistry;
+
+// Must not exceed DiscoveryRegistry.MAX_PAGE_SIZE.
+export const DEFAULT_PAGE_SIZE = 50;
+
+export type DiscoveryStatus = "pending" | "verified" | "rejected";
+
+// Mirrors DiscoveryRegistry.Status.
+export const DISCOVERY_STATUSES: DiscoveryStatus[] = ["pending", "verified", "rejected"];
+
+export interface RegisteredDiscovery {
+  id: number;
+  owner: string;
+  timestamp: number;
+  status: DiscoveryStatus;
+  category: string;
+  // Ciphertext handle of the scientific value, user-decryptable by the owner.
+  encryptedValue: string;
+  hypothesisHash: string;
+  // Empty when the DiscoverySubmitted event could not be found or does not match the hash.
+  hypothesis: string;
+}
+
+export interface DiscoverySubmission {
+  category: string;
+  hypothesis: string;
+  // Encrypted input bound to the registry address and the submitter.
+  handle: string;
+  inputProof: string;
+}
+
+/** What an account may do in the registry. */
+export interface ReviewerRole {
+  isOwner: boolean;
+  // Reviews every category.
+  isReviewer: boolean;
+  // Categories the account reviews through a per-category appointment.
+  categories: string[];
+}
+
+export function getRegistryContract(address: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(address, REGISTRY_ABI, runner);
+}
+
+const toStatus = (status: bigint): DiscoveryStatus => DISCOVERY_STATUSES[Number(status)] ?? "pending";
+
+// Without `ids`, reads the hypotheses of every discovery.
+async function getHypotheses(contract: ethers.Contract, ids?: number[]): Promise<Map<number, string>> {
+  const hypotheses = new Map<number, string>();
+  if (ids?.length === 0) return hypotheses;
+  for (const log of await contract.queryFilter(contract.filters.DiscoverySubmitted(ids ?? null))) {
+    const { id, hypothesisHash, hypothesis } = (log as ethers.EventLog).args;
+    if (ethers.id(hypothesis) === hypothesisHash) hypotheses.set(Number(id), hypothesis);
+  }
+  return hypotheses;
+}
+
+const toDiscoveries = (ids: bigint[], page: any[], hypotheses: Map<number, string>): RegisteredDiscovery[] =>
+  page.map((discovery, i) => {
+    const id = Number(ids[i]);
+    return {
+      id,
+      owner: discovery.owner,
+      timestamp: Number(discovery.timestamp),
+      status: toStatus(discovery.status),
+      category: discovery.category,
+      encryptedValue: discovery.value,
+      hypothesisHash: discovery.hypothesisHash,
+      hypothesis: hypotheses.get(id) ?? "",
+    };
+  });
+
+/** Reads one page of discoveries, oldest first. */
+export async function getDiscoveryPage(
+  contract: ethers.Contract,
+  offset: number,
+  limit = DEFAULT_PAGE_SIZE
+): Promise<RegisteredDiscovery[]> {
+  const [ids, page] = await contract.getDiscoveries(offset, limit);
+  return toDiscoveries(ids, page, await getHypotheses(contract, ids.map((id: bigint) => Number(id))));
+}
+
+/**
+ * Reads every registered discovery, newest first. With a multicall `client`
+ * all pages are fetched in one request and the hypotheses in one log query.
+ */
+export async function listDiscoveries(
+  contract: ethers.Contract,
+  pageSize = DEFAULT_PAGE_SIZE,
+  client?: MulticallClient
+): Promise<RegisteredDiscovery[]> {
+  const count = Number(await contract.discoveryCount());
+  const offsets: number[] = [];
+  for (let offset = 0; offset < count; offset += pageSize) offsets.push(offset);
+
+  if (!client) {
+    return (await Promise.all(offsets.map(offset => getDiscoveryPage(contract, offset, pageSize)))).flat().reverse();
+  }
+  const pages = await client.readAll(offsets.map(offset => ({ contract, method: "getDiscoveries", args: [offset, pageSize] })));
+  const ids: bigint[] = pages.flatMap(([pageIds]) => [...pageIds]);
+  const hypotheses = await getHypotheses(contract);
+  return toDiscoveries(ids, pages.flatMap(([, page]) => [...page]), hypotheses).reverse();
+}
+
+/** Registers a discovery and returns its id. */
+export async function submitDiscovery(contract: ethers.Contract, submission: DiscoverySubmission): Promise<number> {
+  if (!submission.category) throw new Error("A discovery needs a category");
+  if (!submission.hypothesis) throw new Error("A discovery needs a hypothesis");
+  const tx = await contract.submitDiscovery(
+    submission.category,
+    submission.handle,
+    submission.inputProof,
+    submission.hypothesis
+  );
+  const event = findEvent(contract, await tx.wait(), "DiscoverySubmitted");
+  return Number(event.args.id);
+}
+
+/** Marks a pending discovery as verified or rejected. Only a reviewer of its category can do so. */
+export async function setDiscoveryStatus(
+  contract: ethers.Contract,
+  id: number,
+  status: Exclude<DiscoveryStatus, "pending">
+): Promise<void> {
+  const tx = await contract.setStatus(id, DISCOVERY_STATUSES.indexOf(status));
+  await tx.wait();
+}
+
+/** Resolves the reviewer role of `account` for the given categories, in one request with a multicall `client`. */
+export async function getReviewerRole(
+  contract: ethers.Contract,
+  account: string,
+  categories: string[],
+  client?: MulticallClient
+): Promise<ReviewerRole> {
+  const [owner, isReviewer, categoryFlags] = await Promise.all([
+    readWith<string>(client, contract, "owner"),
+    readWith<boolean>(client, contract, "isReviewer", account),
+    Promise.all(categories.map(category => readWith<boolean>(client, contract, "isCategoryReviewer", category, account))),
+  ]);
+  return {
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isReviewer,
+    categories: categories.filter((_, i) => categoryFlags[i]),
+  };
+}
+
+/** Mirrors DiscoveryRegistry.canReview for a discovery that is still pending. */
+export const canReview = (role: ReviewerRole, account: string, discovery: RegisteredDiscovery): boolean =>
+  discovery.status === "pending" &&
+  discovery.owner.toLowerCase() !== account.toLowerCase() &&
+  (role.isReviewer || role.categories.includes(discovery.category));
+
+/** Appoints a reviewer for `category`, or for every category when it is omitted. Owner only. */
+export async function addReviewer(contract: ethers.Contract, reviewer: string, category?: string): Promise<void> {
+  const tx = category ? await contract.addCategoryReviewer(category, reviewer) : await contract.addReviewer(reviewer);
+  await tx.wait();
+}
+
+export async function removeReviewer(contract: ethers.Contract, reviewer: string, category?: string): Promise<void> {
+  const tx = category
+    ? await contract.removeCategoryReviewer(category, reviewer)
+    : await contract.removeReviewer(reviewer);
+  await tx.wait();
+}
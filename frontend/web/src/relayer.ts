@@ -0,0 +1,32 @@
+// relayer.ts
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { network } from "./contract";
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// The SDK pulls in the TFHE wasm, so it is loaded on first use only.
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!(window as any).ethereum) {
+        throw new Error("No injected wallet");
+      }
+      if (!network.relayerUrl) {
+        throw new Error(`${network.name} has no FHEVM relayer configured`);
+      }
+      const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+      await initSDK();
+      return createInstance({
+        ...SepoliaConfig,
+        ...network.fhevm,
+        chainId: network.chainId,
+        relayerUrl: network.relayerUrl,
+        network: (window as any).ethereum,
+      });
+    })().catch(e => {
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
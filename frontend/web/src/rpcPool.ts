@@ -0,0 +1,211 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+
+export const DEFAULT_RPC_TIMEOUT_MS = 10000;
+export const DEFAULT_FAILURE_THRESHOLD = 2;
+export const DEFAULT_COOLDOWN_MS = 30000;
+
+// Weight of the newest sample in the latency and error-rate averages.
+const SMOOTHING = 0.3;
+const STATS_VERSION = 1;
+
+// Structurally compatible with window.localStorage / sessionStorage.
+export interface RpcPoolStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface RpcPoolOptions {
+  // Per-request timeout before failing over to the next endpoint.
+  timeoutMs?: number;
+  // Consecutive failures after which an endpoint is benched.
+  failureThreshold?: number;
+  // How long a benched endpoint is skipped.
+  cooldownMs?: number;
+  // Persists endpoint health so a reload starts on the endpoint that worked last time.
+  storage?: RpcPoolStorage;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  healthy: boolean;
+  // Smoothed round trip of successful requests, undefined until one succeeded.
+  latencyMs?: number;
+  // Smoothed share of failed requests, between 0 and 1.
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+}
+
+export interface RpcPoolStatus {
+  // Endpoint the next request goes to first.
+  active: string;
+  endpoints: RpcEndpointStatus[];
+}
+
+interface Endpoint {
+  url: string;
+  latencyMs?: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  benchedUntil: number;
+  lastError?: string;
+}
+
+type JsonRpcResponse = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+// Ranking, in milliseconds: an endpoint that was never measured counts as fairly slow, and a
+// failure costs far more than any plausible latency so one error is enough to rotate away.
+const UNMEASURED_LATENCY_MS = 500;
+const ERROR_PENALTY_MS = 5000;
+
+// Lower is better. Ties keep the configuration order.
+const score = (endpoint: Endpoint) =>
+  (endpoint.latencyMs ?? UNMEASURED_LATENCY_MS) + endpoint.errorRate * ERROR_PENALTY_MS;
+
+/**
+ * A JSON-RPC provider over several endpoints of one chain. Every request goes
+ * to the healthiest endpoint first and fails over to the others on network
+ * errors, timeouts and HTTP errors; an endpoint that keeps failing is benched
+ * for `cooldownMs`. JSON-RPC errors such as reverts are answers, not failures.
+ */
+export class RpcPool extends ethers.JsonRpcApiProvider {
+  private readonly endpoints: Endpoint[];
+  private readonly statusListeners = new Set<(status: RpcPoolStatus) => void>();
+  private readonly timeoutMs: number;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly storage?: RpcPoolStorage;
+  private readonly storageKey: string;
+
+  constructor(urls: string[], network: ethers.Networkish, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) throw new Error("An RPC pool needs at least one URL");
+    const staticNetwork = ethers.Network.from(network);
+    super(staticNetwork, { staticNetwork });
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.storage = options.storage;
+    this.storageKey = `discovery.rpc:${staticNetwork.chainId}`;
+    this.endpoints = urls.map(url => ({ url, errorRate: 0, requests: 0, failures: 0, consecutiveFailures: 0, benchedUntil: 0 }));
+    this.restore();
+  }
+
+  /** Endpoints in the order the next request tries them. Benched ones come last, soonest back first. */
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter(e => e.benchedUntil <= now).sort((a, b) => score(a) - score(b));
+    const benched = this.endpoints.filter(e => e.benchedUntil > now).sort((a, b) => a.benchedUntil - b.benchedUntil);
+    return [...available, ...benched];
+  }
+
+  private record(endpoint: Endpoint, outcome: { latencyMs: number } | { error: Error }) {
+    endpoint.requests++;
+    endpoint.errorRate = (1 - SMOOTHING) * endpoint.errorRate + SMOOTHING * ("error" in outcome ? 1 : 0);
+    if ("error" in outcome) {
+      endpoint.failures++;
+      endpoint.consecutiveFailures++;
+      endpoint.lastError = outcome.error.message;
+      if (endpoint.consecutiveFailures >= this.failureThreshold) endpoint.benchedUntil = Date.now() + this.cooldownMs;
+    } else {
+      const { latencyMs } = outcome;
+      endpoint.latencyMs =
+        endpoint.latencyMs === undefined ? latencyMs : (1 - SMOOTHING) * endpoint.latencyMs + SMOOTHING * latencyMs;
+      endpoint.consecutiveFailures = 0;
+      endpoint.benchedUntil = 0;
+    }
+    this.persist();
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private async post(endpoint: Endpoint, body: string): Promise<JsonRpcResponse | JsonRpcResponse[]> {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.body = body;
+    request.setHeader("content-type", "application/json");
+    request.timeout = this.timeoutMs;
+    // Failing over is the retry; do not let FetchRequest wait out 429s on one endpoint.
+    request.setThrottleParams({ maxAttempts: 1 });
+    const started = Date.now();
+    try {
+      const response = await request.send();
+      response.assertOk();
+      const result = response.bodyJson as JsonRpcResponse | JsonRpcResponse[];
+      this.record(endpoint, { latencyMs: Date.now() - started });
+      return result;
+    } catch (e) {
+      this.record(endpoint, { error: e as Error });
+      throw e;
+    }
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<JsonRpcResponse[]> {
+    const body = JSON.stringify(payload);
+    let lastError: Error | undefined;
+    for (const endpoint of this.ranked()) {
+      try {
+        const result = await this.post(endpoint, body);
+        return Array.isArray(result) ? result : [result];
+      } catch (e) {
+        lastError = e as Error;
+      }
+    }
+    throw new Error(`All RPC endpoints failed: ${lastError?.message}`);
+  }
+
+  /** Measures every endpoint with eth_blockNumber, e.g. on startup to find the fastest one. */
+  async probe(): Promise<RpcPoolStatus> {
+    const body = JSON.stringify({ method: "eth_blockNumber", params: [], id: 0, jsonrpc: "2.0" });
+    await Promise.all(this.endpoints.map(endpoint => this.post(endpoint, body).catch(() => undefined)));
+    return this.getStatus();
+  }
+
+  getStatus(): RpcPoolStatus {
+    const now = Date.now();
+    return {
+      active: this.ranked()[0].url,
+      endpoints: this.endpoints.map(e => ({
+        url: e.url,
+        healthy: e.benchedUntil <= now,
+        latencyMs: e.latencyMs === undefined ? undefined : Math.round(e.latencyMs),
+        errorRate: e.errorRate,
+        requests: e.requests,
+        failures: e.failures,
+        lastError: e.lastError,
+      })),
+    };
+  }
+
+  /** Calls `listener` after every request with the new status. Returns an unsubscribe function. */
+  onStatusChange(listener: (status: RpcPoolStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  private persist() {
+    if (!this.storage) return;
+    const stats = Object.fromEntries(this.endpoints.map(e => [e.url, { latencyMs: e.latencyMs, errorRate: e.errorRate }]));
+    this.storage.setItem(this.storageKey, JSON.stringify({ version: STATS_VERSION, stats }));
+  }
+
+  // Only the ranking inputs are restored; benches and counters start fresh.
+  private restore() {
+    const raw = this.storage?.getItem(this.storageKey);
+    if (!raw) return;
+    try {
+      const { version, stats } = JSON.parse(raw);
+      if (version !== STATS_VERSION) return;
+      for (const endpoint of this.endpoints) {
+        const saved = stats[endpoint.url];
+        if (!saved) continue;
+        endpoint.latencyMs = saved.latencyMs;
+        endpoint.errorRate = saved.errorRate ?? 0;
+      }
+    } catch (e) {
+      console.error("Error parsing RPC pool stats:", e);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+// statistics.ts
+import { ethers } from "ethers";
+import { LogRange, queryLogs } from "./logs";
+import { scaledToNumber } from "./precision";
+import { findEvent } from "./receipts";
+
+export type StatisticName = "mean" | "variance" | "min" | "max" | "histogram";
+
+// Mirrors the STAT_* flags of AIDiscoveryFHE. The order is the order of the
+// decrypted values in the cleartext payload.
+export const STATISTIC_FLAGS: Record<StatisticName, number> = {
+  mean: 1 << 0,
+  variance: 1 << 1,
+  min: 1 << 2,
+  max: 1 << 3,
+  histogram: 1 << 4,
+};
+
+export const MAX_HISTOGRAM_BOUNDS = 15;
+
+// The variance is decrypted multiplied by this factor; the mean by the scale of its batch.
+export const STATISTICS_SCALE = 1000;
+
+export interface HistogramBucket {
+  // Inclusive lower bound, null for the first bucket.
+  from: number | null;
+  // Exclusive upper bound, null for the last bucket.
+  to: number | null;
+  count: number;
+}
+
+export interface BatchStatistics {
+  mean?: number;
+  // Set with the mean; when true its accumulator wrapped around and `mean` is meaningless.
+  overflowed?: boolean;
+  variance?: number;
+  min?: bigint;
+  max?: bigint;
+  histogram?: HistogramBucket[];
+}
+
+export interface StatisticsRequest {
+  requestId: bigint;
+  batchId: number;
+  statsMask: number;
+  bucketBounds: number[];
+}
+
+export interface StatisticsResult extends StatisticsRequest {
+  // Scale of the batch the mean was decrypted with.
+  scale: bigint;
+  statistics: BatchStatistics;
+}
+
+const SCALAR_STATISTICS: Exclude<StatisticName, "histogram">[] = ["mean", "variance", "min", "max"];
+
+export const toStatsMask = (statistics: StatisticName[]): number =>
+  statistics.reduce((mask, name) => mask | STATISTIC_FLAGS[name], 0);
+
+export const fromStatsMask = (statsMask: number): StatisticName[] =>
+  (Object.keys(STATISTIC_FLAGS) as StatisticName[]).filter(name => (statsMask & STATISTIC_FLAGS[name]) !== 0);
+
+export function validateBucketBounds(bucketBounds: number[]): void {
+  if (bucketBounds.length === 0 || bucketBounds.length > MAX_HISTOGRAM_BOUNDS) {
+    throw new Error(`A histogram needs between 1 and ${MAX_HISTOGRAM_BOUNDS} bucket bounds`);
+  }
+  bucketBounds.forEach((bound, i) => {
+    if (!Number.isInteger(bound) || bound < 0 || bound > 0xffffffff) {
+      throw new Error(`Bucket bound ${bound} is not a uint32 integer`);
+    }
+    if (i > 0 && bound <= bucketBounds[i - 1]) {
+      throw new Error("Bucket bounds must be strictly ascending");
+    }
+  });
+}
+
+/**
+ * Decodes the cleartext payload of a StatisticsCompleted event. The payload
+ * holds one uint256 per selected statistic, followed by
+ * `bucketBounds.length + 1` histogram counts and, when the mean is selected,
+ * its overflow flag. `scale` is the scale the event reports for the mean.
+ */
+export function decodeStatistics(
+  statsMask: number,
+  bucketBounds: number[],
+  cleartexts: ethers.BytesLike,
+  scale: bigint
+): BatchStatistics {
+  const selected = SCALAR_STATISTICS.filter(name => (statsMask & STATISTIC_FLAGS[name]) !== 0);
+  const hasHistogram = (statsMask & STATISTIC_FLAGS.histogram) !== 0;
+  const hasMean = selected.includes("mean");
+  const counts = hasHistogram ? bucketBounds.length + 1 : 0;
+  const expected = selected.length + counts + (hasMean ? 1 : 0);
+
+  const data = ethers.getBytes(cleartexts);
+  if (data.length !== expected * 32) {
+    throw new Error(`Expected ${expected} decrypted statistics, got ${data.length / 32}`);
+  }
+  const values = ethers.AbiCoder.defaultAbiCoder().decode(Array(expected).fill("uint256"), data) as unknown as bigint[];
+
+  const statistics: BatchStatistics = {};
+  selected.forEach((name, i) => {
+    const value = values[i];
+    if (name === "mean") statistics.mean = scaledToNumber(value, scale);
+    else if (name === "variance") statistics.variance = Number(value) / STATISTICS_SCALE;
+    else statistics[name] = value;
+  });
+  if (hasMean) statistics.overflowed = values[expected - 1] !== 0n;
+  if (hasHistogram) {
+    statistics.histogram = values.slice(selected.length, selected.length + counts).map((count, i) => ({
+      from: i === 0 ? null : bucketBounds[i - 1],
+      to: i === bucketBounds.length ? null : bucketBounds[i],
+      count: Number(count),
+    }));
+  }
+  return statistics;
+}
+
+const toRequest = (requestId: bigint, batchId: bigint, statsMask: bigint, bucketBounds: bigint[]): StatisticsRequest => ({
+  requestId,
+  batchId: Number(batchId),
+  statsMask: Number(statsMask),
+  bucketBounds: bucketBounds.map(bound => Number(bound)),
+});
+
+/** Requests decryption of the selected statistics of a closed batch. */
+export async function requestStatistics(
+  contract: ethers.Contract,
+  batchId: number,
+  statistics: StatisticName[],
+  bucketBounds: number[] = []
+): Promise<StatisticsRequest> {
+  const statsMask = toStatsMask(statistics);
+  if (statsMask === 0) throw new Error("Select at least one statistic");
+  const bounds = statistics.includes("histogram") ? bucketBounds : [];
+  if (statistics.includes("histogram")) validateBucketBounds(bounds);
+
+  const tx = await contract.requestStatistics(batchId, statsMask, bounds);
+  const event = findEvent(contract, await tx.wait(), "StatisticsRequested");
+  return toRequest(event.args.requestId, event.args.batchId, event.args.statsMask, event.args.bucketBounds);
+}
+
+const toResult = (request: StatisticsRequest, scale: bigint, cleartexts: string): StatisticsResult => ({
+  ...request,
+  scale,
+  statistics: decodeStatistics(request.statsMask, request.bucketBounds, cleartexts, scale),
+});
+
+async function getStatisticsRequests(
+  contract: ethers.Contract,
+  range: LogRange,
+  requestId?: bigint
+): Promise<Map<bigint, StatisticsRequest>> {
+  const requests = new Map<bigint, StatisticsRequest>();
+  for (const log of await queryLogs(contract, contract.filters.StatisticsRequested(requestId), range)) {
+    const { requestId, batchId, statsMask, bucketBounds } = log.args;
+    requests.set(requestId, toRequest(requestId, batchId, statsMask, bucketBounds));
+  }
+  return requests;
+}
+
+/** Statistics decrypted in `range`, which should start at the deployment block. */
+export async function getStatisticsResults(contract: ethers.Contract, range: LogRange = {}): Promise<StatisticsResult[]> {
+  const requests = await getStatisticsRequests(contract, range);
+  const logs = await queryLogs(contract, contract.filters.StatisticsCompleted(), range);
+  return logs.flatMap(log => {
+    const { requestId, scale, cleartexts } = log.args;
+    const request = requests.get(requestId);
+    if (!request) return [];
+    return [toResult(request, scale, cleartexts)];
+  });
+}
+
+/**
+ * Calls `listener` for every StatisticsCompleted event. Returns an unsubscribe function.
+ * The request of each result is looked up in `range`.
+ */
+export function onStatisticsResult(
+  contract: ethers.Contract,
+  listener: (result: StatisticsResult) => void,
+  range: LogRange = {}
+): () => void {
+  const handler = async (requestId: bigint, _batchId: bigint, _statsMask: bigint, scale: bigint, cleartexts: string) => {
+    // The bucket bounds are only known from the request event.
+    const request = (await getStatisticsRequests(contract, range, requestId)).get(requestId);
+    if (!request) return;
+    listener(toResult(request, scale, cleartexts));
+  };
+  contract.on("StatisticsCompleted", handler);
+  return () => { contract.off("StatisticsCompleted", handler); };
+}
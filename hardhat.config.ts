@@ -1,18 +1,38 @@
+import * as dotenv from "dotenv";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+import "./tasks/cleanup";
+import "./tasks/deploy";
+import "./tasks/export";
+import "./tasks/keeper";
+import "./tasks/submit";
+
+dotenv.config({ quiet: true });
+
+// Deployer accounts come from .env; without them the network stays read-only.
+const accounts = process.env.DEPLOYER_PRIVATE_KEY
+  ? [process.env.DEPLOYER_PRIVATE_KEY]
+  : process.env.MNEMONIC
+    ? { mnemonic: process.env.MNEMONIC }
+    : [];
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  // tasks/deploy.ts swaps in the keystore or DEPLOYER_PRIVATE_KEY account when one is set.
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts,
     },
   },
   solidity: {
@@ -41,7 +61,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY ?? "",
     },
   },
   gasReporter: {
@@ -1,3 +0,0 @@
-import { ethers } from 'ethers';
-
-export const useroutes-dist-types = () => { return {}; };
@@ -0,0 +1,74 @@
+// src/deployer.ts
+import fs from "fs";
+import readline from "readline";
+import { Provider, Signer, Wallet } from "ethers";
+
+export type DeployerSource = "keystore" | "env" | "hardhat";
+
+export interface Deployer {
+  signer: Signer;
+  address: string;
+  source: DeployerSource;
+}
+
+export interface DeployerOptions {
+  env?: NodeJS.ProcessEnv;
+  // The accounts of the selected hardhat network, from `accounts` in hardhat.config.ts.
+  hardhatSigners?: () => Promise<Signer[]>;
+  // Asks for the keystore password when DEPLOYER_KEYSTORE_PASSWORD is not set or empty.
+  askPassword?: (prompt: string) => Promise<string>;
+}
+
+/** Reads a line from the terminal without echoing it. */
+export async function askHidden(prompt: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  let prompted = false;
+  output._writeToOutput = (text) => {
+    if (!prompted) process.stdout.write(text);
+    prompted = true;
+  };
+  return new Promise<string>((resolve) =>
+    rl.question(prompt, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer.trim());
+    }),
+  );
+}
+
+/**
+ * Resolves the account that deploys, trying in order:
+ * 1. DEPLOYER_KEYSTORE, an encrypted JSON keystore unlocked with DEPLOYER_KEYSTORE_PASSWORD or a prompt;
+ * 2. DEPLOYER_PRIVATE_KEY;
+ * 3. the first account of the hardhat network.
+ */
+export async function loadDeployer(provider: Provider, options: DeployerOptions = {}): Promise<Deployer> {
+  const env = options.env ?? process.env;
+
+  if (env.DEPLOYER_KEYSTORE) {
+    if (!fs.existsSync(env.DEPLOYER_KEYSTORE)) throw new Error(`Keystore not found: ${env.DEPLOYER_KEYSTORE}`);
+    const json = fs.readFileSync(env.DEPLOYER_KEYSTORE, "utf-8");
+    const password =
+      env.DEPLOYER_KEYSTORE_PASSWORD || (await (options.askPassword ?? askHidden)("Keystore password: "));
+    const wallet = (await Wallet.fromEncryptedJson(json, password)).connect(provider);
+    return { signer: wallet, address: wallet.address, source: "keystore" };
+  }
+
+  if (env.DEPLOYER_PRIVATE_KEY) {
+    const wallet = new Wallet(env.DEPLOYER_PRIVATE_KEY, provider);
+    return { signer: wallet, address: wallet.address, source: "env" };
+  }
+
+  const [signer] = (await options.hardhatSigners?.()) ?? [];
+  if (signer) return { signer, address: await signer.getAddress(), source: "hardhat" };
+
+  throw new Error(
+    "No deployer account: set DEPLOYER_KEYSTORE or DEPLOYER_PRIVATE_KEY in .env, or configure `accounts` for this network",
+  );
+}
+
+/** The hardhat-deploy `namedAccounts` entry that signs with `deployer`, unless it is one of the network's accounts. */
+export function namedAccountFor(deployer: Deployer): string | undefined {
+  return deployer.signer instanceof Wallet ? `privatekey://${deployer.signer.privateKey}` : undefined;
+}
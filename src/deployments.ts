@@ -0,0 +1,82 @@
+// src/deployments.ts
+import fs from "fs";
+import path from "path";
+import { keccak256 } from "ethers";
+import type { Deployment } from "hardhat-deploy/types";
+import type { Artifact, HardhatRuntimeEnvironment } from "hardhat/types";
+
+/** Where hardhat-deploy saves the deployments of every live network, one folder per network. */
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/** The contracts deployed by the scripts in deploy/; each script is tagged with its contract name. */
+export const DEPLOYED_CONTRACTS = ["UniversalAdapter", "AIDiscoveryFHE", "DiscoveryRegistry"] as const;
+
+export type DeployedContract = (typeof DEPLOYED_CONTRACTS)[number];
+
+// UniversalAdapter's source is not part of contracts/, so it is deployed from a prebuilt artifact.
+export const UNIVERSAL_ADAPTER_ARTIFACT = path.join(__dirname, "..", "prebuilt", "UniversalAdapter.json");
+
+/** The artifact a deploy script deploys `contractName` from. */
+export async function readContractArtifact(hre: HardhatRuntimeEnvironment, contractName: string): Promise<Artifact> {
+  return contractName === "UniversalAdapter"
+    ? JSON.parse(fs.readFileSync(UNIVERSAL_ADAPTER_ARTIFACT, "utf-8"))
+    : hre.artifacts.readArtifact(contractName);
+}
+
+/** The parts of a hardhat-deploy deployment that identify what is live on a network. */
+export interface DeploymentRecord {
+  contractName: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  chainId: number;
+  deployer: string;
+  // Constructor arguments; bigints are stored as decimal strings.
+  args: unknown[];
+  // keccak256 of the artifact's runtime bytecode, to compare with a fresh compilation.
+  bytecodeHash: string;
+}
+
+export function toDeploymentRecord(contractName: string, deployment: Deployment, chainId: number): DeploymentRecord {
+  const { receipt, deployedBytecode } = deployment;
+  if (!receipt) throw new Error(`${contractName} deployment has no receipt`);
+  if (!deployedBytecode) throw new Error(`${contractName} deployment has no bytecode`);
+  return {
+    contractName,
+    address: deployment.address,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    chainId,
+    deployer: receipt.from,
+    args: deployment.args ?? [],
+    bytecodeHash: keccak256(deployedBytecode),
+  };
+}
+
+function readChainId(networkDir: string): number {
+  const file = path.join(networkDir, ".chainId");
+  return fs.existsSync(file) ? Number(fs.readFileSync(file, "utf-8").trim()) : NaN;
+}
+
+export function readDeployment(
+  network: string,
+  contractName: string,
+  dir = DEPLOYMENTS_DIR,
+): DeploymentRecord | undefined {
+  const networkDir = path.join(dir, network);
+  const file = path.join(networkDir, `${contractName}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  return toDeploymentRecord(contractName, JSON.parse(fs.readFileSync(file, "utf-8")), readChainId(networkDir));
+}
+
+/** Every contract hardhat-deploy saved for `network`, keyed by contract name. */
+export function readDeployments(network: string, dir = DEPLOYMENTS_DIR): Record<string, DeploymentRecord> {
+  const networkDir = path.join(dir, network);
+  if (!fs.existsSync(networkDir)) return {};
+  const records: Record<string, DeploymentRecord> = {};
+  for (const file of fs.readdirSync(networkDir).filter((f) => f.endsWith(".json") && !f.startsWith("."))) {
+    const contractName = path.basename(file, ".json");
+    records[contractName] = readDeployment(network, contractName, dir)!;
+  }
+  return records;
+}
@@ -0,0 +1,57 @@
+// src/discoveryConfig.ts
+import fs from "fs";
+import path from "path";
+import { isAddress } from "ethers";
+
+export const DISCOVERY_CONFIG_PATH = path.join(__dirname, "..", "discovery.config.json");
+
+/** What the deploy scripts configure on the contracts once they are deployed. */
+export interface DiscoveryDeployConfig {
+  providers: string[];
+  cooldownSeconds: number;
+  // Points and distinct providers an AIDiscoveryFHE batch needs before its results are decrypted.
+  minBatchPoints: number;
+  minBatchProviders: number;
+  // DiscoveryRegistry reviewers of every category, and per category.
+  reviewers: string[];
+  categoryReviewers: Record<string, string[]>;
+}
+
+export function loadDiscoveryConfig(configPath = DISCOVERY_CONFIG_PATH): DiscoveryDeployConfig {
+  if (!fs.existsSync(configPath)) {
+    console.warn("discovery.config.json not found, deploying without providers or reviewers");
+    return {
+      providers: [],
+      cooldownSeconds: 0,
+      minBatchPoints: 1,
+      minBatchProviders: 1,
+      reviewers: [],
+      categoryReviewers: {},
+    };
+  }
+
+  const raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  const providers: string[] = raw.providers ?? [];
+  for (const provider of providers) {
+    if (!isAddress(provider)) throw new Error(`Invalid provider address in discovery.config.json: ${provider}`);
+  }
+  const cooldownSeconds = Number(raw.cooldownSeconds ?? 0);
+  if (!Number.isInteger(cooldownSeconds) || cooldownSeconds < 0) {
+    throw new Error(`Invalid cooldownSeconds in discovery.config.json: ${raw.cooldownSeconds}`);
+  }
+  const minBatchPoints = Number(raw.minBatchPoints ?? 1);
+  const minBatchProviders = Number(raw.minBatchProviders ?? 1);
+  if (!Number.isInteger(minBatchProviders) || minBatchProviders < 1) {
+    throw new Error(`Invalid minBatchProviders in discovery.config.json: ${raw.minBatchProviders}`);
+  }
+  // Every provider contributes at least one point.
+  if (!Number.isInteger(minBatchPoints) || minBatchPoints < minBatchProviders) {
+    throw new Error(`minBatchPoints in discovery.config.json must be an integer of at least minBatchProviders`);
+  }
+  const reviewers: string[] = raw.reviewers ?? [];
+  const categoryReviewers: Record<string, string[]> = raw.categoryReviewers ?? {};
+  for (const reviewer of [...reviewers, ...Object.values(categoryReviewers).flat()]) {
+    if (!isAddress(reviewer)) throw new Error(`Invalid reviewer address in discovery.config.json: ${reviewer}`);
+  }
+  return { providers, cooldownSeconds, minBatchPoints, minBatchProviders, reviewers, categoryReviewers };
+}
@@ -0,0 +1,121 @@
+// tasks/cleanup.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+
+interface CleanupArgs {
+  dryRun: boolean;
+}
+
+export interface CleanupReport {
+  removed: string[];
+  // Listed folders that still hold files nobody generated.
+  kept: string[];
+  // Listed entries that could not be placed in the project, left alone.
+  unanchored: string[];
+}
+
+export interface GeneratedPaths {
+  paths: string[];
+  unanchored: string[];
+}
+
+const CACHE_FILE = ".diffcache";
+
+// The folder the old deploy script generated files into besides the project root.
+const GENERATED_FOLDER = ["frontend", "web", "src"];
+
+const segments = (entry: string) => entry.split(/[\\/]+/).filter(Boolean);
+
+const isAbsolute = (entry: string) => path.win32.isAbsolute(entry) || path.posix.isAbsolute(entry);
+
+const startsWith = (parts: string[], prefix: string[]) => prefix.every((segment, i) => parts[i] === segment);
+
+/**
+ * Maps the paths listed in .diffcache into `projectRoot`. The old deploy script recorded absolute paths,
+ * possibly on another machine or OS. An entry is anchored at the project root it was written under:
+ * whatever preceded `frontend/web/src` in some entry, or else the last folder named like `projectRoot`.
+ * Entries that match neither are returned as unanchored instead of being guessed at.
+ */
+export function resolveGeneratedPaths(entries: string[], projectRoot: string): GeneratedPaths {
+  const root = path.resolve(projectRoot);
+  const name = path.basename(root);
+  const split = entries.map(segments);
+  const roots: string[][] = [];
+  split.forEach((parts, i) => {
+    const at = parts.findIndex((_, j) => startsWith(parts.slice(j), GENERATED_FOLDER));
+    if (at >= 0 && isAbsolute(entries[i])) roots.push(parts.slice(0, at));
+  });
+  // Longest first, so a root nested in another one wins.
+  roots.sort((a, b) => b.length - a.length);
+
+  const result: GeneratedPaths = { paths: [], unanchored: [] };
+  entries.forEach((entry, i) => {
+    const parts = split[i];
+    let relative: string[] | undefined;
+    if (!isAbsolute(entry)) {
+      relative = parts;
+    } else {
+      const prefix = roots.find((r) => r.length < parts.length && startsWith(parts, r));
+      const named = parts.lastIndexOf(name, parts.length - 2);
+      if (prefix) relative = parts.slice(prefix.length);
+      else if (named >= 0) relative = parts.slice(named + 1);
+    }
+    const resolved = relative && path.resolve(root, ...relative);
+    if (resolved?.startsWith(root + path.sep)) result.paths.push(resolved);
+    else result.unanchored.push(entry);
+  });
+  return result;
+}
+
+/**
+ * Removes the files and folders listed in `<projectRoot>/.diffcache`, then the cache itself.
+ * The cache is kept when some of its entries could not be anchored, so they can be removed by hand.
+ */
+export function cleanGenerated(projectRoot: string, dryRun = false): CleanupReport {
+  const cacheFile = path.join(projectRoot, CACHE_FILE);
+  const report: CleanupReport = { removed: [], kept: [], unanchored: [] };
+  if (!fs.existsSync(cacheFile)) return report;
+
+  const generated = resolveGeneratedPaths(JSON.parse(fs.readFileSync(cacheFile, "utf-8")), projectRoot);
+  report.unanchored = generated.unanchored;
+  const existing = generated.paths.filter((p) => fs.existsSync(p));
+  const files = existing.filter((p) => !fs.statSync(p).isDirectory());
+  // Deepest folders first, so a folder is only checked once its generated subfolders are gone.
+  const folders = existing.filter((p) => fs.statSync(p).isDirectory()).sort((a, b) => b.length - a.length);
+
+  for (const file of files) {
+    if (!dryRun) fs.unlinkSync(file);
+    report.removed.push(file);
+  }
+  for (const folder of folders) {
+    const left = fs.readdirSync(folder).filter((name) => !report.removed.includes(path.join(folder, name)));
+    if (left.length > 0) {
+      report.kept.push(folder);
+      continue;
+    }
+    if (!dryRun) fs.rmdirSync(folder);
+    report.removed.push(folder);
+  }
+  if (!dryRun && report.unanchored.length === 0) fs.unlinkSync(cacheFile);
+  return report;
+}
+
+task("discovery:clean-generated", "Removes the files listed in .diffcache by earlier deploy runs")
+  .addFlag("dryRun", "List what would be removed without deleting anything")
+  .setAction(async (args: CleanupArgs, hre): Promise<CleanupReport> => {
+    const projectRoot = hre.config.paths.root;
+    if (!fs.existsSync(path.join(projectRoot, CACHE_FILE))) {
+      console.log(`No ${CACHE_FILE}, nothing to clean`);
+      return { removed: [], kept: [], unanchored: [] };
+    }
+
+    const report = cleanGenerated(projectRoot, args.dryRun);
+    const verb = args.dryRun ? "Would remove" : "Removed";
+    for (const removed of report.removed) console.log(`${verb}: ${path.relative(projectRoot, removed)}`);
+    for (const kept of report.kept) console.warn(`Kept ${path.relative(projectRoot, kept)}: it holds other files`);
+    for (const entry of report.unanchored) console.warn(`Skipped ${entry}: it cannot be placed in the project`);
+    const cacheRemoved = !args.dryRun && report.unanchored.length === 0;
+    console.log(`${verb} ${report.removed.length} generated paths${cacheRemoved ? ` and ${CACHE_FILE}` : ""}`);
+    return report;
+  });
@@ -0,0 +1,68 @@
+// tasks/deploy.ts
+import { ContractFactory, formatEther } from "ethers";
+import { subtask } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { TASK_DEPLOY_RUN_DEPLOY } from "hardhat-deploy";
+import { loadDeployer, namedAccountFor } from "../src/deployer";
+import { DEPLOYED_CONTRACTS, readContractArtifact } from "../src/deployments";
+import { loadDiscoveryConfig } from "../src/discoveryConfig";
+
+// DEPLOY_DRY_RUN=1 resolves the deployer and estimates gas without sending transactions or writing files.
+const DRY_RUN = ["1", "true"].includes(process.env.DEPLOY_DRY_RUN ?? "");
+
+interface RunDeployArgs {
+  tags?: string;
+}
+
+/** Prints what `deploy` would cost and do, without sending anything. */
+async function planDeployment(hre: HardhatRuntimeEnvironment, deployer: string, tags: string[]) {
+  const provider = hre.ethers.provider;
+  const contractNames = DEPLOYED_CONTRACTS.filter((name) => tags.length === 0 || tags.includes(name));
+
+  let totalGas = 0n;
+  for (const contractName of contractNames) {
+    const artifact = await readContractArtifact(hre, contractName);
+    const { differences, address } = await hre.deployments.fetchIfDifferent(contractName, {
+      contract: artifact,
+      from: deployer,
+    });
+    if (!differences) {
+      console.log(`  ${contractName}: unchanged at ${address}`);
+      continue;
+    }
+    const factory = new ContractFactory(artifact.abi, artifact.bytecode);
+    const gas = await provider.estimateGas({ ...(await factory.getDeployTransaction()), from: deployer });
+    console.log(`  ${contractName}: ${gas} gas`);
+    totalGas += gas;
+  }
+  const { maxFeePerGas, gasPrice } = await provider.getFeeData();
+  const cost = totalGas * (maxFeePerGas ?? gasPrice ?? 0n);
+  const balance = await provider.getBalance(deployer);
+  console.log(
+    `Deployments: ${totalGas} gas, up to ${formatEther(cost)} ETH. Deployer balance: ${formatEther(balance)} ETH`,
+  );
+  if (balance < cost) console.warn("The deployer balance does not cover the deployment");
+
+  const { providers, cooldownSeconds, reviewers, categoryReviewers } = loadDiscoveryConfig();
+  const categoryReviewerCount = Object.values(categoryReviewers).flat().length;
+  console.log(
+    `Then, where not set yet: ${providers.length} AIDiscoveryFHE providers, cooldown ${cooldownSeconds}s, ` +
+      `${reviewers.length} reviewers and ${categoryReviewerCount} category reviewers`,
+  );
+  console.log(`Dry run: nothing was sent, deployments/${hre.network.name} and the frontend config are unchanged`);
+}
+
+// Every `deploy` run, including the one `hardhat node` starts, goes through this subtask. The deployer is
+// resolved here rather than in hardhat.config.ts because unlocking a keystore may prompt for its password.
+subtask(TASK_DEPLOY_RUN_DEPLOY).setAction(async (args: RunDeployArgs, hre, runSuper) => {
+  const deployer = await loadDeployer(hre.ethers.provider, { hardhatSigners: () => hre.ethers.getSigners() });
+  const account = namedAccountFor(deployer);
+  if (account) hre.config.namedAccounts.deployer = account;
+  console.log(`Deployer account: ${deployer.address} (from ${deployer.source})`);
+
+  if (DRY_RUN) {
+    await planDeployment(hre, deployer.address, args.tags ? args.tags.split(",") : []);
+    return;
+  }
+  return runSuper(args);
+});
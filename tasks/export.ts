@@ -0,0 +1,184 @@
+// tasks/export.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOYED_CONTRACTS, DEPLOYMENTS_DIR, readContractArtifact, readDeployments } from "../src/deployments";
+
+/** The frontend module holding every deployed contract's ABI and addresses. */
+export const FRONTEND_DEPLOYMENTS_MODULE = path.join(__dirname, "..", "frontend", "web", "src", "deployments.ts");
+
+interface ExportArgs {
+  check: boolean;
+  verify: boolean;
+}
+
+interface ContractDeployment {
+  address: string;
+  blockNumber: number;
+}
+
+interface NetworkDeployments {
+  chainId: number;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export interface VerifyRequest {
+  contractName: string;
+  address: string;
+  constructorArguments: unknown[];
+}
+
+/** Submits one contract for verification; the default runs hardhat-verify against etherscan. */
+export type ContractVerifier = (request: VerifyRequest) => Promise<void>;
+
+export interface ExportOptions {
+  // Fail on drift instead of writing the module.
+  check?: boolean;
+  // Verifies the contracts deployed on the current network.
+  verify?: ContractVerifier;
+  outFile?: string;
+  deploymentsDir?: string;
+}
+
+export interface ExportReport {
+  // ABIs and networks whose checked-in version differs from the artifacts and deployments.
+  drift: string[];
+  written: boolean;
+  verified: string[];
+}
+
+const indent = (json: string) => json.replace(/\n/g, "\n  ");
+
+function renderModule(abis: Record<string, unknown[]>, deployments: Record<string, NetworkDeployments>): string {
+  const abiEntries = Object.entries(abis).map(([name, abi]) => `  ${name}: ${indent(JSON.stringify(abi, null, 2))},`);
+  return `// deployments.ts
+// Generated by \`npx hardhat discovery:export\` from the compiled artifacts and deployments/. Do not edit.
+
+export interface ContractDeployment {
+  address: string;
+  // Block of the deployment transaction.
+  blockNumber: number;
+}
+
+export interface NetworkDeployments {
+  chainId: number;
+  contracts: Partial<Record<DeployedContractName, ContractDeployment>>;
+}
+
+export const CONTRACT_ABIS = {
+${abiEntries.join("\n")}
+} as const;
+
+export type DeployedContractName = keyof typeof CONTRACT_ABIS;
+
+/** Deployed addresses per network, keyed like the networks in config.json. */
+export const DEPLOYMENTS: Record<string, NetworkDeployments> = ${JSON.stringify(deployments, null, 2)};
+`;
+}
+
+// hardhat runs TypeScript through ts-node, so the checked-in module can be loaded as is.
+function loadModule(file: string): {
+  abis: Record<string, unknown[]>;
+  deployments: Record<string, NetworkDeployments>;
+} {
+  if (!fs.existsSync(file)) return { abis: {}, deployments: {} };
+  delete require.cache[require.resolve(file)];
+  const { CONTRACT_ABIS, DEPLOYMENTS } = require(file);
+  return { abis: CONTRACT_ABIS ?? {}, deployments: DEPLOYMENTS ?? {} };
+}
+
+// Networks hardhat-deploy saved, plus the ones only the checked-in module knows (deployed before hardhat-deploy).
+function collectDeployments(
+  checkedIn: Record<string, NetworkDeployments>,
+  deploymentsDir: string,
+): Record<string, NetworkDeployments> {
+  const deployments = { ...checkedIn };
+  const networks = fs.existsSync(deploymentsDir) ? fs.readdirSync(deploymentsDir) : [];
+  for (const network of networks.filter((name) => name !== "hardhat")) {
+    const records = readDeployments(network, deploymentsDir);
+    const contracts: Record<string, ContractDeployment> = {};
+    for (const contractName of DEPLOYED_CONTRACTS) {
+      const record = records[contractName];
+      if (record) contracts[contractName] = { address: record.address, blockNumber: record.blockNumber };
+    }
+    const [first] = Object.keys(contracts);
+    if (first) deployments[network] = { chainId: records[first].chainId, contracts };
+  }
+  return Object.fromEntries(
+    Object.keys(deployments)
+      .sort()
+      .map((network) => [network, deployments[network]]),
+  );
+}
+
+/**
+ * Writes the ABIs of the deployed contracts and their addresses on every network into the frontend module,
+ * or with `check`, fails when the module has drifted from the compiled artifacts.
+ */
+export async function exportContracts(
+  hre: HardhatRuntimeEnvironment,
+  options: ExportOptions = {},
+): Promise<ExportReport> {
+  const outFile = options.outFile ?? FRONTEND_DEPLOYMENTS_MODULE;
+  const checkedIn = loadModule(outFile);
+
+  const abis: Record<string, unknown[]> = {};
+  for (const contractName of DEPLOYED_CONTRACTS) {
+    abis[contractName] = (await readContractArtifact(hre, contractName)).abi;
+  }
+  const deploymentsDir = options.deploymentsDir ?? DEPLOYMENTS_DIR;
+  const deployments = collectDeployments(checkedIn.deployments, deploymentsDir);
+
+  const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  const drift = [
+    ...DEPLOYED_CONTRACTS.filter((name) => !same(abis[name], checkedIn.abis[name])).map((name) => `${name} ABI`),
+    ...Object.keys(deployments)
+      .filter((network) => !same(deployments[network], checkedIn.deployments[network]))
+      .map((network) => `${network} addresses`),
+  ];
+
+  if (options.check && drift.length > 0) {
+    throw new Error(
+      `${path.relative(hre.config.paths.root, outFile)} has drifted: ${drift.join(", ")}. ` +
+        "Run `npx hardhat discovery:export` and commit the result",
+    );
+  }
+  const written = !options.check && drift.length > 0;
+  if (written) fs.writeFileSync(outFile, renderModule(abis, deployments));
+
+  const verified: string[] = [];
+  if (options.verify) {
+    const records = readDeployments(hre.network.name, deploymentsDir);
+    for (const contractName of DEPLOYED_CONTRACTS) {
+      const record = records[contractName];
+      if (!record) continue;
+      // Its source is not in contracts/, so there is nothing to submit.
+      if (contractName === "UniversalAdapter") continue;
+      await options.verify({ contractName, address: record.address, constructorArguments: record.args });
+      verified.push(contractName);
+    }
+  }
+  return { drift, written, verified };
+}
+
+const etherscanVerifier =
+  (hre: HardhatRuntimeEnvironment): ContractVerifier =>
+  ({ address, constructorArguments }) =>
+    hre.run("verify:verify", { address, constructorArguments });
+
+task("discovery:export", "Exports the deployed contracts' ABIs and addresses to frontend/web/src/deployments.ts")
+  .addFlag("check", "Fail when the checked-in ABIs or addresses differ, without writing anything")
+  .addFlag("verify", "Verify this network's deployed contracts on etherscan")
+  .setAction(async (args: ExportArgs, hre): Promise<ExportReport> => {
+    await hre.run("compile", { quiet: true });
+    const report = await exportContracts(hre, {
+      check: args.check,
+      verify: args.verify ? etherscanVerifier(hre) : undefined,
+    });
+    if (args.check) console.log("frontend/web/src/deployments.ts matches the artifacts and deployments");
+    else if (report.written) console.log(`Updated frontend/web/src/deployments.ts: ${report.drift.join(", ")}`);
+    else console.log("frontend/web/src/deployments.ts is up to date");
+    for (const contractName of report.verified) console.log(`Verified ${contractName}`);
+    return report;
+  });
@@ -0,0 +1,185 @@
+// tasks/keeper.ts
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { AIDiscoveryFHE } from "../types";
+
+interface KeeperArgs {
+  address?: string;
+  requestDiscovery: boolean;
+  watch: boolean;
+  interval: number;
+  fromBlock: number;
+  maxBlockRange: number;
+  retryDelay: number;
+}
+
+export interface KeeperReport {
+  closed: number[];
+  requested: number[];
+  // Dropped after a revert that retrying cannot fix; they need manual action.
+  abandoned: number[];
+}
+
+interface TrackedBatch {
+  // Whether the keeper already finalized the batch.
+  finalized: boolean;
+  // Failed attempts in a row, and when the next one may run.
+  failures: number;
+  retryAt: number;
+}
+
+// Many public RPC endpoints cap eth_getLogs at a few thousand blocks.
+export const DEFAULT_MAX_BLOCK_RANGE = 5000;
+// First wait after a transient failure; it doubles with each failure in a row, up to MAX_RETRY_DELAY_MS.
+export const DEFAULT_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Custom errors that clear up by themselves. Any other revert is deterministic and abandons the batch.
+const TRANSIENT_ERRORS = new Set(["CooldownActive", "Paused"]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/** Name of the AIDiscoveryFHE custom error `e` reverted with, if its revert data decodes to one. */
+function customErrorName(contract: AIDiscoveryFHE, e: unknown): string | undefined {
+  const data = (e as { data?: unknown } | null)?.data;
+  if (typeof data !== "string" || data.length < 10) return undefined;
+  return contract.interface.parseError(data)?.name;
+}
+
+/**
+ * Tracks the batches announced by BatchOpened and finalizes the ones whose
+ * deadline has passed. Batches without a deadline stay tracked until the owner
+ * closes them. With `requestDiscovery`, a finalized batch stays tracked until
+ * its discovery was requested. Failures from the RPC or a cooldown are retried
+ * with exponential backoff; a batch whose call reverts with any other custom
+ * error is dropped and reported as abandoned.
+ */
+export class BatchKeeper {
+  private readonly pending = new Map<number, TrackedBatch>();
+  private nextBlock: number;
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly contract: AIDiscoveryFHE,
+    fromBlock: number,
+    private readonly requestDiscovery: boolean,
+    private readonly maxBlockRange = DEFAULT_MAX_BLOCK_RANGE,
+    private readonly retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  ) {
+    if (maxBlockRange <= 0) throw new Error("maxBlockRange must be positive");
+    if (retryDelayMs < 0) throw new Error("retryDelayMs must not be negative");
+    this.nextBlock = fromBlock;
+  }
+
+  async poll(): Promise<KeeperReport> {
+    const latest = await this.hre.ethers.provider.getBlockNumber();
+    while (this.nextBlock <= latest) {
+      const toBlock = Math.min(latest, this.nextBlock + this.maxBlockRange - 1);
+      const logs = await this.contract.queryFilter(this.contract.filters.BatchOpened(), this.nextBlock, toBlock);
+      logs.forEach((log) => {
+        const batchId = Number(log.args.batchId);
+        if (!this.pending.has(batchId)) this.pending.set(batchId, { finalized: false, failures: 0, retryAt: 0 });
+      });
+      this.nextBlock = toBlock + 1;
+    }
+
+    const report: KeeperReport = { closed: [], requested: [], abandoned: [] };
+    for (const [batchId, batch] of [...this.pending]) {
+      if (Date.now() < batch.retryAt) continue;
+      try {
+        if (!batch.finalized) {
+          if (!(await this.contract.isBatchOpen(batchId))) {
+            // Closed by the owner, who requests its discovery themselves.
+            this.pending.delete(batchId);
+            continue;
+          }
+          if (!(await this.contract.isBatchExpired(batchId))) continue;
+
+          await (await this.contract.finalizeExpiredBatch(batchId)).wait();
+          batch.finalized = true;
+          report.closed.push(batchId);
+          console.log(`Finalized expired batch #${batchId}`);
+        }
+
+        if (this.requestDiscovery && (await this.requestDiscoveryOf(batchId))) report.requested.push(batchId);
+        this.pending.delete(batchId);
+      } catch (e) {
+        // A failing batch must not stop the keeper from handling the others.
+        const error = customErrorName(this.contract, e);
+        if (error !== undefined && !TRANSIENT_ERRORS.has(error)) {
+          this.pending.delete(batchId);
+          report.abandoned.push(batchId);
+          console.error(`Dropping batch #${batchId}, it reverted with ${error}() and needs manual action`);
+          continue;
+        }
+        batch.failures++;
+        const delay = Math.min(this.retryDelayMs * 2 ** (batch.failures - 1), MAX_RETRY_DELAY_MS);
+        batch.retryAt = Date.now() + delay;
+        console.warn(`Retrying batch #${batchId} in ${Math.round(delay / 1000)}s:`, errorMessage(e));
+      }
+    }
+    return report;
+  }
+
+  /** Requests discovery of a finalized batch; returns false when it is empty and there is nothing to decrypt. */
+  private async requestDiscoveryOf(batchId: number): Promise<boolean> {
+    if ((await this.contract.getBatchSize(batchId)) === 0n) {
+      console.log(`Batch #${batchId} is empty, skipping requestDiscovery`);
+      return false;
+    }
+    await (await this.contract.requestDiscovery(batchId)).wait();
+    console.log(`Requested discovery for batch #${batchId}`);
+    return true;
+  }
+}
+
+task("discovery:keeper", "Finalizes expired AIDiscoveryFHE batches")
+  .addOptionalParam("address", "AIDiscoveryFHE address, defaults to the network's deployment")
+  .addFlag("requestDiscovery", "Request decryption of each finalized batch (the signer must be a provider)")
+  .addFlag("watch", "Keep polling instead of exiting after one pass")
+  .addOptionalParam("interval", "Seconds between polls in watch mode", 60, types.int)
+  .addOptionalParam("fromBlock", "First block to scan for BatchOpened events", 0, types.int)
+  .addOptionalParam("maxBlockRange", "Most blocks to query for events at once", DEFAULT_MAX_BLOCK_RANGE, types.int)
+  .addOptionalParam(
+    "retryDelay",
+    "Seconds before retrying a batch after a transient failure",
+    DEFAULT_RETRY_DELAY_MS / 1000,
+    types.int,
+  )
+  .setAction(async (args: KeeperArgs, hre): Promise<KeeperReport> => {
+    const address = args.address ?? (await hre.deployments.getOrNull("AIDiscoveryFHE"))?.address;
+    if (!address || !hre.ethers.isAddress(address)) {
+      throw new Error(`Pass --address or deploy AIDiscoveryFHE to ${hre.network.name} with \`npx hardhat deploy\``);
+    }
+    if (args.interval <= 0) throw new Error("--interval must be positive");
+    if (args.retryDelay < 0) throw new Error("--retryDelay must not be negative");
+
+    const [signer] = await hre.ethers.getSigners();
+    const contract = (await hre.ethers.getContractAt("AIDiscoveryFHE", address, signer)) as unknown as AIDiscoveryFHE;
+    if (args.requestDiscovery && !(await contract.isProvider(signer.address))) {
+      console.warn(`${signer.address} is not a provider, requestDiscovery calls will revert`);
+    }
+
+    const keeper = new BatchKeeper(
+      hre,
+      contract,
+      args.fromBlock,
+      args.requestDiscovery,
+      args.maxBlockRange,
+      args.retryDelay * 1000,
+    );
+    if (!args.watch) return keeper.poll();
+
+    console.log(`Watching ${address} every ${args.interval}s`);
+    for (;;) {
+      try {
+        await keeper.poll();
+      } catch (e) {
+        // Usually an unreachable RPC endpoint; the next poll picks up from the same block.
+        console.error("Keeper poll failed:", errorMessage(e));
+      }
+      await sleep(args.interval * 1000);
+    }
+  });
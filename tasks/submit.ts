@@ -0,0 +1,81 @@
+// tasks/submit.ts
+import type { Signer } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { AIDiscoveryFHE } from "../types";
+
+interface SubmitArgs {
+  address?: string;
+  batch: number;
+  values: string;
+}
+
+export interface SubmitReport {
+  batchId: number;
+  count: number;
+  transactionHash: string;
+}
+
+const MAX_UINT32 = 2n ** 32n - 1n;
+
+/** Parses a comma separated list of uint32 data points, e.g. "4,6,10". */
+export function parseDataPoints(list: string): bigint[] {
+  const entries = list
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) throw new Error("No data points to submit");
+  return entries.map((entry) => {
+    const value = /^\d+$/.test(entry) ? BigInt(entry) : -1n;
+    if (value < 0n || value > MAX_UINT32) throw new Error(`Data point ${entry} is not a uint32`);
+    return value;
+  });
+}
+
+/**
+ * Encrypts `values` with the network's relayer (the mock coprocessor on hardhat) for the signer `contract`
+ * is connected to, and submits them to `batchId` together with their input proof.
+ */
+export async function submitEncryptedData(
+  hre: HardhatRuntimeEnvironment,
+  contract: AIDiscoveryFHE,
+  batchId: number,
+  values: (number | bigint)[],
+): Promise<SubmitReport> {
+  if (values.length === 0) throw new Error("No data points to submit");
+  const provider = contract.runner as Signer | null;
+  if (!provider || typeof provider.getAddress !== "function") {
+    throw new Error("AIDiscoveryFHE contract is not connected to a signer");
+  }
+
+  await hre.fhevm.initializeCLIApi();
+  const input = hre.fhevm.createEncryptedInput(await contract.getAddress(), await provider.getAddress());
+  values.forEach((value) => input.add32(value));
+  const { handles, inputProof } = await input.encrypt();
+
+  const receipt = await (await contract.submitData(batchId, handles, inputProof)).wait();
+  if (!receipt) throw new Error("submitData was not mined");
+  return { batchId, count: values.length, transactionHash: receipt.hash };
+}
+
+task("discovery:submit", "Encrypts data points and submits them to an open AIDiscoveryFHE batch")
+  .addOptionalParam("address", "AIDiscoveryFHE address, defaults to the network's deployment")
+  .addParam("batch", "Id of the open batch", undefined, types.int)
+  .addParam("values", "Comma separated uint32 data points, already scaled, e.g. 4,6,10")
+  .setAction(async (args: SubmitArgs, hre): Promise<SubmitReport> => {
+    const address = args.address ?? (await hre.deployments.getOrNull("AIDiscoveryFHE"))?.address;
+    if (!address || !hre.ethers.isAddress(address)) {
+      throw new Error(`Pass --address or deploy AIDiscoveryFHE to ${hre.network.name} with \`npx hardhat deploy\``);
+    }
+    const values = parseDataPoints(args.values);
+
+    const [signer] = await hre.ethers.getSigners();
+    const contract = (await hre.ethers.getContractAt("AIDiscoveryFHE", address, signer)) as unknown as AIDiscoveryFHE;
+    if (!(await contract.isProvider(signer.address))) throw new Error(`${signer.address} is not a provider`);
+
+    const report = await submitEncryptedData(hre, contract, args.batch, values);
+    console.log(
+      `Submitted ${report.count} encrypted data points to batch #${report.batchId}: ${report.transactionHash}`,
+    );
+    return report;
+  });
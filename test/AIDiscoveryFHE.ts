@@ -0,0 +1,1226 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre, { ethers, fhevm, run } from "hardhat";
+import { encodeSchema, hashSchema } from "../frontend/web/src/batchMetadata";
+import {
+  computeCorrelation,
+  getCorrelationResults,
+  MAX_PAIRS_PER_SUBMISSION,
+  openPairedBatches,
+  requestCorrelation,
+  submitPairedPoints,
+  waitForCorrelation,
+} from "../frontend/web/src/correlation";
+import { linearFit } from "../frontend/web/src/hypotheses";
+import { Precision, scaledToDecimal } from "../frontend/web/src/precision";
+import {
+  getAddedNoise,
+  getPrivacyBudget,
+  noiseMargin,
+  setDifferentialPrivacy,
+  toDiscoveryNoise,
+} from "../frontend/web/src/privacy";
+import { getQueryResults, queryBatch, ThresholdQueryBuilder, waitForQueryResult } from "../frontend/web/src/queries";
+import { decodeStatistics, StatisticName, toStatsMask } from "../frontend/web/src/statistics";
+import { BatchKeeper } from "../tasks/keeper";
+import { parseDataPoints, submitEncryptedData } from "../tasks/submit";
+import { AIDiscoveryFHE, AIDiscoveryFHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Reverts are asserted with `staticCall`. Hardhat cannot always build a stack trace for via-IR
+// bytecode, and the fhevm provider wrapper then fails an internal assertion on eth_sendTransaction
+// instead of surfacing the revert reason.
+
+// Storage slot of the `decryptionContexts` mapping in AIDiscoveryFHE.
+const DECRYPTION_CONTEXTS_SLOT = 9n;
+
+// Metadata of batches whose descriptor does not matter to the test: no quota, no deadline.
+const DESCRIPTOR = {
+  category: "Genomics",
+  units: "reads",
+  schema: encodeSchema([{ name: "depth" }]),
+  maxPointsPerProvider: 0,
+  closesAt: 0,
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("AIDiscoveryFHE")) as AIDiscoveryFHE__factory;
+  const contract = (await factory.deploy()) as AIDiscoveryFHE;
+  const contractAddress = await contract.getAddress();
+
+  return { contract, contractAddress };
+}
+
+describe("AIDiscoveryFHE", function () {
+  let signers: Signers;
+  let contract: AIDiscoveryFHE;
+  let contractAddress: string;
+
+  /// Encrypts `values` as inputs `provider` can submit to the discovery contract.
+  async function encryptPoints(provider: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(contractAddress, provider.address);
+    values.forEach((value) => input.add32(value));
+    return input.encrypt();
+  }
+
+  async function submitPoints(provider: HardhatEthersSigner, batchId: number, values: number[]) {
+    const { handles, inputProof } = await encryptPoints(provider, values);
+    return (await contract.connect(provider).submitData(batchId, handles, inputProof)).wait();
+  }
+
+  async function closedBatchWith(values: number[]) {
+    await (await contract.openBatch(DESCRIPTOR)).wait();
+    const batchId = Number(await contract.currentBatchId());
+    await submitPoints(signers.alice, batchId, values);
+    await (await contract.closeBatch(batchId)).wait();
+    return batchId;
+  }
+
+  async function requestDiscovery(batchId: number) {
+    const receipt = await (await contract.connect(signers.alice).requestDiscovery(batchId)).wait();
+    const [request] = fhevm.parseDecryptionRequestEvents(receipt?.logs);
+    return request;
+  }
+
+  /// Builds the (cleartexts, proof) pair the decryption oracle passes to `myCallback`.
+  async function callbackArgs(handles: string[], values: bigint[]) {
+    // The mock relayer answers with `{ decryptedResult, signatures }` despite the `string[]` typing.
+    const response: unknown = await fhevm.debugger.createDecryptionSignatures(handles, values);
+    const signatures = Array.isArray(response) ? response : (response as { signatures: string[] }).signatures;
+    const proof = ethers.concat([ethers.solidityPacked(["uint8"], [signatures.length]), ...signatures, "0x00"]);
+    const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+      values.map(() => "uint256"),
+      values,
+    );
+    return { cleartexts, proof };
+  }
+
+  async function completedResults(requestId: bigint) {
+    const events = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId));
+    return events.map((event) => ({ batchId: event.args.batchId, result: event.args.result }));
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle and coprocessor are only simulated by the mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+    await (await contract.addProvider(signers.alice.address)).wait();
+  });
+
+  describe("access control", function () {
+    it("sets the deployer as owner", async function () {
+      expect(await contract.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("lets only the owner manage providers", async function () {
+      await expect(
+        contract.connect(signers.alice).addProvider.staticCall(signers.bob.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.addProvider(signers.bob.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.bob.address);
+      expect(await contract.isProvider(signers.bob.address)).to.eq(true);
+
+      await expect(contract.removeProvider(signers.bob.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.bob.address);
+      expect(await contract.isProvider(signers.bob.address)).to.eq(false);
+    });
+
+    it("rejects invalid provider updates", async function () {
+      await expect(contract.addProvider.staticCall(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(contract.removeProvider.staticCall(signers.bob.address)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+    });
+
+    it("rejects submissions and requests from non-providers", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      const { handles, inputProof } = await encryptPoints(signers.bob, [1]);
+      await expect(
+        contract.connect(signers.bob).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(contract.connect(signers.bob).requestDiscovery.staticCall(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+
+    it("transfers ownership", async function () {
+      await expect(contract.transferOwnership(signers.bob.address))
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.bob.address);
+      await expect(contract.openBatch.staticCall(DESCRIPTOR)).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.connect(signers.bob).openBatch(DESCRIPTOR)).to.emit(contract, "BatchOpened").withArgs(1);
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks opening, submitting and requesting while paused", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      const { handles, inputProof } = await encryptPoints(signers.alice, [5]);
+
+      await expect(contract.connect(signers.alice).setPaused.staticCall(true)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.setPaused(true)).to.emit(contract, "PauseToggled").withArgs(true);
+
+      await expect(contract.openBatch.staticCall(DESCRIPTOR)).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "Paused");
+      await expect(contract.connect(signers.alice).requestDiscovery.staticCall(1)).to.be.revertedWithCustomError(
+        contract,
+        "Paused",
+      );
+
+      await (await contract.setPaused(false)).wait();
+      await expect(contract.connect(signers.alice).submitData(1, handles, inputProof)).to.emit(
+        contract,
+        "DataSubmitted",
+      );
+    });
+
+    it("still allows closing a batch while paused", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await (await contract.setPaused(true)).wait();
+      await expect(contract.closeBatch(1)).to.emit(contract, "BatchClosed").withArgs(1);
+    });
+  });
+
+  describe("cooldown", function () {
+    const COOLDOWN = 60;
+
+    beforeEach(async function () {
+      await expect(contract.setCooldownSeconds(COOLDOWN)).to.emit(contract, "CooldownSecondsSet").withArgs(0, COOLDOWN);
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+    });
+
+    it("rate limits submissions per provider", async function () {
+      await submitPoints(signers.alice, 1, [1]);
+      const { handles, inputProof } = await encryptPoints(signers.alice, [2]);
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(COOLDOWN);
+      await expect(contract.connect(signers.alice).submitData(1, handles, inputProof)).to.emit(
+        contract,
+        "DataSubmitted",
+      );
+    });
+
+    it("tracks each provider separately", async function () {
+      await (await contract.addProvider(signers.bob.address)).wait();
+      await submitPoints(signers.alice, 1, [1]);
+      await submitPoints(signers.bob, 1, [2]);
+    });
+
+    it("rate limits decryption requests per provider", async function () {
+      await submitPoints(signers.alice, 1, [1]);
+      await (await contract.closeBatch(1)).wait();
+      await time.increase(COOLDOWN);
+
+      await (await contract.connect(signers.alice).requestDiscovery(1)).wait();
+      await expect(contract.connect(signers.alice).requestDiscovery.staticCall(1)).to.be.revertedWithCustomError(
+        contract,
+        "CooldownActive",
+      );
+      await fhevm.awaitDecryptionOracle();
+    });
+  });
+
+  describe("batches", function () {
+    it("opens batches with increasing ids", async function () {
+      await expect(contract.openBatch(DESCRIPTOR)).to.emit(contract, "BatchOpened").withArgs(1);
+      await expect(contract.openBatch(DESCRIPTOR)).to.emit(contract, "BatchOpened").withArgs(2);
+      expect(await contract.currentBatchId()).to.eq(2);
+      expect(await contract.isBatchOpen(1)).to.eq(true);
+      expect(await contract.isBatchOpen(2)).to.eq(true);
+    });
+
+    it("lets only the owner open and close batches", async function () {
+      await expect(contract.connect(signers.alice).openBatch.staticCall(DESCRIPTOR)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(contract.connect(signers.alice).closeBatch.staticCall(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+    });
+
+    it("rejects closing a batch that is not open", async function () {
+      await expect(contract.closeBatch.staticCall(1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(contract.closeBatch(1)).to.emit(contract, "BatchClosed").withArgs(1);
+      expect(await contract.isBatchOpen(1)).to.eq(false);
+      await expect(contract.closeBatch.staticCall(1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("accepts submissions only into open batches", async function () {
+      const { handles, inputProof } = await encryptPoints(signers.alice, [3]);
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(contract.connect(signers.alice).submitData(1, handles, inputProof))
+        .to.emit(contract, "DataSubmitted")
+        .withArgs(signers.alice.address, 1, 1);
+
+      await (await contract.closeBatch(1)).wait();
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("rejects inputs encrypted for another sender or contract", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await (await contract.addProvider(signers.bob.address)).wait();
+      const { handles, inputProof } = await encryptPoints(signers.alice, [3]);
+      await expect(contract.connect(signers.bob).submitData.staticCall(1, handles, inputProof)).to.be.reverted;
+
+      const other = await deployFixture();
+      const foreign = await fhevm.createEncryptedInput(other.contractAddress, signers.alice.address).add32(3).encrypt();
+      await expect(contract.connect(signers.alice).submitData.staticCall(1, foreign.handles, foreign.inputProof)).to.be
+        .reverted;
+      await expect(contract.connect(signers.alice).submitData(1, handles, inputProof)).to.emit(
+        contract,
+        "DataSubmitted",
+      );
+    });
+  });
+
+  describe("submit task", function () {
+    it("encrypts and submits data points in one call", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      const report = await submitEncryptedData(hre, contract.connect(signers.alice), 1, [4, 6]);
+      expect(report).to.include({ batchId: 1, count: 2 });
+      expect(await contract.getBatchSize(1)).to.eq(2);
+
+      await (await contract.addProvider(signers.deployer.address)).wait();
+      await run("discovery:submit", { address: contractAddress, batch: 1, values: "8, 2" });
+      expect(await contract.pointsSubmitted(1, signers.deployer.address)).to.eq(2);
+
+      await (await contract.closeBatch(1)).wait();
+      await requestDiscovery(1);
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, 1));
+      expect(event.args.result).to.eq(5000n);
+    });
+
+    it("rejects values that are not uint32", function () {
+      expect(parseDataPoints(" 1,2 ,3")).to.deep.eq([1n, 2n, 3n]);
+      expect(() => parseDataPoints("1,-2")).to.throw("not a uint32");
+      expect(() => parseDataPoints("4294967296")).to.throw("not a uint32");
+      expect(() => parseDataPoints("1.5")).to.throw("not a uint32");
+      expect(() => parseDataPoints(" , ")).to.throw("No data points");
+    });
+  });
+
+  describe("requestDiscovery", function () {
+    it("rejects open and empty batches", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await submitPoints(signers.alice, 1, [4]);
+      await expect(contract.connect(signers.alice).requestDiscovery.staticCall(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await (await contract.closeBatch(2)).wait();
+      await expect(contract.connect(signers.alice).requestDiscovery.staticCall(2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+    });
+
+    it("decrypts the batch average scaled by 1000", async function () {
+      const batchId = await closedBatchWith([10, 20, 33]);
+
+      await expect(contract.connect(signers.alice).requestDiscovery(batchId)).to.emit(contract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      expect(event.args.batchId).to.eq(batchId);
+      // (10 + 20 + 33) * 1000 / 3
+      expect(event.args.result).to.eq(21000n);
+      const context = await contract.decryptionContexts(event.args.requestId);
+      expect(context.processed).to.eq(true);
+    });
+
+    it("truncates the scaled average and combines submissions from several providers", async function () {
+      await (await contract.addProvider(signers.bob.address)).wait();
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await submitPoints(signers.alice, 1, [1, 2]);
+      await submitPoints(signers.bob, 1, [2]);
+      await (await contract.closeBatch(1)).wait();
+
+      const request = await requestDiscovery(1);
+      await fhevm.awaitDecryptionOracle();
+
+      // 5 * 1000 / 3 = 1666.66..
+      expect(await completedResults(request.requestID)).to.deep.eq([{ batchId: 1n, result: 1666n }]);
+    });
+  });
+
+  describe("myCallback", function () {
+    it("records the requested ciphertext handles", async function () {
+      const batchId = await closedBatchWith([7, 9]);
+      const request = await requestDiscovery(batchId);
+
+      expect(await contract.getDecryptionHandles(request.requestID)).to.deep.eq([...request.handlesBytes32Hex]);
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects replays of a fulfilled request", async function () {
+      const batchId = await closedBatchWith([7, 9]);
+      const request = await requestDiscovery(batchId);
+      await fhevm.awaitDecryptionOracle();
+      expect(await completedResults(request.requestID)).to.have.lengthOf(1);
+
+      const { cleartexts, proof } = await callbackArgs(request.handlesBytes32Hex, [8000n, 0n]);
+      await expect(contract.myCallback.staticCall(request.requestID, cleartexts, proof)).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+    });
+
+    it("rejects a callback whose proof does not match the cleartexts", async function () {
+      const batchId = await closedBatchWith([7, 9]);
+      const request = await requestDiscovery(batchId);
+
+      // Invalid KMS proofs are rejected by the KMSVerifier inside `FHE.checkSignatures`.
+      const signed = await callbackArgs(request.handlesBytes32Hex, [8000n, 0n]);
+      const forged = await callbackArgs(request.handlesBytes32Hex, [9000n, 0n]);
+      await expect(
+        contract.myCallback.staticCall(request.requestID, forged.cleartexts, signed.proof),
+      ).to.be.revertedWithCustomError(...fhevm.revertedWithCustomErrorArgs("KMSVerifier", "KMSInvalidSigner"));
+      await expect(
+        contract.myCallback.staticCall(request.requestID, signed.cleartexts, "0x0000"),
+      ).to.be.revertedWithCustomError(...fhevm.revertedWithCustomErrorArgs("KMSVerifier", "KMSZeroSignature"));
+
+      // The genuine oracle response is still accepted.
+      await fhevm.awaitDecryptionOracle();
+      expect(await completedResults(request.requestID)).to.deep.eq([{ batchId: BigInt(batchId), result: 8000n }]);
+    });
+
+    it("rejects a callback when the recorded handles no longer match the request", async function () {
+      const batchId = await closedBatchWith([7, 9]);
+      const request = await requestDiscovery(batchId);
+
+      // `handles` is the third field of DecryptionContext; its elements start at the hash of its slot.
+      const contextSlot = BigInt(
+        ethers.solidityPackedKeccak256(["uint256", "uint256"], [request.requestID, DECRYPTION_CONTEXTS_SLOT]),
+      );
+      const handleSlot = ethers.toQuantity(BigInt(ethers.solidityPackedKeccak256(["uint256"], [contextSlot + 2n])));
+      const handle = await ethers.provider.getStorage(contractAddress, handleSlot);
+      expect(handle).to.eq(request.handlesBytes32Hex[0]);
+
+      await ethers.provider.send("hardhat_setStorageAt", [contractAddress, handleSlot, ethers.id("stale")]);
+      const { cleartexts, proof } = await callbackArgs(request.handlesBytes32Hex, [8000n, 0n]);
+      await expect(contract.myCallback.staticCall(request.requestID, cleartexts, proof)).to.be.revertedWithCustomError(
+        contract,
+        "StateMismatch",
+      );
+
+      // Restore the recorded handle so the pending oracle request can be fulfilled.
+      await ethers.provider.send("hardhat_setStorageAt", [contractAddress, handleSlot, handle]);
+      await fhevm.awaitDecryptionOracle();
+      expect(await completedResults(request.requestID)).to.have.lengthOf(1);
+    });
+  });
+
+  describe("precision", function () {
+    async function averageOf(precision: Precision, scale: bigint, values: number[]) {
+      await (await contract.openBatchWithPrecision(DESCRIPTOR, precision, scale)).wait();
+      const batchId = Number(await contract.currentBatchId());
+      await submitPoints(signers.alice, batchId, values);
+      await (await contract.closeBatch(batchId)).wait();
+
+      await (await contract.connect(signers.alice).requestDiscovery(batchId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, batchId));
+      expect(event.args.scale).to.eq(scale);
+      return event.args;
+    }
+
+    it("opens default batches with a 32 bit accumulator scaled by 1000", async function () {
+      await expect(contract.openBatch(DESCRIPTOR))
+        .to.emit(contract, "BatchPrecisionSet")
+        .withArgs(1, Precision.Uint32, 1000);
+      const config = await contract.batchPrecision(1);
+      expect(config.precision).to.eq(Precision.Uint32);
+      expect(config.scale).to.eq(1000n);
+    });
+
+    it("rejects invalid scales", async function () {
+      await expect(
+        contract.connect(signers.alice).openBatchWithPrecision.staticCall(DESCRIPTOR, Precision.Uint64, 1000),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.openBatchWithPrecision.staticCall(DESCRIPTOR, Precision.Uint64, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract.openBatchWithPrecision.staticCall(DESCRIPTOR, Precision.Uint32, 2n ** 32n),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("flags a wrapped 32 bit sum and a wrapped scaling", async function () {
+      const wrappedSum = await averageOf(Precision.Uint32, 1000n, [4_000_000_000, 1_000_000_000]);
+      expect(wrappedSum.overflowed).to.eq(true);
+
+      const wrappedScale = await averageOf(Precision.Uint32, 1000n, [5_000_000]);
+      expect(wrappedScale.overflowed).to.eq(true);
+
+      const exact = await averageOf(Precision.Uint32, 1000n, [4_000_000]);
+      expect(exact.overflowed).to.eq(false);
+      expect(exact.result).to.eq(4_000_000_000n);
+    });
+
+    it("averages large values with a 64 bit accumulator", async function () {
+      const { result, overflowed } = await averageOf(Precision.Uint64, 1000n, [4_000_000_000, 1_000_000_001]);
+      expect(overflowed).to.eq(false);
+      expect(scaledToDecimal(result, 1000n)).to.eq("2500000000.5");
+
+      const wrappedScale = await averageOf(Precision.Uint64, 10n ** 10n, [4_000_000_000]);
+      expect(wrappedScale.overflowed).to.eq(true);
+    });
+
+    it("supports 18 decimal scales with a 128 bit accumulator", async function () {
+      const { result, overflowed } = await averageOf(Precision.Uint128, 10n ** 18n, [1, 1, 2]);
+      expect(overflowed).to.eq(false);
+      expect(result).to.eq(1_333_333_333_333_333_333n);
+      expect(scaledToDecimal(result, 10n ** 18n)).to.eq("1.333333333333333333");
+    });
+  });
+
+  describe("metadata", function () {
+    it("stores the descriptor with the schema hash", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      const descriptor = { ...DESCRIPTOR, category: "Astrophysics", units: "lux", maxPointsPerProvider: 3, closesAt };
+      await expect(contract.openBatch(descriptor))
+        .to.emit(contract, "BatchMetadataSet")
+        .withArgs(1, "Astrophysics", "lux", DESCRIPTOR.schema, hashSchema(DESCRIPTOR.schema), 3, closesAt);
+
+      const metadata = await contract.getBatchMetadata(1);
+      expect(metadata.category).to.eq("Astrophysics");
+      expect(metadata.units).to.eq("lux");
+      expect(metadata.schemaHash).to.eq(hashSchema(DESCRIPTOR.schema));
+      expect(metadata.maxPointsPerProvider).to.eq(3);
+      expect(metadata.closesAt).to.eq(closesAt);
+    });
+
+    it("rejects a missing category and a deadline in the past", async function () {
+      await expect(contract.openBatch.staticCall({ ...DESCRIPTOR, category: "" })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      const closesAt = await time.latest();
+      await expect(contract.openBatch.staticCall({ ...DESCRIPTOR, closesAt })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+    });
+
+    it("enforces the per provider quota", async function () {
+      await (await contract.openBatch({ ...DESCRIPTOR, maxPointsPerProvider: 3 })).wait();
+      await submitPoints(signers.alice, 1, [1, 2]);
+      expect(await contract.pointsSubmitted(1, signers.alice.address)).to.eq(2);
+
+      const { handles, inputProof } = await encryptPoints(signers.alice, [3, 4]);
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "QuotaExceeded");
+      await submitPoints(signers.alice, 1, [3]);
+      expect(await contract.pointsSubmitted(1, signers.alice.address)).to.eq(3);
+    });
+
+    it("refuses submissions once the deadline has passed", async function () {
+      const closesAt = (await time.latest()) + 3600;
+      await (await contract.openBatch({ ...DESCRIPTOR, closesAt })).wait();
+      await submitPoints(signers.alice, 1, [1]);
+
+      const { handles, inputProof } = await encryptPoints(signers.alice, [2]);
+      await time.increaseTo(closesAt);
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(1, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+  });
+
+  describe("expiry", function () {
+    async function expiringBatch(values: number[]) {
+      const closesAt = (await time.latest()) + 3600;
+      await (await contract.openBatch({ ...DESCRIPTOR, closesAt })).wait();
+      const batchId = Number(await contract.currentBatchId());
+      if (values.length > 0) await submitPoints(signers.alice, batchId, values);
+      return { batchId, closesAt };
+    }
+
+    it("lets anyone finalize a batch once its deadline has passed", async function () {
+      const { batchId, closesAt } = await expiringBatch([1]);
+      expect(await contract.isBatchExpired(batchId)).to.eq(false);
+      await expect(
+        contract.connect(signers.bob).finalizeExpiredBatch.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      await time.increaseTo(closesAt);
+      expect(await contract.isBatchExpired(batchId)).to.eq(true);
+      await expect(contract.connect(signers.bob).finalizeExpiredBatch(batchId))
+        .to.emit(contract, "BatchClosed")
+        .withArgs(batchId)
+        .and.to.emit(contract, "BatchExpired")
+        .withArgs(batchId, signers.bob.address);
+      expect(await contract.isBatchOpen(batchId)).to.eq(false);
+      expect(await contract.isBatchExpired(batchId)).to.eq(false);
+    });
+
+    it("does not finalize batches without a deadline", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await time.increase(365 * 24 * 3600);
+      await expect(contract.finalizeExpiredBatch.staticCall(1)).to.be.revertedWithCustomError(contract, "InvalidBatch");
+    });
+
+    it("closes expired batches and requests their discovery from the keeper task", async function () {
+      await (await contract.addProvider(signers.deployer.address)).wait();
+      const expired = await expiringBatch([4, 6]);
+      const empty = await expiringBatch([]);
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      const unlimited = Number(await contract.currentBatchId());
+
+      const before = await run("discovery:keeper", { address: contractAddress, requestDiscovery: true });
+      expect(before).to.deep.eq({ closed: [], requested: [], abandoned: [] });
+
+      await time.increaseTo(Math.max(expired.closesAt, empty.closesAt));
+      const report = await run("discovery:keeper", { address: contractAddress, requestDiscovery: true });
+      expect(report).to.deep.eq({
+        closed: [expired.batchId, empty.batchId],
+        requested: [expired.batchId],
+        abandoned: [],
+      });
+      expect(await contract.isBatchOpen(unlimited)).to.eq(true);
+
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, expired.batchId));
+      expect(event.args.result).to.eq(5000n);
+    });
+
+    it("abandons a batch whose discovery request reverts for good", async function () {
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const { batchId, closesAt } = await expiringBatch([4, 6]);
+      // One block per event query, so the BatchOpened log is found in one of several chunks.
+      const keeper = new BatchKeeper(hre, contract, fromBlock, true, 1);
+      await time.increaseTo(closesAt);
+
+      // The deployer is not a provider, so requestDiscovery reverts with NotProvider.
+      expect(await keeper.poll()).to.deep.eq({ closed: [batchId], requested: [], abandoned: [batchId] });
+
+      await (await contract.addProvider(signers.deployer.address)).wait();
+      expect(await keeper.poll()).to.deep.eq({ closed: [], requested: [], abandoned: [] });
+    });
+
+    it("retries a request that hit the cooldown once its backoff has passed", async function () {
+      const cooldown = 60;
+      const retryDelayMs = 10_000;
+      await (await contract.addProvider(signers.deployer.address)).wait();
+      const fromBlock = await ethers.provider.getBlockNumber();
+      const first = await expiringBatch([4, 6]);
+      const second = await expiringBatch([1, 3]);
+      await (await contract.setCooldownSeconds(cooldown)).wait();
+      const keeper = new BatchKeeper(hre, contract, fromBlock, true, undefined, retryDelayMs);
+      await time.increaseTo(second.closesAt);
+
+      // The first request starts the deployer's cooldown, so the second one reverts with CooldownActive.
+      expect(await keeper.poll()).to.deep.eq({
+        closed: [first.batchId, second.batchId],
+        requested: [first.batchId],
+        abandoned: [],
+      });
+      await time.increase(cooldown);
+      // Still backing off.
+      expect(await keeper.poll()).to.deep.eq({ closed: [], requested: [], abandoned: [] });
+
+      const now = Date.now;
+      Date.now = () => now() + retryDelayMs;
+      try {
+        expect(await keeper.poll()).to.deep.eq({ closed: [], requested: [second.batchId], abandoned: [] });
+      } finally {
+        Date.now = now;
+      }
+    });
+  });
+
+  describe("requestStatistics", function () {
+    async function statisticsOf(batchId: number, statistics: StatisticName[], bucketBounds: number[] = []) {
+      const statsMask = toStatsMask(statistics);
+      await (await contract.connect(signers.alice).requestStatistics(batchId, statsMask, bucketBounds)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [event] = await contract.queryFilter(contract.filters.StatisticsCompleted(undefined, batchId));
+      expect(event.args.statsMask).to.eq(statsMask);
+      return { event, statistics: decodeStatistics(statsMask, bucketBounds, event.args.cleartexts, event.args.scale) };
+    }
+
+    it("decrypts mean, variance, min, max and histogram counts", async function () {
+      const batchId = await closedBatchWith([4, 10, 1, 7, 3]);
+
+      const { statistics } = await statisticsOf(batchId, ["mean", "variance", "min", "max", "histogram"], [3, 8]);
+      expect(statistics).to.deep.eq({
+        mean: 5,
+        overflowed: false,
+        // (5 * 175 - 25^2) / 5^2
+        variance: 10,
+        min: 1n,
+        max: 10n,
+        histogram: [
+          { from: null, to: 3, count: 1 },
+          { from: 3, to: 8, count: 3 },
+          { from: 8, to: null, count: 1 },
+        ],
+      });
+    });
+
+    it("decrypts only the selected statistics", async function () {
+      const batchId = await closedBatchWith([12, 5]);
+
+      const { event, statistics } = await statisticsOf(batchId, ["min", "max"]);
+      expect(ethers.dataLength(event.args.cleartexts)).to.eq(64);
+      expect(statistics).to.deep.eq({ min: 5n, max: 12n });
+    });
+
+    it("scales the mean by the batch scale and flags it when it wraps", async function () {
+      await (await contract.openBatchWithPrecision(DESCRIPTOR, Precision.Uint64, 10n ** 6n)).wait();
+      const batchId = Number(await contract.currentBatchId());
+      await submitPoints(signers.alice, batchId, [1, 2]);
+      await (await contract.closeBatch(batchId)).wait();
+      const { event, statistics } = await statisticsOf(batchId, ["mean"]);
+      expect(event.args.scale).to.eq(10n ** 6n);
+      expect(statistics).to.deep.eq({ mean: 1.5, overflowed: false });
+
+      // The 32 bit sum of the default precision wraps, while the variance stays exact.
+      const wrapped = await closedBatchWith([4_000_000_000, 1_000_000_000]);
+      const { statistics: large } = await statisticsOf(wrapped, ["mean", "variance"]);
+      expect(large.overflowed).to.eq(true);
+      expect(large.variance).to.eq(1_500_000_000 ** 2);
+    });
+
+    it("rejects invalid statistics selections", async function () {
+      const batchId = await closedBatchWith([1]);
+      const histogram = toStatsMask(["histogram"]);
+      const invalid: [number, number[]][] = [
+        [0, []],
+        [1 << 5, []],
+        [histogram, []],
+        [toStatsMask(["mean"]), [5]],
+        [histogram, [5, 5]],
+        [histogram, Array.from({ length: 16 }, (_, i) => i)],
+      ];
+      for (const [statsMask, bucketBounds] of invalid) {
+        await expect(
+          contract.connect(signers.alice).requestStatistics.staticCall(batchId, statsMask, bucketBounds),
+        ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      }
+    });
+
+    it("rejects open batches and replays of a fulfilled request", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(
+        contract.connect(signers.alice).requestStatistics.staticCall(1, toStatsMask(["mean"]), []),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      const batchId = await closedBatchWith([2, 2]);
+      const { event } = await statisticsOf(batchId, ["mean"]);
+      const request = await contract.statisticsContexts(event.args.requestId);
+      expect(request.processed).to.eq(true);
+
+      await expect(
+        contract.statisticsCallback.staticCall(event.args.requestId, event.args.cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+    });
+  });
+
+  describe("privacy thresholds", function () {
+    beforeEach(async function () {
+      await (await contract.addProvider(signers.bob.address)).wait();
+    });
+
+    it("lets only the owner set consistent thresholds", async function () {
+      expect(await contract.minBatchPoints()).to.eq(1);
+      expect(await contract.minBatchProviders()).to.eq(1);
+      await expect(contract.connect(signers.alice).setPrivacyThresholds.staticCall(4, 2)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.setPrivacyThresholds.staticCall(4, 0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(contract.setPrivacyThresholds.staticCall(1, 2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+
+      await expect(contract.setPrivacyThresholds(4, 2)).to.emit(contract, "PrivacyThresholdsSet").withArgs(4, 2);
+      expect(await contract.minBatchPoints()).to.eq(4);
+      expect(await contract.minBatchProviders()).to.eq(2);
+    });
+
+    it("counts each provider of a batch once", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await submitPoints(signers.alice, 1, [1, 2]);
+      await submitPoints(signers.alice, 1, [3]);
+      expect(await contract.providerCount(1)).to.eq(1);
+
+      await submitPoints(signers.bob, 1, [4]);
+      expect(await contract.providerCount(1)).to.eq(2);
+    });
+
+    it("refuses to decrypt batches below either threshold", async function () {
+      await (await contract.setPrivacyThresholds(4, 2)).wait();
+      // Enough points, but from one provider.
+      const batchId = await closedBatchWith([1, 2, 3, 4]);
+      expect(await contract.meetsPrivacyThresholds(batchId)).to.eq(false);
+
+      const alice = contract.connect(signers.alice);
+      await expect(alice.requestDiscovery.staticCall(batchId)).to.be.revertedWithCustomError(contract, "BatchTooSmall");
+      await expect(
+        alice.requestStatistics.staticCall(batchId, toStatsMask(["mean"]), []),
+      ).to.be.revertedWithCustomError(contract, "BatchTooSmall");
+      await expect(alice.requestThresholdQuery.staticCall(batchId, 0, 2, 0)).to.be.revertedWithCustomError(
+        contract,
+        "BatchTooSmall",
+      );
+
+      // Two providers, but too few points.
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await submitPoints(signers.alice, 2, [1, 2]);
+      await submitPoints(signers.bob, 2, [3]);
+      await (await contract.closeBatch(2)).wait();
+      await expect(alice.requestDiscovery.staticCall(2)).to.be.revertedWithCustomError(contract, "BatchTooSmall");
+    });
+
+    it("decrypts a batch once enough providers contributed enough points", async function () {
+      await (await contract.setPrivacyThresholds(4, 2)).wait();
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await submitPoints(signers.alice, 1, [10, 20]);
+      await submitPoints(signers.bob, 1, [30, 40]);
+      await (await contract.closeBatch(1)).wait();
+      expect(await contract.meetsPrivacyThresholds(1)).to.eq(true);
+
+      await expect(contract.connect(signers.alice).requestDiscovery(1)).to.emit(contract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+      const [event] = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      expect(event.args.result).to.eq(25000n);
+    });
+  });
+
+  describe("threshold queries", function () {
+    const discovery = () => contract.connect(signers.alice) as unknown as Contract;
+
+    async function countOf(builder: ThresholdQueryBuilder) {
+      const request = await builder.submit(discovery());
+      await fhevm.awaitDecryptionOracle();
+      return waitForQueryResult(discovery(), request, { pollIntervalMs: 10, timeoutMs: 1000 });
+    }
+
+    it("counts the points above, below and between plaintext thresholds", async function () {
+      const batchId = await closedBatchWith([4, 10, 1, 7, 3]);
+
+      const above = await countOf(queryBatch(batchId).above(4));
+      expect(above).to.deep.include({ batchId, kind: "above", lower: 4, count: 2 });
+      expect((await countOf(queryBatch(batchId).below(4))).count).to.eq(2);
+      // Both ends are included.
+      expect((await countOf(queryBatch(batchId).between(3, 7))).count).to.eq(3);
+      expect((await countOf(queryBatch(batchId).above(10))).count).to.eq(0);
+
+      const results = await getQueryResults(discovery());
+      expect(results.map((result) => [result.kind, result.count])).to.deep.eq([
+        ["above", 2],
+        ["below", 2],
+        ["between", 3],
+        ["above", 0],
+      ]);
+    });
+
+    it("keeps encrypted thresholds off-chain", async function () {
+      const batchId = await closedBatchWith([4, 10, 1, 7, 3]);
+
+      const builder = queryBatch(batchId).between(2, 8).encrypted(fhevm);
+      expect(builder.build()).to.deep.eq({ batchId, kind: "between", lower: 2, upper: 8, encrypted: true });
+      const result = await countOf(builder);
+      expect(result).to.deep.include({ kind: "between", lower: null, upper: null, count: 3 });
+
+      // An inverted range cannot be rejected without decrypting it, so it matches nothing.
+      const { handles, inputProof } = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(8)
+        .add32(2)
+        .encrypt();
+      await (
+        await contract
+          .connect(signers.alice)
+          .requestEncryptedThresholdQuery(batchId, 2, handles[0], handles[1], inputProof)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [, last] = await getQueryResults(discovery());
+      expect(last.count).to.eq(0);
+    });
+
+    it("rejects open and empty batches, invalid thresholds and replays", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(
+        contract.connect(signers.alice).requestThresholdQuery.staticCall(1, 0, 1, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await (await contract.closeBatch(1)).wait();
+      await expect(
+        contract.connect(signers.alice).requestThresholdQuery.staticCall(1, 0, 1, 0),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      const batchId = await closedBatchWith([2, 2]);
+      await expect(
+        contract.connect(signers.alice).requestThresholdQuery.staticCall(batchId, 2, 5, 4),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract.connect(signers.bob).requestThresholdQuery.staticCall(batchId, 0, 1, 0),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+      expect(() => queryBatch(batchId).between(5, 4)).to.throw("inverted");
+      expect(() => queryBatch(batchId).above(-1)).to.throw("uint32");
+      expect(() => queryBatch(batchId).build()).to.throw("above, below or between");
+
+      const { requestId } = await countOf(queryBatch(batchId).above(1));
+      expect((await contract.queryContexts(requestId)).processed).to.eq(true);
+      const [event] = await contract.queryFilter(contract.filters.QueryCompleted(requestId));
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [event.args.count]);
+      await expect(contract.queryCallback.staticCall(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "ReplayDetected",
+      );
+    });
+  });
+
+  describe("paired batches", function () {
+    const X = {
+      category: "Genomics",
+      units: "TPM",
+      fields: [{ name: "expression" }],
+      maxPointsPerProvider: 0,
+      closesAt: 0,
+    };
+    const Y = {
+      category: "Medicine",
+      units: "score",
+      fields: [{ name: "phenotype" }],
+      maxPointsPerProvider: 0,
+      closesAt: 0,
+    };
+    const discovery = (signer: HardhatEthersSigner) => contract.connect(signer) as unknown as Contract;
+
+    it("accepts points only in lockstep and closes both batches together", async function () {
+      const [x, y] = await openPairedBatches(discovery(signers.deployer), X, Y);
+      expect([x, y]).to.deep.eq([1, 2]);
+      expect(await contract.pairedBatch(x)).to.eq(y);
+      expect(await contract.pairedBatch(y)).to.eq(x);
+
+      const { handles, inputProof } = await encryptPoints(signers.alice, [1, 2, 3]);
+      await expect(
+        contract.connect(signers.alice).submitData.staticCall(x, handles, inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitPairedData.staticCall(x, handles.slice(0, 2), handles.slice(2), inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitPairedData.staticCall(3, handles.slice(0, 1), handles.slice(1, 2), inputProof),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+
+      // The most pairs the coprocessor's per-transaction limit allows, sent through the paired batch.
+      const pairs = Array.from({ length: MAX_PAIRS_PER_SUBMISSION }, (_, i): [number, number] => [i, 10 * i]);
+      await submitPairedPoints(discovery(signers.alice), fhevm, y, pairs);
+      expect(await contract.getBatchSize(x)).to.eq(MAX_PAIRS_PER_SUBMISSION);
+      expect(await contract.getBatchSize(y)).to.eq(MAX_PAIRS_PER_SUBMISSION);
+      await expect(submitPairedPoints(discovery(signers.alice), fhevm, x, [...pairs, [1, 1]])).to.be.rejectedWith(
+        "pairs fit",
+      );
+
+      await expect(contract.closeBatch(x)).to.emit(contract, "BatchClosed").withArgs(y);
+      expect(await contract.isBatchOpen(y)).to.eq(false);
+      await expect(
+        openPairedBatches(discovery(signers.deployer), X, { ...Y, closesAt: (await time.latest()) + 3600 }),
+      ).to.be.rejectedWith("same deadline");
+    });
+
+    it("decrypts the sums of a pair and computes Pearson's r and the covariance", async function () {
+      const [x, y] = await openPairedBatches(discovery(signers.deployer), X, Y);
+      const xs = [1, 2, 3, 4, 5];
+      const ys = [2, 4, 5, 4, 5];
+      await submitPairedPoints(
+        discovery(signers.alice),
+        fhevm,
+        x,
+        xs.map((value, i) => [value, ys[i]]),
+      );
+      await (await contract.closeBatch(x)).wait();
+
+      const request = await requestCorrelation(discovery(signers.alice), x);
+      expect(request).to.deep.include({ batchId: x, pairedBatchId: y });
+      await fhevm.awaitDecryptionOracle();
+      const { sums, correlation } = await waitForCorrelation(discovery(signers.alice), request, {
+        pollIntervalMs: 10,
+        timeoutMs: 1000,
+      });
+
+      expect(sums).to.deep.eq({
+        count: 5,
+        sumX: 15n,
+        sumY: 20n,
+        sumXY: 66n,
+        sumXX: 55n,
+        sumYY: 86n,
+        overflowed: false,
+      });
+      expect(correlation!.r).to.be.closeTo(linearFit(xs, ys).r, 1e-12);
+      expect(correlation!.r).to.be.closeTo(0.7746, 1e-4);
+      expect(correlation!.covariance).to.eq(1.5);
+      expect(correlation!.pValue).to.be.within(0.05, 0.5);
+      expect(await getCorrelationResults(discovery(signers.alice))).to.have.lengthOf(1);
+
+      const [event] = await contract.queryFilter(contract.filters.CorrelationCompleted(request.requestId));
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        [...Array(5).fill("uint256"), "bool"],
+        [sums.sumX, sums.sumY, sums.sumXY, sums.sumXX, sums.sumYY, sums.overflowed],
+      );
+      expect(event.args.count).to.eq(5);
+      await expect(
+        contract.correlationCallback.staticCall(request.requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayDetected");
+    });
+
+    it("refuses correlations of unpaired or open batches", async function () {
+      const batchId = await closedBatchWith([1, 2]);
+      await expect(
+        contract.connect(signers.alice).requestCorrelation.staticCall(batchId),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatch");
+      const [x] = await openPairedBatches(discovery(signers.deployer), X, Y);
+      await expect(contract.connect(signers.alice).requestCorrelation.staticCall(x)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+
+      const sums = { count: 3, sumX: 6n, sumY: 9n, sumXY: 18n, sumXX: 14n, sumYY: 27n, overflowed: false };
+      const constant = computeCorrelation(sums);
+      expect(constant.r).to.be.NaN;
+      expect(constant.pValue).to.eq(1);
+      expect(() => computeCorrelation({ ...sums, overflowed: true })).to.throw("overflowed");
+    });
+
+    it("flags sums of products that wrap around instead of computing r", async function () {
+      const [x] = await openPairedBatches(discovery(signers.deployer), X, Y);
+      await submitPairedPoints(discovery(signers.alice), fhevm, x, [
+        [4_000_000_000, 1],
+        [4_000_000_000, 2],
+      ]);
+      await (await contract.closeBatch(x)).wait();
+
+      const request = await requestCorrelation(discovery(signers.alice), x);
+      await fhevm.awaitDecryptionOracle();
+      const { sums, correlation } = await waitForCorrelation(discovery(signers.alice), request, {
+        pollIntervalMs: 10,
+        timeoutMs: 1000,
+      });
+      // Σx² = 3.2e19 wraps, while Σx and Σxy still fit.
+      expect(sums).to.deep.include({ sumX: 8_000_000_000n, sumXY: 12_000_000_000n, overflowed: true });
+      expect(correlation).to.eq(undefined);
+    });
+  });
+
+  describe("gas benchmark", function () {
+    const BATCH_SIZES = [1, 8, 32];
+
+    it("keeps the callback cost independent of the batch size", async function () {
+      const rows: {
+        batchSize: number;
+        requestDiscovery: bigint;
+        myCallback: bigint;
+        requestStatistics: bigint;
+        statisticsCallback: bigint;
+      }[] = [];
+      const statsMask = toStatsMask(["mean"]);
+      for (const batchSize of BATCH_SIZES) {
+        const batchId = await closedBatchWith(Array.from({ length: batchSize }, (_, i) => i + 1));
+        const request = await (await contract.connect(signers.alice).requestDiscovery(batchId)).wait();
+        await fhevm.awaitDecryptionOracle();
+        const statistics = await (
+          await contract.connect(signers.alice).requestStatistics(batchId, statsMask, [])
+        ).wait();
+        await fhevm.awaitDecryptionOracle();
+
+        const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, batchId));
+        const [statisticsCompleted] = await contract.queryFilter(
+          contract.filters.StatisticsCompleted(undefined, batchId),
+        );
+        rows.push({
+          batchSize,
+          requestDiscovery: request!.gasUsed,
+          myCallback: (await completed.getTransactionReceipt()).gasUsed,
+          requestStatistics: statistics!.gasUsed,
+          statisticsCallback: (await statisticsCompleted.getTransactionReceipt()).gasUsed,
+        });
+      }
+      console.table(rows);
+
+      // The aggregation loops are only paid once, when the decryption is requested.
+      expect(rows[rows.length - 1].requestDiscovery).to.be.greaterThan(rows[0].requestDiscovery);
+      expect(rows[rows.length - 1].requestStatistics).to.be.greaterThan(rows[0].requestStatistics);
+      const spread = (gas: bigint[]) => gas.reduce((a, b) => (a > b ? a : b)) - gas.reduce((a, b) => (a < b ? a : b));
+      expect(spread(rows.map((row) => row.myCallback))).to.be.lessThan(5_000n);
+      expect(spread(rows.map((row) => row.statisticsCallback))).to.be.lessThan(5_000n);
+    });
+  });
+
+  describe("differential privacy", function () {
+    const discovery = (signer: HardhatEthersSigner) => contract.connect(signer) as unknown as Contract;
+    // Points up to 100, epsilon 1 per average, two averages in total.
+    const PRIVACY = { maxValue: 100, epsilon: 1, budget: 2 };
+
+    async function noisyBatchWith(values: number[]) {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      const batchId = Number(await contract.currentBatchId());
+      await setDifferentialPrivacy(discovery(signers.deployer), batchId, PRIVACY);
+      await submitPoints(signers.alice, batchId, values);
+      await (await contract.closeBatch(batchId)).wait();
+      return batchId;
+    }
+
+    async function decryptAverage(batchId: number) {
+      await (await contract.connect(signers.alice).requestDiscovery(batchId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      const events = await contract.queryFilter(contract.filters.DecryptionCompleted(undefined, batchId));
+      return events[events.length - 1].args;
+    }
+
+    it("is set by the owner on open batches before any point is submitted", async function () {
+      await (await contract.openBatch(DESCRIPTOR)).wait();
+      await expect(
+        contract.connect(signers.alice).setDifferentialPrivacy.staticCall(1, 100, 1000, 2000),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      for (const [maxValue, epsilon, budget] of [
+        [0, 1000, 2000],
+        [100, 0, 2000],
+        [100, 1000, 999],
+      ]) {
+        await expect(
+          contract.setDifferentialPrivacy.staticCall(1, maxValue, epsilon, budget),
+        ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      }
+      await expect(contract.setDifferentialPrivacy(1, 100, 1000, 2000))
+        .to.emit(contract, "DifferentialPrivacySet")
+        .withArgs(1, 100, 1000, 2000);
+
+      await submitPoints(signers.alice, 1, [4]);
+      await expect(contract.setDifferentialPrivacy.staticCall(1, 100, 1000, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+      await expect(
+        setDifferentialPrivacy(discovery(signers.deployer), 1, { ...PRIVACY, budget: 0.5 }),
+      ).to.be.rejectedWith("at least one request");
+    });
+
+    it("is refused for paired batches, whose correlations are decrypted exactly", async function () {
+      await (
+        await contract.openPairedBatches({ ...DESCRIPTOR, category: "X" }, { ...DESCRIPTOR, category: "Y" })
+      ).wait();
+      await expect(contract.setDifferentialPrivacy.staticCall(1, 100, 1000, 2000)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatch",
+      );
+    });
+
+    it("clips points and adds noise in steps of the Laplace scale times ln 2", async function () {
+      // 250 is clipped to 100, so the exact average is 40.
+      const batchId = await noisyBatchWith([10, 20, 30, 250]);
+      const { requestId, result, scale, overflowed } = await decryptAverage(batchId);
+      expect(overflowed).to.eq(false);
+
+      // One point moves the average by at most 100 / 4 = 25, so b = 25 at epsilon 1.
+      const added = (await getAddedNoise(discovery(signers.alice))).get(requestId)!;
+      expect(added.epsilon).to.eq(1000n);
+      expect(added.noiseScale).to.eq(25_001n);
+      const step = (added.noiseScale * 693_147n) / 1_000_000n + 1n;
+      const noise = result - 40_000n;
+      if (result !== 0n) expect(noise % step).to.eq(0n);
+      expect(noise <= 16n * step && noise >= -16n * step).to.eq(true);
+
+      const description = toDiscoveryNoise(added.epsilon, added.noiseScale, scale);
+      expect(description).to.deep.include({ epsilon: 1, noiseScale: "25.001" });
+      expect(description.standardDeviation).to.be.closeTo(25.001 * Math.SQRT2, 1e-9);
+      expect(noiseMargin(description)).to.be.closeTo(25.001 * Math.log(20), 1e-9);
+    });
+
+    it("spends the budget and then refuses further averages", async function () {
+      const batchId = await noisyBatchWith([10, 20, 30, 40]);
+      await decryptAverage(batchId);
+      expect(await getPrivacyBudget(discovery(signers.alice), batchId)).to.deep.eq({
+        maxValue: 100,
+        epsilon: 1,
+        budget: 2,
+        spent: 1,
+        remaining: 1,
+        requestsLeft: 1,
+      });
+      await decryptAverage(batchId);
+
+      await expect(contract.connect(signers.alice).requestDiscovery.staticCall(batchId)).to.be.revertedWithCustomError(
+        contract,
+        "PrivacyBudgetExhausted",
+      );
+      expect((await getPrivacyBudget(discovery(signers.alice), batchId))?.requestsLeft).to.eq(0);
+    });
+
+    it("refuses exact statistics and queries", async function () {
+      const batchId = await noisyBatchWith([10, 20, 30, 40]);
+      const alice = contract.connect(signers.alice);
+      await expect(
+        alice.requestStatistics.staticCall(batchId, toStatsMask(["mean"]), []),
+      ).to.be.revertedWithCustomError(contract, "DifferentialPrivacyEnabled");
+      await expect(alice.requestThresholdQuery.staticCall(batchId, 0, 15, 0)).to.be.revertedWithCustomError(
+        contract,
+        "DifferentialPrivacyEnabled",
+      );
+    });
+
+    it("leaves batches without it exact", async function () {
+      const batchId = await closedBatchWith([10, 20, 30, 40]);
+      expect(await getPrivacyBudget(discovery(signers.alice), batchId)).to.eq(undefined);
+      const { requestId, result } = await decryptAverage(batchId);
+      expect(result).to.eq(25_000n);
+      expect((await getAddedNoise(discovery(signers.alice))).has(requestId)).to.eq(false);
+    });
+  });
+});
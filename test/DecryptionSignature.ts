@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  createMemoryStorage,
+  loadDecryptionSignature,
+  loadOrSignDecryptionSignature,
+  SignatureStorage,
+  userDecryptHandles,
+} from "../frontend/web/src/decryptionSignature";
+import type { FhevmBackend, TypedDataSigner } from "../frontend/web/src/fhe";
+
+const USER = "0x00000000000000000000000000000000000000AA";
+const CONTRACT_A = "0x000000000000000000000000000000000000000A";
+const CONTRACT_B = "0x000000000000000000000000000000000000000B";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/// A wallet that counts how often the user would be prompted.
+class FakeSigner implements TypedDataSigner {
+  prompts = 0;
+
+  async getAddress() {
+    return USER;
+  }
+
+  async signTypedData() {
+    this.prompts++;
+    return ethers.toBeHex(this.prompts, 65);
+  }
+}
+
+// Only the key generation and EIP-712 parts of the relayer-sdk instance are needed to sign.
+function fakeBackend(decrypted: Record<string, bigint | boolean> = {}) {
+  let keypairs = 0;
+  const backend = {
+    eip712Contracts: [] as string[][],
+    generateKeypair: () => {
+      keypairs++;
+      return { publicKey: `public-${keypairs}`, privateKey: `private-${keypairs}` };
+    },
+    createEIP712: (_publicKey: string, contractAddresses: string[]) => {
+      backend.eip712Contracts.push(contractAddresses);
+      return { domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} };
+    },
+    userDecrypt: async () => decrypted,
+  };
+  return backend;
+}
+
+describe("decryptionSignature", function () {
+  let storage: SignatureStorage;
+  let signer: FakeSigner;
+  let backend: ReturnType<typeof fakeBackend>;
+
+  const load = (contracts: string[], durationDays = 1) =>
+    loadOrSignDecryptionSignature(backend as unknown as FhevmBackend, signer, contracts, durationDays, storage);
+
+  /// Runs `fn` as if `ms` milliseconds had passed.
+  async function later<T>(ms: number, fn: () => Promise<T>): Promise<T> {
+    const now = Date.now;
+    Date.now = () => now() + ms;
+    try {
+      return await fn();
+    } finally {
+      Date.now = now;
+    }
+  }
+
+  beforeEach(function () {
+    storage = createMemoryStorage();
+    signer = new FakeSigner();
+    backend = fakeBackend();
+  });
+
+  it("signs once and reuses the cached signature for the same contracts", async function () {
+    const first = await load([CONTRACT_A, CONTRACT_B]);
+    // Order and case of the addresses do not matter.
+    const second = await load([CONTRACT_B.toLowerCase(), CONTRACT_A]);
+
+    expect(signer.prompts).to.eq(1);
+    expect(second).to.deep.eq(first);
+    expect(first.userAddress).to.eq(USER);
+    expect(first.contractAddresses).to.deep.eq([CONTRACT_A.toLowerCase(), CONTRACT_B.toLowerCase()]);
+    expect(backend.eip712Contracts).to.deep.eq([first.contractAddresses]);
+  });
+
+  it("asks for a new signature once the cached one expired", async function () {
+    const first = await load([CONTRACT_A], 1);
+    expect(await later(DAY_MS - 60_000, () => load([CONTRACT_A], 1))).to.deep.eq(first);
+
+    const renewed = await later(DAY_MS, () => load([CONTRACT_A], 1));
+    expect(signer.prompts).to.eq(2);
+    expect(renewed.publicKey).to.not.eq(first.publicKey);
+    expect(renewed.startTimestamp).to.be.greaterThan(first.startTimestamp);
+  });
+
+  it("asks for a new signature when the contract set changes", async function () {
+    const single = await load([CONTRACT_A]);
+    const both = await load([CONTRACT_A, CONTRACT_B]);
+
+    expect(signer.prompts).to.eq(2);
+    expect(both.contractAddresses).to.have.lengthOf(2);
+    // Each contract set keeps its own entry.
+    expect(loadDecryptionSignature(storage, USER, [CONTRACT_A])).to.deep.eq(single);
+    expect(loadDecryptionSignature(storage, USER, [CONTRACT_A, CONTRACT_B])).to.deep.eq(both);
+  });
+
+  it("returns decrypted values as bigints keyed by lowercase handle", async function () {
+    backend = fakeBackend({ "0xABCD": 42n, "0xEF01": true });
+    const signature = await load([CONTRACT_A]);
+    const values = await userDecryptHandles(backend as unknown as FhevmBackend, signature, []);
+    expect(values).to.deep.eq({ "0xabcd": 42n, "0xef01": 1n });
+  });
+});
@@ -0,0 +1,190 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { encryptKeystoreJson, keccak256, Provider, Wallet } from "ethers";
+import fs from "fs";
+import { deployments, ethers } from "hardhat";
+import os from "os";
+import path from "path";
+import { loadDeployer, namedAccountFor } from "../src/deployer";
+import { readDeployment, readDeployments, toDeploymentRecord } from "../src/deployments";
+import { cleanGenerated } from "../tasks/cleanup";
+
+describe("deployer", function () {
+  let signers: HardhatEthersSigner[];
+  let dir: string;
+
+  const provider = () => ethers.provider as unknown as Provider;
+
+  before(async function () {
+    signers = await ethers.getSigners();
+  });
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function writeKeystore(wallet: { address: string; privateKey: string }, password: string) {
+    // A cheap scrypt setting keeps the test fast; real keystores use the default.
+    const json = await encryptKeystoreJson(wallet, password, { scrypt: { N: 1 << 10 } });
+    const file = path.join(dir, "keystore.json");
+    fs.writeFileSync(file, json);
+    return file;
+  }
+
+  it("unlocks an encrypted keystore first", async function () {
+    const wallet = Wallet.createRandom();
+    const keystore = await writeKeystore(wallet, "secret");
+    const env = { DEPLOYER_KEYSTORE: keystore, DEPLOYER_PRIVATE_KEY: Wallet.createRandom().privateKey };
+
+    const fromEnvPassword = await loadDeployer(provider(), { env: { ...env, DEPLOYER_KEYSTORE_PASSWORD: "secret" } });
+    expect(fromEnvPassword).to.deep.include({ address: wallet.address, source: "keystore" });
+
+    const prompts: string[] = [];
+    const askPassword = async (prompt: string) => {
+      prompts.push(prompt);
+      return "secret";
+    };
+    const prompted = await loadDeployer(provider(), { env, askPassword });
+    expect(prompted.address).to.eq(wallet.address);
+    expect(prompts).to.have.lengthOf(1);
+
+    // An empty password variable prompts instead of trying the empty password.
+    const blank = await loadDeployer(provider(), { env: { ...env, DEPLOYER_KEYSTORE_PASSWORD: "" }, askPassword });
+    expect(blank.address).to.eq(wallet.address);
+    expect(prompts).to.have.lengthOf(2);
+
+    let error: Error | undefined;
+    await loadDeployer(provider(), { env: { ...env, DEPLOYER_KEYSTORE_PASSWORD: "wrong" } }).catch((e) => (error = e));
+    expect(error?.message).to.match(/password/i);
+  });
+
+  it("falls back to DEPLOYER_PRIVATE_KEY, then to the hardhat accounts", async function () {
+    const wallet = Wallet.createRandom();
+    const hardhatSigners = async () => signers;
+
+    const fromEnv = await loadDeployer(provider(), {
+      env: { DEPLOYER_PRIVATE_KEY: wallet.privateKey },
+      hardhatSigners,
+    });
+    expect(fromEnv).to.deep.include({ address: wallet.address, source: "env" });
+    expect(fromEnv.signer.provider).to.eq(provider());
+
+    const fromHardhat = await loadDeployer(provider(), { env: {}, hardhatSigners });
+    expect(fromHardhat).to.deep.include({ address: signers[0].address, source: "hardhat" });
+
+    let error: Error | undefined;
+    await loadDeployer(provider(), { env: {} }).catch((e) => (error = e));
+    expect(error?.message).to.contain("No deployer account");
+  });
+
+  it("names keystore and private key deployers for hardhat-deploy", async function () {
+    const wallet = Wallet.createRandom();
+    const fromEnv = await loadDeployer(provider(), { env: { DEPLOYER_PRIVATE_KEY: wallet.privateKey } });
+    expect(namedAccountFor(fromEnv)).to.eq(`privatekey://${wallet.privateKey}`);
+
+    const fromHardhat = await loadDeployer(provider(), { env: {}, hardhatSigners: async () => signers });
+    expect(namedAccountFor(fromHardhat)).to.eq(undefined);
+  });
+
+  it("deploys each contract by tag and does not redeploy it unchanged", async function () {
+    await deployments.fixture(["AIDiscoveryFHE"]);
+    const discovery = await deployments.get("AIDiscoveryFHE");
+    expect(await deployments.getOrNull("DiscoveryRegistry")).to.eq(undefined);
+    expect((await deployments.read("AIDiscoveryFHE", "cooldownSeconds")).toString()).to.eq("60");
+    expect((await deployments.read("AIDiscoveryFHE", "minBatchPoints")).toString()).to.eq("10");
+    expect((await deployments.read("AIDiscoveryFHE", "minBatchProviders")).toString()).to.eq("3");
+
+    const blockNumber = await ethers.provider.getBlockNumber();
+    await deployments.run(["AIDiscoveryFHE"], { resetMemory: false, writeDeploymentsToFiles: false });
+    expect((await deployments.get("AIDiscoveryFHE")).address).to.eq(discovery.address);
+    expect(await ethers.provider.getBlockNumber()).to.eq(blockNumber);
+  });
+
+  it("reads the deployments hardhat-deploy saved per network", async function () {
+    await deployments.fixture(["DiscoveryRegistry"]);
+    const deployment = await deployments.get("DiscoveryRegistry");
+    fs.mkdirSync(path.join(dir, "localhost"));
+    fs.writeFileSync(path.join(dir, "localhost", ".chainId"), "31337");
+    fs.writeFileSync(path.join(dir, "localhost", "DiscoveryRegistry.json"), JSON.stringify(deployment));
+
+    const record = readDeployment("localhost", "DiscoveryRegistry", dir);
+    expect(record).to.deep.eq({
+      contractName: "DiscoveryRegistry",
+      address: deployment.address,
+      transactionHash: deployment.transactionHash,
+      blockNumber: deployment.receipt!.blockNumber,
+      chainId: 31337,
+      deployer: signers[0].address,
+      args: [],
+      bytecodeHash: keccak256(await ethers.provider.getCode(deployment.address)),
+    });
+    expect(toDeploymentRecord("DiscoveryRegistry", deployment, 31337)).to.deep.eq(record);
+    expect(Object.keys(readDeployments("localhost", dir))).to.deep.eq(["DiscoveryRegistry"]);
+    expect(readDeployments("sepolia", dir)).to.deep.eq({});
+  });
+
+  function writeGenerated(relative: string) {
+    fs.mkdirSync(path.dirname(path.join(dir, relative)), { recursive: true });
+    fs.writeFileSync(path.join(dir, relative), "// Auto-generated file");
+  }
+
+  it("removes what .diffcache lists, wherever it was generated", async function () {
+    ["shared.jsx", "decorator/fragments.json", "frontend/web/src/simple.css", "frontend/web/src/kept/notes.md"].forEach(
+      writeGenerated,
+    );
+    writeGenerated("frontend/web/src/kept/other.md");
+    const root = "D:\\MyCode\\zama\\demo";
+    const listed = [
+      "shared.jsx",
+      "decorator",
+      "decorator\\fragments.json",
+      "frontend\\web\\src\\simple.css",
+      "frontend\\web\\src\\kept",
+      "frontend\\web\\src\\kept\\notes.md",
+    ];
+    fs.writeFileSync(path.join(dir, ".diffcache"), JSON.stringify(listed.map((p) => `${root}\\${p}`)));
+
+    const preview = cleanGenerated(dir, true);
+    expect(preview.removed).to.have.lengthOf(5);
+    expect(fs.existsSync(path.join(dir, "shared.jsx"))).to.eq(true);
+
+    const report = cleanGenerated(dir);
+    expect(report.removed.map((p) => path.relative(dir, p)).sort()).to.deep.eq(
+      [
+        "decorator",
+        "decorator/fragments.json",
+        "frontend/web/src/kept/notes.md",
+        "frontend/web/src/simple.css",
+        "shared.jsx",
+      ].map(path.normalize),
+    );
+    expect(report.kept.map((p) => path.relative(dir, p))).to.deep.eq([path.join("frontend", "web", "src", "kept")]);
+    expect(report.unanchored).to.deep.eq([]);
+    expect(fs.readdirSync(dir).sort()).to.deep.eq(["frontend"]);
+    expect(fs.readdirSync(path.join(dir, "frontend", "web", "src", "kept"))).to.deep.eq(["other.md"]);
+  });
+
+  it("leaves alone what .diffcache lists outside the project", async function () {
+    ["simple.css", "shared.jsx", "notes.md", "frontend/web/src/simple.css"].forEach(writeGenerated);
+    const listed = [
+      // Must not be mistaken for ./simple.css.
+      "D:\\MyCode\\zama\\demo\\frontend\\web\\src\\simple.css",
+      // Anchored by the name of the project folder.
+      `/home/dev/${path.basename(dir)}/shared.jsx`,
+      "C:\\Users\\dev\\notes.md",
+    ];
+    fs.writeFileSync(path.join(dir, ".diffcache"), JSON.stringify(listed));
+
+    const report = cleanGenerated(dir);
+    expect(report.removed.map((p) => path.relative(dir, p)).sort()).to.deep.eq([
+      path.join("frontend", "web", "src", "simple.css"),
+      "shared.jsx",
+    ]);
+    expect(report.unanchored).to.deep.eq(["C:\\Users\\dev\\notes.md"]);
+    expect(fs.readdirSync(dir).sort()).to.deep.eq([".diffcache", "frontend", "notes.md", "simple.css"]);
+  });
+});
@@ -0,0 +1,263 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import type { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  canReview,
+  getDiscoveryPage,
+  getReviewerRole,
+  listDiscoveries,
+  setDiscoveryStatus,
+  submitDiscovery,
+} from "../frontend/web/src/registry";
+import { DiscoveryRegistry, DiscoveryRegistry__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// Mirrors DiscoveryRegistry.Status.
+const Status = { Pending: 0, Verified: 1, Rejected: 2 };
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("DiscoveryRegistry")) as DiscoveryRegistry__factory;
+  const registry = (await factory.deploy()) as DiscoveryRegistry;
+  const registryAddress = await registry.getAddress();
+  return { registry, registryAddress };
+}
+
+describe("DiscoveryRegistry", function () {
+  let signers: Signers;
+  let registry: DiscoveryRegistry;
+  let registryAddress: string;
+
+  async function encryptValue(researcher: HardhatEthersSigner, value: number) {
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(registryAddress, researcher.address)
+      .add32(value)
+      .encrypt();
+    return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+  }
+
+  async function submit(researcher: HardhatEthersSigner, category: string, value: number, hypothesis: string) {
+    const { handle, inputProof } = await encryptValue(researcher, value);
+    return (await registry.connect(researcher).submitDiscovery(category, handle, inputProof, hypothesis)).wait();
+  }
+
+  // The frontend data layer takes plain ethers contracts.
+  const asContract = (signer?: HardhatEthersSigner) =>
+    (signer ? registry.connect(signer) : registry) as unknown as Contract;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ registry, registryAddress } = await deployFixture());
+  });
+
+  describe("submitDiscovery", function () {
+    it("stores typed fields and emits the hypothesis", async function () {
+      const hypothesis = "New protein folding pattern discovered";
+      const { handle, inputProof } = await encryptValue(signers.alice, 4250);
+      await expect(registry.connect(signers.alice).submitDiscovery("Genomics", handle, inputProof, hypothesis))
+        .to.emit(registry, "DiscoverySubmitted")
+        .withArgs(1, signers.alice.address, "Genomics", anyValue, ethers.id(hypothesis), hypothesis);
+
+      const discovery = await registry.getDiscovery(1);
+      const [event] = await registry.queryFilter(registry.filters.DiscoverySubmitted(1));
+      expect(event.args.value).to.eq(discovery.value);
+      expect(discovery.owner).to.eq(signers.alice.address);
+      expect(discovery.category).to.eq("Genomics");
+      expect(discovery.status).to.eq(Status.Pending);
+      expect(discovery.hypothesisHash).to.eq(ethers.id(hypothesis));
+      expect(await registry.discoveryCount()).to.eq(1);
+    });
+
+    it("lets the submitter decrypt the value", async function () {
+      await submit(signers.alice, "Astrophysics", 1234, "Dark matter distribution anomaly");
+      const { value } = await registry.getDiscovery(1);
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint32, value, registryAddress, signers.alice);
+      expect(clear).to.eq(1234n);
+    });
+
+    it("keeps the submissions of several researchers apart", async function () {
+      await submit(signers.alice, "Genomics", 1, "first");
+      await submit(signers.bob, "Neuroscience", 2, "second");
+      await submit(signers.alice, "Genomics", 3, "third");
+
+      expect(await registry.discoveryCount()).to.eq(3);
+      expect(await registry.getDiscoveryCountByOwner(signers.alice.address)).to.eq(2);
+      expect(await registry.getDiscoveryIdsByOwner(signers.alice.address, 0, 10)).to.deep.eq([1n, 3n]);
+      expect(await registry.getDiscoveryIdsByOwner(signers.bob.address, 0, 10)).to.deep.eq([2n]);
+    });
+
+    it("rejects a missing category or hypothesis", async function () {
+      const { handle, inputProof } = await encryptValue(signers.alice, 1);
+      await expect(
+        registry.connect(signers.alice).submitDiscovery.staticCall("", handle, inputProof, "hypothesis"),
+      ).to.be.revertedWithCustomError(registry, "InvalidParameter");
+      await expect(
+        registry.connect(signers.alice).submitDiscovery.staticCall("Genomics", handle, inputProof, ""),
+      ).to.be.revertedWithCustomError(registry, "InvalidParameter");
+    });
+  });
+
+  describe("reviewers", function () {
+    it("lets only the owner manage reviewers", async function () {
+      await expect(
+        registry.connect(signers.alice).addReviewer.staticCall(signers.bob.address),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+      await expect(
+        registry.connect(signers.alice).addCategoryReviewer.staticCall("Genomics", signers.bob.address),
+      ).to.be.revertedWithCustomError(registry, "NotOwner");
+      await expect(registry.addCategoryReviewer.staticCall("", signers.bob.address)).to.be.revertedWithCustomError(
+        registry,
+        "InvalidParameter",
+      );
+
+      await expect(registry.addReviewer(signers.bob.address))
+        .to.emit(registry, "ReviewerAdded")
+        .withArgs(signers.bob.address, "");
+      await expect(registry.addCategoryReviewer("Genomics", signers.carol.address))
+        .to.emit(registry, "ReviewerAdded")
+        .withArgs(signers.carol.address, "Genomics");
+      expect(await registry.isReviewer(signers.bob.address)).to.eq(true);
+      expect(await registry.isCategoryReviewer("Genomics", signers.carol.address)).to.eq(true);
+
+      await expect(registry.removeCategoryReviewer("Genomics", signers.carol.address))
+        .to.emit(registry, "ReviewerRemoved")
+        .withArgs(signers.carol.address, "Genomics");
+      await expect(
+        registry.removeCategoryReviewer.staticCall("Genomics", signers.carol.address),
+      ).to.be.revertedWithCustomError(registry, "InvalidParameter");
+    });
+
+    it("lets a reviewer settle a pending discovery once", async function () {
+      await (await registry.addReviewer(signers.bob.address)).wait();
+      await submit(signers.alice, "Genomics", 1, "hypothesis");
+      await expect(
+        registry.connect(signers.carol).setStatus.staticCall(1, Status.Verified),
+      ).to.be.revertedWithCustomError(registry, "NotReviewer");
+      await expect(registry.connect(signers.bob).setStatus.staticCall(1, Status.Pending)).to.be.revertedWithCustomError(
+        registry,
+        "InvalidStatus",
+      );
+
+      await expect(registry.connect(signers.bob).setStatus(1, Status.Verified))
+        .to.emit(registry, "DiscoveryStatusChanged")
+        .withArgs(1, Status.Verified, signers.bob.address);
+      await expect(
+        registry.connect(signers.bob).setStatus.staticCall(1, Status.Rejected),
+      ).to.be.revertedWithCustomError(registry, "InvalidStatus");
+    });
+
+    it("limits category reviewers to their category", async function () {
+      await (await registry.addCategoryReviewer("Genomics", signers.carol.address)).wait();
+      await submit(signers.alice, "Genomics", 1, "genomics hypothesis");
+      await submit(signers.alice, "Astrophysics", 2, "astrophysics hypothesis");
+
+      expect(await registry.canReview(1, signers.carol.address)).to.eq(true);
+      expect(await registry.canReview(2, signers.carol.address)).to.eq(false);
+      await expect(
+        registry.connect(signers.carol).setStatus.staticCall(2, Status.Rejected),
+      ).to.be.revertedWithCustomError(registry, "NotReviewer");
+      await expect(registry.connect(signers.carol).setStatus(1, Status.Rejected))
+        .to.emit(registry, "DiscoveryStatusChanged")
+        .withArgs(1, Status.Rejected, signers.carol.address);
+    });
+
+    it("does not let reviewers settle their own discoveries", async function () {
+      await (await registry.addReviewer(signers.alice.address)).wait();
+      await submit(signers.alice, "Genomics", 1, "hypothesis");
+      expect(await registry.canReview(1, signers.alice.address)).to.eq(false);
+      await expect(
+        registry.connect(signers.alice).setStatus.staticCall(1, Status.Verified),
+      ).to.be.revertedWithCustomError(registry, "SelfReview");
+    });
+
+    it("rejects unknown discoveries", async function () {
+      await expect(registry.setStatus.staticCall(1, Status.Verified)).to.be.revertedWithCustomError(
+        registry,
+        "UnknownDiscovery",
+      );
+      await expect(registry.getDiscovery(0)).to.be.revertedWithCustomError(registry, "UnknownDiscovery");
+    });
+  });
+
+  describe("pagination", function () {
+    it("pages through discoveries and bounds the page size", async function () {
+      for (let i = 0; i < 5; i++) await submit(signers.alice, "Genomics", i, `hypothesis ${i}`);
+
+      const [ids] = await registry.getDiscoveries(1, 3);
+      expect(ids).to.deep.eq([2n, 3n, 4n]);
+      const [tail] = await registry.getDiscoveries(4, 3);
+      expect(tail).to.deep.eq([5n]);
+      const [past] = await registry.getDiscoveries(5, 3);
+      expect(past).to.deep.eq([]);
+
+      const maxPageSize = await registry.MAX_PAGE_SIZE();
+      await expect(registry.getDiscoveries(0, 0)).to.be.revertedWithCustomError(registry, "InvalidParameter");
+      await expect(registry.getDiscoveries(0, maxPageSize + 1n)).to.be.revertedWithCustomError(
+        registry,
+        "InvalidParameter",
+      );
+    });
+  });
+
+  describe("registry.ts", function () {
+    it("submits, lists and settles discoveries", async function () {
+      const first = await encryptValue(signers.alice, 10);
+      const firstId = await submitDiscovery(asContract(signers.alice), {
+        category: "Genomics",
+        hypothesis: "Gene sequence X correlates with disease Y",
+        ...first,
+      });
+      const second = await encryptValue(signers.bob, 20);
+      await submitDiscovery(asContract(signers.bob), { category: "Astrophysics", hypothesis: "Exoplanet", ...second });
+      await (await registry.addCategoryReviewer("Genomics", signers.carol.address)).wait();
+      await setDiscoveryStatus(asContract(signers.carol), firstId, "verified");
+
+      // Newest first, read in pages of one to exercise the paging loop.
+      const discoveries = await listDiscoveries(asContract(), 1);
+      expect(discoveries.map((d) => d.id)).to.deep.eq([2, 1]);
+      expect(discoveries[1]).to.include({
+        owner: signers.alice.address,
+        category: "Genomics",
+        status: "verified",
+        hypothesis: "Gene sequence X correlates with disease Y",
+        encryptedValue: first.handle,
+      });
+      expect(discoveries[0]).to.include({ status: "pending", hypothesis: "Exoplanet" });
+
+      const [page] = await getDiscoveryPage(asContract(), 1, 10);
+      expect(page.id).to.eq(2);
+    });
+
+    it("resolves reviewer roles like the contract", async function () {
+      await (await registry.addCategoryReviewer("Astrophysics", signers.carol.address)).wait();
+      await submit(signers.alice, "Astrophysics", 1, "astrophysics hypothesis");
+      await submit(signers.carol, "Astrophysics", 2, "own hypothesis");
+      await submit(signers.alice, "Genomics", 3, "genomics hypothesis");
+
+      const role = await getReviewerRole(asContract(), signers.carol.address, ["Genomics", "Astrophysics"]);
+      expect(role).to.deep.eq({ isOwner: false, isReviewer: false, categories: ["Astrophysics"] });
+
+      for (const discovery of await listDiscoveries(asContract())) {
+        expect(canReview(role, signers.carol.address, discovery)).to.eq(
+          await registry.canReview(discovery.id, signers.carol.address),
+        );
+      }
+    });
+  });
+});
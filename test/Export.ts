@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre, { deployments } from "hardhat";
+import os from "os";
+import path from "path";
+import { exportContracts, VerifyRequest } from "../tasks/export";
+
+describe("discovery:export", function () {
+  let dir: string;
+  let outFile: string;
+
+  // Saves the fixture's deployments the way hardhat-deploy does for a live network.
+  async function saveDeployments(network: string, contractNames: string[]) {
+    fs.mkdirSync(path.join(dir, "deployments", network), { recursive: true });
+    fs.writeFileSync(path.join(dir, "deployments", network, ".chainId"), "31337");
+    for (const contractName of contractNames) {
+      const deployment = await deployments.get(contractName);
+      fs.writeFileSync(path.join(dir, "deployments", network, `${contractName}.json`), JSON.stringify(deployment));
+    }
+  }
+
+  const load = () => {
+    delete require.cache[require.resolve(outFile)];
+    return require(outFile);
+  };
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "export-"));
+    outFile = path.join(dir, "deployments.ts");
+    await deployments.fixture(["AIDiscoveryFHE", "DiscoveryRegistry"]);
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes every ABI and the saved addresses into one module", async function () {
+    await saveDeployments("localhost", ["AIDiscoveryFHE", "DiscoveryRegistry"]);
+    const report = await exportContracts(hre, { outFile, deploymentsDir: path.join(dir, "deployments") });
+    expect(report.written).to.eq(true);
+
+    const { CONTRACT_ABIS, DEPLOYMENTS } = load();
+    expect(Object.keys(CONTRACT_ABIS)).to.deep.eq(["UniversalAdapter", "AIDiscoveryFHE", "DiscoveryRegistry"]);
+    expect(CONTRACT_ABIS.AIDiscoveryFHE).to.deep.eq((await hre.artifacts.readArtifact("AIDiscoveryFHE")).abi);
+    const discovery = await deployments.get("AIDiscoveryFHE");
+    expect(DEPLOYMENTS.localhost.chainId).to.eq(31337);
+    expect(DEPLOYMENTS.localhost.contracts.AIDiscoveryFHE).to.deep.eq({
+      address: discovery.address,
+      blockNumber: discovery.receipt!.blockNumber,
+    });
+
+    const again = await exportContracts(hre, { outFile, deploymentsDir: path.join(dir, "deployments") });
+    expect(again).to.deep.include({ written: false, drift: [] });
+  });
+
+  it("fails the check on drift without writing", async function () {
+    await exportContracts(hre, { outFile, deploymentsDir: path.join(dir, "deployments") });
+    await exportContracts(hre, { outFile, check: true, deploymentsDir: path.join(dir, "deployments") });
+
+    const edited = fs.readFileSync(outFile, "utf-8").replace('"name": "addProvider"', '"name": "addDataProvider"');
+    fs.writeFileSync(outFile, edited);
+    await saveDeployments("localhost", ["DiscoveryRegistry"]);
+
+    let error: Error | undefined;
+    await exportContracts(hre, { outFile, check: true, deploymentsDir: path.join(dir, "deployments") }).catch(
+      (e) => (error = e),
+    );
+    expect(error?.message).to.contain("has drifted: AIDiscoveryFHE ABI, localhost addresses");
+    expect(fs.readFileSync(outFile, "utf-8")).to.eq(edited);
+  });
+
+  it("verifies the contracts deployed on the current network", async function () {
+    await saveDeployments(hre.network.name, ["AIDiscoveryFHE", "DiscoveryRegistry"]);
+    const requests: VerifyRequest[] = [];
+    const report = await exportContracts(hre, {
+      outFile,
+      deploymentsDir: path.join(dir, "deployments"),
+      verify: async (request) => void requests.push(request),
+    });
+
+    expect(report.verified).to.deep.eq(["AIDiscoveryFHE", "DiscoveryRegistry"]);
+    expect(requests[1]).to.deep.eq({
+      contractName: "DiscoveryRegistry",
+      address: (await deployments.get("DiscoveryRegistry")).address,
+      constructorArguments: [],
+    });
+    // The in-process network is not exported to the frontend.
+    expect(load().DEPLOYMENTS).to.deep.eq({});
+  });
+});
@@ -0,0 +1,66 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { createMemoryStorage } from "../frontend/web/src/decryptionSignature";
+import { decryptValue, encryptValues, fromEncryptable, FhevmBackend, toEncryptable } from "../frontend/web/src/fhe";
+import { DiscoveryRegistry, DiscoveryRegistry__factory } from "../types";
+
+describe("fhe", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let registry: DiscoveryRegistry;
+  let registryAddress: string;
+  // The plugin's mock runtime stands in for the relayer-sdk instance the app creates in the browser.
+  const backend = () => fhevm as unknown as FhevmBackend;
+
+  async function submit(researcher: HardhatEthersSigner, value: number) {
+    const { handles, inputProof } = await encryptValues(backend(), registryAddress, researcher.address, [
+      toEncryptable(value),
+    ]);
+    await (await registry.connect(researcher).submitDiscovery("Genomics", handles[0], inputProof, "Hypothesis")).wait();
+    return (await registry.getDiscovery(await registry.discoveryCount())).value;
+  }
+
+  before(async function () {
+    [, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    const factory = (await ethers.getContractFactory("DiscoveryRegistry")) as DiscoveryRegistry__factory;
+    registry = (await factory.deploy()) as DiscoveryRegistry;
+    registryAddress = await registry.getAddress();
+  });
+
+  it("encrypts inputs the contract accepts and decrypts them for the submitter", async function () {
+    const handle = await submit(alice, 12.34);
+
+    const clear = await decryptValue(backend(), alice, handle, registryAddress, { storage: createMemoryStorage() });
+    expect(clear).to.eq(1234n);
+    expect(fromEncryptable(clear)).to.eq(12.34);
+  });
+
+  it("encrypts several values with one input proof", async function () {
+    const { handles, inputProof } = await encryptValues(backend(), registryAddress, alice.address, [1, 2n, 3]);
+    expect(handles).to.have.lengthOf(3);
+    handles.forEach((handle) => expect(ethers.isHexString(handle, 32)).to.eq(true));
+    expect(ethers.isHexString(inputProof)).to.eq(true);
+  });
+
+  it("cannot decrypt a value the signer is not allowed to read", async function () {
+    const handle = await submit(alice, 5);
+    let error: Error | undefined;
+    await decryptValue(backend(), bob, handle, registryAddress, { storage: createMemoryStorage() }).catch(
+      (e) => (error = e),
+    );
+    expect(error).to.be.instanceOf(Error);
+  });
+
+  it("rejects values that do not fit a euint32", function () {
+    expect(() => toEncryptable(-1)).to.throw("cannot be encrypted");
+    expect(() => toEncryptable(2 ** 32)).to.throw("cannot be encrypted");
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import {
+  BatchObservation,
+  correlationDetector,
+  createHypothesisEngine,
+  HypothesisDetector,
+  outlierDetector,
+  toObservations,
+  trendDetector,
+} from "../frontend/web/src/hypotheses";
+import type { IndexedBatch } from "../frontend/web/src/indexer";
+
+const observe = (category: string, means: number[], firstBatchId = 1, step = 1): BatchObservation[] =>
+  means.map((mean, i) => ({ batchId: firstBatchId + i * step, category, units: "reads", mean, pointCount: 10 }));
+
+describe("hypotheses", function () {
+  it("detects a steady trend with its slope and confidence", function () {
+    const engine = createHypothesisEngine({ detectors: [trendDetector()] });
+    const [trend, ...rest] = engine.generate(observe("Genomics", [10, 12.1, 13.9, 16.2, 18, 19.8]));
+    expect(rest).to.deep.eq([]);
+    expect(trend).to.deep.include({ id: "trend:Genomics", kind: "trend", category: "Genomics" });
+    expect(trend.batchIds).to.deep.eq([1, 2, 3, 4, 5, 6]);
+    expect(trend.statistics.slope).to.be.closeTo(1.96, 0.05);
+    expect(trend.statistics.batches).to.eq(6);
+    expect(trend.confidence).to.be.greaterThan(0.99);
+    expect(trend.statement).to.contain("rise by").and.contain("reads per batch");
+
+    // Too few batches to tell a trend from noise.
+    expect(engine.generate(observe("Genomics", [10, 12, 14]))).to.deep.eq([]);
+  });
+
+  it("flags a batch whose mean stands apart from the rest", function () {
+    const engine = createHypothesisEngine({ detectors: [outlierDetector()] });
+    const hypotheses = engine.generate(observe("Astronomy", [10, 11, 10, 12, 11, 50]));
+    expect(hypotheses.map((h) => h.id)).to.deep.eq(["outlier:Astronomy:6"]);
+    expect(hypotheses[0].batchIds).to.deep.eq([6]);
+    expect(hypotheses[0].statistics.median).to.eq(11);
+    expect(hypotheses[0].statement).to.contain("above the median");
+    expect(hypotheses[0].confidence).to.be.greaterThan(0.99);
+
+    expect(engine.generate(observe("Astronomy", [10, 11, 10, 12, 11, 11]))).to.deep.eq([]);
+  });
+
+  it("reports a correlation between two categories once", function () {
+    const engine = createHypothesisEngine({ detectors: [correlationDetector()] });
+    const hypotheses = engine.generate([
+      ...observe("Climate", [1, 2, 3, 4, 5.1], 1, 2),
+      ...observe("Oceanography", [50, 40, 31, 20, 10], 2, 2),
+    ]);
+    expect(hypotheses).to.have.lengthOf(1);
+    expect(hypotheses[0].id).to.eq("correlation:Climate:Oceanography");
+    expect(hypotheses[0].statistics.r).to.be.lessThan(-0.99);
+    expect(hypotheses[0].statement).to.contain("opposite directions");
+    expect(hypotheses[0].batchIds).to.have.lengthOf(10);
+  });
+
+  it("runs a category's own detectors instead of the defaults", function () {
+    const flat: HypothesisDetector = (observations, { category }) => [
+      {
+        id: `flat:${category}`,
+        kind: "trend",
+        category,
+        statement: `${category} stays flat`,
+        confidence: 0.95,
+        batchIds: observations.map((o) => o.batchId),
+        statistics: {},
+      },
+    ];
+    const engine = createHypothesisEngine({ categoryDetectors: { Chemistry: [flat] } });
+    const observations = [
+      ...observe("Chemistry", [10, 12, 14, 16, 18]),
+      ...observe("Genomics", [10, 12, 14, 16, 18.1], 6),
+    ];
+    expect(engine.generate(observations).map((h) => h.id)).to.include.members(["flat:Chemistry", "trend:Genomics"]);
+    expect(engine.generate(observations).map((h) => h.id)).to.not.include("trend:Chemistry");
+
+    engine.use("Genomics", [flat]);
+    expect(
+      engine
+        .generate(observations)
+        .map((h) => h.id)
+        .sort(),
+    ).to.deep.eq(["flat:Chemistry", "flat:Genomics"]);
+  });
+
+  it("drops hypotheses below the minimum confidence", function () {
+    const noisy = observe("Genomics", [10, 14, 9, 15, 11, 16]);
+    expect(createHypothesisEngine({ detectors: [trendDetector()] }).generate(noisy)).to.deep.eq([]);
+
+    const lenient = createHypothesisEngine({ detectors: [trendDetector()], minConfidence: 0.5 }).generate(noisy);
+    expect(lenient.map((h) => h.id)).to.deep.eq(["trend:Genomics"]);
+    expect(lenient[0].confidence).to.be.within(0.5, 0.9);
+  });
+
+  it("only observes batches with a decrypted average and metadata", function () {
+    const metadata = {
+      category: "Genomics",
+      units: "reads",
+      schema: "",
+      maxPointsPerProvider: 0,
+      closesAt: 0,
+      fields: [],
+      schemaHash: "",
+    };
+    const result = { requestId: "1", scaledAverage: "4200", scale: "100", overflowed: false, average: "42" };
+    const batches: IndexedBatch[] = [
+      { id: 1, isOpen: false, pointCount: 5, metadata, result },
+      { id: 2, isOpen: false, pointCount: 5, metadata, result: { ...result, overflowed: true } },
+      { id: 3, isOpen: false, pointCount: 5, result },
+      { id: 4, isOpen: true, pointCount: 2, metadata },
+    ];
+    const observations = toObservations(batches, [
+      {
+        requestId: 2n,
+        batchId: 1,
+        statsMask: 0,
+        bucketBounds: [],
+        scale: 1000n,
+        statistics: { variance: 4, min: 38n, max: 46n },
+      },
+    ]);
+    expect(observations).to.deep.eq([
+      { batchId: 1, category: "Genomics", units: "reads", mean: 42, pointCount: 5, variance: 4, min: 38, max: 46 },
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, ContractFactory, Provider } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import adapterArtifact from "../prebuilt/UniversalAdapter.json";
+import { encodeSchema } from "../frontend/web/src/batchMetadata";
+import { createIndexer, IndexerSources, IndexerStorage } from "../frontend/web/src/indexer";
+import { queryLogs } from "../frontend/web/src/logs";
+import { AIDiscoveryFHE, AIDiscoveryFHE__factory, DiscoveryRegistry, DiscoveryRegistry__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const DESCRIPTOR = {
+  category: "Genomics",
+  units: "reads",
+  schema: encodeSchema([{ name: "depth" }]),
+  maxPointsPerProvider: 0,
+  closesAt: 0,
+};
+
+function createMapStorage(): IndexerStorage {
+  const items = new Map<string, string>();
+  return { getItem: (key) => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+async function deployFixture(deployer: HardhatEthersSigner) {
+  const adapterFactory = new ContractFactory(adapterArtifact.abi, adapterArtifact.bytecode, deployer);
+  const adapter = (await adapterFactory.deploy()) as Contract;
+
+  const discoveryFactory = (await ethers.getContractFactory("AIDiscoveryFHE")) as AIDiscoveryFHE__factory;
+  const discovery = (await discoveryFactory.deploy()) as AIDiscoveryFHE;
+
+  const registryFactory = (await ethers.getContractFactory("DiscoveryRegistry")) as DiscoveryRegistry__factory;
+  const registry = (await registryFactory.deploy()) as DiscoveryRegistry;
+
+  return { adapter, discovery, registry };
+}
+
+describe("indexer", function () {
+  let signers: Signers;
+  let adapter: Contract;
+  let discovery: AIDiscoveryFHE;
+  let registry: DiscoveryRegistry;
+  let startBlock: number;
+
+  const provider = () => ethers.provider as unknown as Provider;
+  const sources = (): IndexerSources => ({
+    adapter,
+    discovery: discovery as unknown as Contract,
+    registry: registry as unknown as Contract,
+  });
+
+  async function submitDiscovery(researcher: HardhatEthersSigner, category: string, value: number, hypothesis: string) {
+    const registryAddress = await registry.getAddress();
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(registryAddress, researcher.address)
+      .add32(value)
+      .encrypt();
+    await (await registry.connect(researcher).submitDiscovery(category, handles[0], inputProof, hypothesis)).wait();
+  }
+
+  async function submitPoints(provider: HardhatEthersSigner, batchId: number, values: number[]) {
+    const input = fhevm.createEncryptedInput(await discovery.getAddress(), provider.address);
+    values.forEach((value) => input.add32(value));
+    const { handles, inputProof } = await input.encrypt();
+    await (await discovery.connect(provider).submitData(batchId, handles, inputProof)).wait();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    ({ adapter, discovery, registry } = await deployFixture(signers.deployer));
+    await (await registry.addReviewer(signers.bob.address)).wait();
+    await (await discovery.addProvider(signers.alice.address)).wait();
+  });
+
+  it("replays registry events into the discovery list", async function () {
+    await submitDiscovery(signers.alice, "Genomics", 10, "Gene sequence X correlates with disease Y");
+    await submitDiscovery(signers.alice, "Astrophysics", 20, "Dark matter distribution anomaly");
+    await (await registry.connect(signers.bob).setStatus(1, 2)).wait();
+
+    const indexer = await createIndexer(provider(), sources(), { startBlock });
+    expect(await indexer.sync()).to.be.greaterThan(0);
+
+    const discoveries = indexer.getDiscoveries();
+    expect(discoveries.map((d) => d.id)).to.deep.eq([2, 1]);
+    const stored = await registry.getDiscovery(1);
+    expect(discoveries[1]).to.deep.eq({
+      id: 1,
+      owner: signers.alice.address,
+      timestamp: Number(stored.timestamp),
+      status: "rejected",
+      category: "Genomics",
+      encryptedValue: stored.value,
+      hypothesisHash: stored.hypothesisHash,
+      hypothesis: "Gene sequence X correlates with disease Y",
+    });
+    expect(discoveries[0].status).to.eq("pending");
+  });
+
+  it("tracks batches and their decrypted averages", async function () {
+    await (await discovery.openBatch(DESCRIPTOR)).wait();
+    await (await discovery.openBatch({ ...DESCRIPTOR, category: "Neuroscience" })).wait();
+    await submitPoints(signers.alice, 1, [4, 6]);
+    await (await discovery.closeBatch(1)).wait();
+    await (await discovery.connect(signers.alice).requestDiscovery(1)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const indexer = await createIndexer(provider(), sources(), { startBlock });
+    await indexer.sync();
+
+    const [second, first] = indexer.getBatches();
+    expect(first).to.deep.include({ id: 1, isOpen: false, pointCount: 2 });
+    expect(first.metadata?.fields).to.deep.eq([{ name: "depth" }]);
+    expect(first.result).to.deep.include({ scaledAverage: "5000", scale: "1000", overflowed: false, average: "5" });
+    expect(second).to.deep.include({ id: 2, isOpen: true, pointCount: 0 });
+    expect(second.metadata?.category).to.eq("Neuroscience");
+    expect(second.result).to.eq(undefined);
+  });
+
+  it("indexes UniversalAdapter DataStored writes", async function () {
+    await (await adapter.connect(signers.alice).getFunction("setData")("greeting", ethers.toUtf8Bytes("hello"))).wait();
+    await (await adapter.connect(signers.bob).getFunction("setData")("greeting", ethers.toUtf8Bytes("bye"))).wait();
+
+    const indexer = await createIndexer(provider(), sources(), { startBlock });
+    await indexer.sync();
+
+    const entry = indexer.getAdapterEntry("greeting");
+    expect(entry?.sender).to.eq(signers.bob.address);
+    expect(ethers.toUtf8String(entry!.value)).to.eq("bye");
+    expect(indexer.getAdapterEntry("missing")).to.eq(undefined);
+  });
+
+  it("syncs in small block ranges and resumes from storage", async function () {
+    const storage = createMapStorage();
+    const indexer = await createIndexer(provider(), sources(), { startBlock, maxBlockRange: 2, storage });
+    await indexer.sync();
+    expect(indexer.getDiscoveries()).to.deep.eq([]);
+
+    let updates = 0;
+    const unsubscribe = indexer.onUpdate(() => updates++);
+    await submitDiscovery(signers.alice, "Genomics", 1, "first");
+    await submitDiscovery(signers.alice, "Genomics", 2, "second");
+    await indexer.sync();
+    unsubscribe();
+    expect(updates).to.eq(1);
+    expect(indexer.getDiscoveries()).to.have.lengthOf(2);
+    expect(indexer.lastBlock()).to.eq(await ethers.provider.getBlockNumber());
+
+    // A new indexer over the same storage starts where the first one stopped.
+    await submitDiscovery(signers.alice, "Genomics", 3, "third");
+    const resumed = await createIndexer(provider(), sources(), { startBlock, maxBlockRange: 2, storage });
+    expect(resumed.lastBlock()).to.eq(indexer.lastBlock());
+    expect(resumed.getDiscoveries()).to.have.lengthOf(2);
+    expect(await resumed.sync()).to.be.greaterThan(0);
+    expect(resumed.getDiscoveries().map((d) => d.hypothesis)).to.deep.eq(["third", "second", "first"]);
+  });
+
+  it("queries logs from the start block in small block ranges", async function () {
+    await (await discovery.openBatch(DESCRIPTOR)).wait();
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await (await discovery.openBatch({ ...DESCRIPTOR, category: "Neuroscience" })).wait();
+    await (await discovery.openBatch({ ...DESCRIPTOR, category: "Astrophysics" })).wait();
+
+    const contract = discovery as unknown as Contract;
+    const filter = contract.filters.BatchMetadataSet();
+    const logs = await queryLogs(contract, filter, { fromBlock, maxBlockRange: 1 });
+    expect(logs.map((log) => log.args.category)).to.deep.eq(["Neuroscience", "Astrophysics"]);
+    expect(await queryLogs(contract, filter, { fromBlock: startBlock })).to.have.lengthOf(3);
+  });
+
+  it("applies nothing from a range whose block timestamps cannot be fetched", async function () {
+    await (await discovery.openBatch(DESCRIPTOR)).wait();
+    await submitPoints(signers.alice, 1, [4, 6]);
+    await submitDiscovery(signers.alice, "Genomics", 1, "first");
+
+    let failures = 1;
+    const flaky = new Proxy(ethers.provider, {
+      get(target, prop) {
+        if (prop === "getBlock" && failures > 0) {
+          failures--;
+          return async () => {
+            throw new Error("getBlock failed");
+          };
+        }
+        const value = Reflect.get(target, prop, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    }) as unknown as Provider;
+    const indexer = await createIndexer(flaky, sources(), { startBlock });
+
+    let error: Error | undefined;
+    await indexer.sync().catch((e) => (error = e));
+    expect(error?.message).to.eq("getBlock failed");
+    expect(indexer.lastBlock()).to.eq(startBlock - 1);
+    expect(indexer.getBatches()).to.deep.eq([]);
+
+    await indexer.sync();
+    expect(indexer.getBatches()[0].pointCount).to.eq(2);
+    expect(indexer.getDiscoveries()).to.have.lengthOf(1);
+  });
+
+  it("follows new blocks", async function () {
+    const indexer = await createIndexer(provider(), sources(), { startBlock });
+    await indexer.sync();
+
+    const updated = new Promise<void>((resolve) => {
+      const unsubscribe = indexer.onUpdate(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+    const stop = indexer.follow(20);
+    try {
+      await submitDiscovery(signers.alice, "Genomics", 1, "first");
+      await updated;
+    } finally {
+      stop();
+    }
+    expect(indexer.getDiscoveries().map((d) => d.hypothesis)).to.deep.eq(["first"]);
+  });
+
+  it("stays behind the head by the configured confirmations", async function () {
+    await submitDiscovery(signers.alice, "Genomics", 1, "first");
+    const indexer = await createIndexer(provider(), sources(), { startBlock, confirmations: 1 });
+    await indexer.sync();
+    expect(indexer.getDiscoveries()).to.deep.eq([]);
+
+    await ethers.provider.send("evm_mine", []);
+    await indexer.sync();
+    expect(indexer.getDiscoveries()).to.have.lengthOf(1);
+  });
+});
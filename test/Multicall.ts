@@ -0,0 +1,201 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, Interface, Provider, TransactionRequest } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { encodeSchema } from "../frontend/web/src/batchMetadata";
+import { createMulticallClient } from "../frontend/web/src/multicall";
+import { getReviewerRole, listDiscoveries } from "../frontend/web/src/registry";
+import {
+  AIDiscoveryFHE,
+  AIDiscoveryFHE__factory,
+  DiscoveryRegistry,
+  DiscoveryRegistry__factory,
+  Multicall3,
+  Multicall3__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const DESCRIPTOR = {
+  category: "Genomics",
+  units: "reads",
+  schema: encodeSchema([{ name: "depth" }]),
+  maxPointsPerProvider: 0,
+  closesAt: 0,
+};
+
+const multicallInterface = Multicall3__factory.createInterface() as unknown as Interface;
+
+// Counts eth_calls and, like some public RPCs, rejects aggregate3 requests above `maxBatch` calls.
+function createCountingProvider(maxBatch = Infinity) {
+  const stats = { calls: 0 };
+  const provider = {
+    getCode: (address: string) => ethers.provider.getCode(address),
+    call: async (tx: TransactionRequest) => {
+      stats.calls++;
+      const data = tx.data as string;
+      if (data.startsWith(multicallInterface.getFunction("aggregate3")!.selector)) {
+        const [calls] = multicallInterface.decodeFunctionData("aggregate3", data);
+        if (calls.length > maxBatch) throw new Error("response size exceeded");
+      }
+      return ethers.provider.call(tx);
+    },
+  } as unknown as Provider;
+  return { provider, stats };
+}
+
+async function deployFixture() {
+  const multicallFactory = (await ethers.getContractFactory("Multicall3")) as Multicall3__factory;
+  const multicall = (await multicallFactory.deploy()) as Multicall3;
+
+  const registryFactory = (await ethers.getContractFactory("DiscoveryRegistry")) as DiscoveryRegistry__factory;
+  const registry = (await registryFactory.deploy()) as DiscoveryRegistry;
+
+  const discoveryFactory = (await ethers.getContractFactory("AIDiscoveryFHE")) as AIDiscoveryFHE__factory;
+  const discovery = (await discoveryFactory.deploy()) as AIDiscoveryFHE;
+
+  return { multicall, registry, discovery };
+}
+
+describe("multicall", function () {
+  let signers: Signers;
+  let multicallAddress: string;
+  let registry: Contract;
+  let discovery: AIDiscoveryFHE;
+
+  async function submitDiscovery(category: string, hypothesis: string) {
+    const { handles, inputProof } = await fhevm
+      .createEncryptedInput(await registry.getAddress(), signers.alice.address)
+      .add32(1)
+      .encrypt();
+    const tx = await registry.connect(signers.alice).getFunction("submitDiscovery")(
+      category,
+      handles[0],
+      inputProof,
+      hypothesis,
+    );
+    await tx.wait();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    const fixture = await deployFixture();
+    multicallAddress = await fixture.multicall.getAddress();
+    registry = fixture.registry as unknown as Contract;
+    discovery = fixture.discovery;
+    await (await fixture.registry.addReviewer(signers.bob.address)).wait();
+  });
+
+  it("aggregates reads into a single eth_call", async function () {
+    await submitDiscovery("Genomics", "first");
+    const { provider, stats } = createCountingProvider();
+    const client = createMulticallClient(provider, { address: multicallAddress });
+
+    const [owner, isReviewer, count, discovery] = await client.readAll([
+      { contract: registry, method: "owner" },
+      { contract: registry, method: "isReviewer", args: [signers.bob.address] },
+      { contract: registry, method: "discoveryCount" },
+      { contract: registry, method: "getDiscovery", args: [1] },
+    ]);
+    expect(stats.calls).to.eq(1);
+    expect(owner).to.eq(signers.deployer.address);
+    expect(isReviewer).to.eq(true);
+    expect(count).to.eq(1n);
+    expect(discovery.owner).to.eq(signers.alice.address);
+    expect(discovery.category).to.eq("Genomics");
+  });
+
+  it("splits calls into chunks", async function () {
+    const { provider, stats } = createCountingProvider();
+    const client = createMulticallClient(provider, { address: multicallAddress, chunkSize: 2 });
+
+    const calls = Array.from({ length: 5 }, () => ({ contract: registry, method: "discoveryCount" }));
+    expect(await client.readAll(calls)).to.deep.eq([0n, 0n, 0n, 0n, 0n]);
+    expect(stats.calls).to.eq(3);
+  });
+
+  it("reports failing calls without failing the others", async function () {
+    await submitDiscovery("Genomics", "first");
+    const client = createMulticallClient(createCountingProvider().provider, { address: multicallAddress });
+
+    const calls = [
+      { contract: registry, method: "getDiscovery", args: [1] },
+      { contract: registry, method: "getDiscovery", args: [99] },
+    ];
+    const [found, missing] = await client.read(calls);
+    expect(found.success).to.eq(true);
+    expect(missing.success).to.eq(false);
+    expect(!missing.success && missing.error.message).to.contain("UnknownDiscovery");
+
+    let error: Error | undefined;
+    await client.readAll(calls).catch((e) => (error = e));
+    expect(error?.message).to.contain("UnknownDiscovery");
+  });
+
+  it("retries a rejected chunk in halves", async function () {
+    const { provider, stats } = createCountingProvider(2);
+    const client = createMulticallClient(provider, { address: multicallAddress });
+
+    const calls = Array.from({ length: 4 }, () => ({ contract: registry, method: "discoveryCount" }));
+    expect(await client.readAll(calls)).to.deep.eq([0n, 0n, 0n, 0n]);
+    // One rejected request for all four, then one per half.
+    expect(stats.calls).to.eq(3);
+  });
+
+  it("sends calls one by one without a Multicall3 deployment", async function () {
+    const { provider, stats } = createCountingProvider();
+    const client = createMulticallClient(provider, { address: signers.bob.address });
+
+    const [owner, count] = await client.readAll([
+      { contract: registry, method: "owner" },
+      { contract: registry, method: "discoveryCount" },
+    ]);
+    expect(owner).to.eq(signers.deployer.address);
+    expect(count).to.eq(0n);
+    expect(stats.calls).to.eq(2);
+
+    const [missing] = await client.read([{ contract: registry, method: "getDiscovery", args: [99] }]);
+    expect(missing.success).to.eq(false);
+  });
+
+  it("shares one request between calls queued in the same tick", async function () {
+    const { provider, stats } = createCountingProvider();
+    const client = createMulticallClient(provider, { address: multicallAddress });
+
+    const role = await getReviewerRole(registry, signers.bob.address, ["Genomics", "Astrophysics"], client);
+    expect(role).to.deep.eq(await getReviewerRole(registry, signers.bob.address, ["Genomics", "Astrophysics"]));
+    expect(stats.calls).to.eq(1);
+  });
+
+  it("lists discoveries and batches through the client", async function () {
+    await submitDiscovery("Genomics", "first");
+    await submitDiscovery("Astrophysics", "second");
+    await submitDiscovery("Genomics", "third");
+    const client = createMulticallClient(createCountingProvider().provider, { address: multicallAddress });
+
+    const discoveries = await listDiscoveries(registry, 2, client);
+    expect(discoveries.map((d) => d.hypothesis)).to.deep.eq(["third", "second", "first"]);
+    expect(discoveries).to.deep.eq(await listDiscoveries(registry, 2));
+
+    await (await discovery.openBatch(DESCRIPTOR)).wait();
+    await (await discovery.openBatch(DESCRIPTOR)).wait();
+    await (await discovery.closeBatch(1)).wait();
+    // discovery.ts pulls in the relayer SDK, so read the open flags the way listBatches does.
+    const flags = await Promise.all(
+      [1, 2].map((id) => client.call<boolean>(discovery as unknown as Contract, "isBatchOpen", id)),
+    );
+    expect(flags).to.deep.eq([false, true]);
+  });
+});
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { RpcPool, RpcPoolStorage } from "../frontend/web/src/rpcPool";
+
+const NETWORK = { name: "stub", chainId: 31337 };
+
+type StubMode = "ok" | "http-error" | "hang";
+
+interface StubServer {
+  url: string;
+  // Requests received, by JSON-RPC method.
+  calls: string[];
+  mode: StubMode;
+  delayMs: number;
+  blockNumber: number;
+  close(): Promise<void>;
+}
+
+// A JSON-RPC endpoint that answers eth_blockNumber and reverts eth_call.
+async function startStub(blockNumber: number): Promise<StubServer> {
+  const stub = { calls: [] as string[], mode: "ok" as StubMode, delayMs: 0, blockNumber };
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const payload = JSON.parse(body);
+      const requests: any[] = Array.isArray(payload) ? payload : [payload];
+      requests.forEach((request) => stub.calls.push(request.method));
+      if (stub.mode === "hang") return;
+      if (stub.mode === "http-error") {
+        res.writeHead(503).end("unavailable");
+        return;
+      }
+      const answer = (request: any) =>
+        request.method === "eth_call"
+          ? { jsonrpc: "2.0", id: request.id, error: { code: 3, message: "execution reverted", data: "0x" } }
+          : { jsonrpc: "2.0", id: request.id, result: "0x" + stub.blockNumber.toString(16) };
+      const response = Array.isArray(payload) ? requests.map(answer) : answer(payload);
+      setTimeout(
+        () => res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(response)),
+        stub.delayMs,
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return Object.assign(stub, {
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  });
+}
+
+// Provider.getBlockNumber caches its answer briefly, so read the block number uncached.
+const blockNumber = async (pool: RpcPool) => Number(await pool.send("eth_blockNumber", []));
+
+function createMapStorage(): RpcPoolStorage {
+  const items = new Map<string, string>();
+  return { getItem: (key) => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+describe("RpcPool", function () {
+  let first: StubServer;
+  let second: StubServer;
+  let pools: RpcPool[];
+
+  const createPool = (options = {}) => {
+    const pool = new RpcPool([first.url, second.url], NETWORK, { timeoutMs: 1000, ...options });
+    pools.push(pool);
+    return pool;
+  };
+
+  beforeEach(async function () {
+    first = await startStub(1);
+    second = await startStub(2);
+    pools = [];
+  });
+
+  afterEach(async function () {
+    pools.forEach((pool) => pool.destroy());
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it("sends requests to the first endpoint while it is healthy", async function () {
+    const pool = createPool();
+    expect(await blockNumber(pool)).to.eq(1);
+    expect(await blockNumber(pool)).to.eq(1);
+    expect(second.calls).to.deep.eq([]);
+    expect(pool.getStatus().active).to.eq(first.url);
+  });
+
+  it("rotates away from an endpoint that fails mid-session", async function () {
+    const pool = createPool();
+    expect(await blockNumber(pool)).to.eq(1);
+
+    first.mode = "http-error";
+    expect(await blockNumber(pool)).to.eq(2);
+    const status = pool.getStatus();
+    expect(status.active).to.eq(second.url);
+    expect(status.endpoints[0]).to.deep.include({ healthy: true, failures: 1 });
+    expect(status.endpoints[0].lastError).to.contain("503");
+
+    const calls = first.calls.length;
+    expect(await blockNumber(pool)).to.eq(2);
+    expect(first.calls.length).to.eq(calls);
+  });
+
+  it("benches an endpoint after consecutive failures", async function () {
+    const pool = createPool({ failureThreshold: 2 });
+    first.mode = "http-error";
+    second.mode = "http-error";
+    await blockNumber(pool).catch(() => undefined);
+    await blockNumber(pool).catch(() => undefined);
+    expect(pool.getStatus().endpoints.map((e) => e.healthy)).to.deep.eq([false, false]);
+
+    // Benched endpoints are still tried as a last resort.
+    second.mode = "ok";
+    expect(await blockNumber(pool)).to.eq(2);
+    expect(pool.getStatus().endpoints.map((e) => e.healthy)).to.deep.eq([false, true]);
+  });
+
+  it("fails over when an endpoint times out", async function () {
+    first.mode = "hang";
+    const pool = createPool({ timeoutMs: 200 });
+    expect(await blockNumber(pool)).to.eq(2);
+    expect(pool.getStatus().endpoints[0].failures).to.eq(1);
+  });
+
+  it("retries benched endpoints once the cooldown is over", async function () {
+    const pool = createPool({ failureThreshold: 1, cooldownMs: 100 });
+    first.mode = "http-error";
+    expect(await blockNumber(pool)).to.eq(2);
+    expect(pool.getStatus().active).to.eq(second.url);
+
+    first.mode = "ok";
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(await pool.probe()).to.deep.include({ active: second.url });
+    expect(pool.getStatus().endpoints.every((e) => e.healthy)).to.eq(true);
+  });
+
+  it("treats JSON-RPC errors as answers", async function () {
+    const pool = createPool();
+    let error: Error | undefined;
+    await pool.call({ to: "0x0000000000000000000000000000000000000001", data: "0x" }).catch((e) => (error = e));
+    expect(error?.message).to.contain("revert");
+    expect(second.calls).to.deep.eq([]);
+    expect(pool.getStatus().endpoints[0]).to.deep.include({ healthy: true, failures: 0 });
+  });
+
+  it("prefers the faster endpoint after probing", async function () {
+    first.delayMs = 150;
+    const pool = createPool();
+    const status = await pool.probe();
+    expect(status.active).to.eq(second.url);
+    expect(status.endpoints[0].latencyMs).to.be.greaterThan(status.endpoints[1].latencyMs!);
+    expect(await blockNumber(pool)).to.eq(2);
+  });
+
+  it("starts a new session on the endpoint cached as healthiest", async function () {
+    const storage = createMapStorage();
+    first.delayMs = 150;
+    await createPool({ storage }).probe();
+
+    const resumed = createPool({ storage });
+    expect(resumed.getStatus().active).to.eq(second.url);
+    const calls = first.calls.length;
+    expect(await blockNumber(resumed)).to.eq(2);
+    expect(first.calls.length).to.eq(calls);
+  });
+
+  it("reports status changes to listeners", async function () {
+    const pool = createPool();
+    const actives: string[] = [];
+    const unsubscribe = pool.onStatusChange((status) => actives.push(status.active));
+    first.mode = "http-error";
+    await blockNumber(pool);
+    unsubscribe();
+    await blockNumber(pool);
+    // The failed request and the failover each report once; an endpoint with an error ranks behind an untried one.
+    expect(actives).to.deep.eq([second.url, second.url]);
+  });
+
+  it("rejects when every endpoint fails", async function () {
+    first.mode = "http-error";
+    second.mode = "http-error";
+    const pool = createPool();
+    let error: Error | undefined;
+    await blockNumber(pool).catch((e) => (error = e));
+    expect(error?.message).to.contain("All RPC endpoints failed");
+  });
+});
@@ -0,0 +1,2152 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace AIDiscoveryFHE {
+  export type BatchMetadataStruct = {
+    category: string;
+    units: string;
+    schemaHash: BytesLike;
+    maxPointsPerProvider: BigNumberish;
+    closesAt: BigNumberish;
+  };
+
+  export type BatchMetadataStructOutput = [
+    category: string,
+    units: string,
+    schemaHash: string,
+    maxPointsPerProvider: bigint,
+    closesAt: bigint
+  ] & {
+    category: string;
+    units: string;
+    schemaHash: string;
+    maxPointsPerProvider: bigint;
+    closesAt: bigint;
+  };
+
+  export type BatchDescriptorStruct = {
+    category: string;
+    units: string;
+    schema: string;
+    maxPointsPerProvider: BigNumberish;
+    closesAt: BigNumberish;
+  };
+
+  export type BatchDescriptorStructOutput = [
+    category: string,
+    units: string,
+    schema: string,
+    maxPointsPerProvider: bigint,
+    closesAt: bigint
+  ] & {
+    category: string;
+    units: string;
+    schema: string;
+    maxPointsPerProvider: bigint;
+    closesAt: bigint;
+  };
+}
+
+export interface AIDiscoveryFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "DEFAULT_SCALE"
+      | "MAX_HISTOGRAM_BOUNDS"
+      | "STAT_HISTOGRAM"
+      | "STAT_MAX"
+      | "STAT_MEAN"
+      | "STAT_MIN"
+      | "STAT_VARIANCE"
+      | "addProvider"
+      | "batchPrecision"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "correlationCallback"
+      | "correlationContexts"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "differentialPrivacy"
+      | "encryptedDataBatches"
+      | "finalizeExpiredBatch"
+      | "getBatchMetadata"
+      | "getBatchSize"
+      | "getDecryptionHandles"
+      | "isBatchExpired"
+      | "isBatchOpen"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "meetsPrivacyThresholds"
+      | "minBatchPoints"
+      | "minBatchProviders"
+      | "myCallback"
+      | "openBatch"
+      | "openBatchWithPrecision"
+      | "openPairedBatches"
+      | "owner"
+      | "pairedBatch"
+      | "paused"
+      | "pointsSubmitted"
+      | "protocolId"
+      | "providerCount"
+      | "queryCallback"
+      | "queryContexts"
+      | "removeProvider"
+      | "requestCorrelation"
+      | "requestDiscovery"
+      | "requestEncryptedThresholdQuery"
+      | "requestStatistics"
+      | "requestThresholdQuery"
+      | "setCooldownSeconds"
+      | "setDifferentialPrivacy"
+      | "setPaused"
+      | "setPrivacyThresholds"
+      | "statisticsCallback"
+      | "statisticsContexts"
+      | "submitData"
+      | "submitPairedData"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchExpired"
+      | "BatchMetadataSet"
+      | "BatchOpened"
+      | "BatchPrecisionSet"
+      | "BatchesPaired"
+      | "CooldownSecondsSet"
+      | "CorrelationCompleted"
+      | "CorrelationRequested"
+      | "DataSubmitted"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DifferentialPrivacySet"
+      | "NoiseAdded"
+      | "OwnershipTransferred"
+      | "PauseToggled"
+      | "PrivacyThresholdsSet"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "QueryCompleted"
+      | "QueryRequested"
+      | "StatisticsCompleted"
+      | "StatisticsRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_HISTOGRAM_BOUNDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STAT_HISTOGRAM",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "STAT_MAX", values?: undefined): string;
+  encodeFunctionData(functionFragment: "STAT_MEAN", values?: undefined): string;
+  encodeFunctionData(functionFragment: "STAT_MIN", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "STAT_VARIANCE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchPrecision",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "correlationCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "correlationContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "differentialPrivacy",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedDataBatches",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeExpiredBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchMetadata",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchSize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecryptionHandles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchExpired",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchOpen",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "meetsPrivacyThresholds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBatchPoints",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minBatchProviders",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [AIDiscoveryFHE.BatchDescriptorStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatchWithPrecision",
+    values: [AIDiscoveryFHE.BatchDescriptorStruct, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openPairedBatches",
+    values: [
+      AIDiscoveryFHE.BatchDescriptorStruct,
+      AIDiscoveryFHE.BatchDescriptorStruct
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pairedBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pointsSubmitted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queryContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestCorrelation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestDiscovery",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestEncryptedThresholdQuery",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestStatistics",
+    values: [BigNumberish, BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestThresholdQuery",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDifferentialPrivacy",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "setPrivacyThresholds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statisticsCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statisticsContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitData",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPairedData",
+    values: [BigNumberish, BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_HISTOGRAM_BOUNDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STAT_HISTOGRAM",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "STAT_MAX", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "STAT_MEAN", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "STAT_MIN", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "STAT_VARIANCE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchPrecision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "correlationCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "correlationContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "differentialPrivacy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedDataBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeExpiredBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecryptionHandles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchExpired",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "meetsPrivacyThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBatchPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minBatchProviders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openBatchWithPrecision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openPairedBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pairedBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pointsSubmitted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "providerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queryCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "queryContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestCorrelation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestDiscovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestEncryptedThresholdQuery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestThresholdQuery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDifferentialPrivacy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivacyThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statisticsCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statisticsContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "submitData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPairedData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchExpiredEvent {
+  export type InputTuple = [batchId: BigNumberish, finalizer: AddressLike];
+  export type OutputTuple = [batchId: bigint, finalizer: string];
+  export interface OutputObject {
+    batchId: bigint;
+    finalizer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchMetadataSetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    category: string,
+    units: string,
+    schema: string,
+    schemaHash: BytesLike,
+    maxPointsPerProvider: BigNumberish,
+    closesAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    category: string,
+    units: string,
+    schema: string,
+    schemaHash: string,
+    maxPointsPerProvider: bigint,
+    closesAt: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    category: string;
+    units: string;
+    schema: string;
+    schemaHash: string;
+    maxPointsPerProvider: bigint;
+    closesAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchPrecisionSetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    precision: BigNumberish,
+    scale: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, precision: bigint, scale: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    precision: bigint;
+    scale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchesPairedEvent {
+  export type InputTuple = [batchId: BigNumberish, pairedBatchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint, pairedBatchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    pairedBatchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CorrelationCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    count: BigNumberish,
+    sumX: BigNumberish,
+    sumY: BigNumberish,
+    sumXY: BigNumberish,
+    sumXX: BigNumberish,
+    sumYY: BigNumberish,
+    overflowed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    count: bigint,
+    sumX: bigint,
+    sumY: bigint,
+    sumXY: bigint,
+    sumXX: bigint,
+    sumYY: bigint,
+    overflowed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    count: bigint;
+    sumX: bigint;
+    sumY: bigint;
+    sumXY: bigint;
+    sumXX: bigint;
+    sumYY: bigint;
+    overflowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CorrelationRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    pairedBatchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    pairedBatchId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    pairedBatchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DataSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [provider: string, batchId: bigint, count: bigint];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    result: BigNumberish,
+    scale: BigNumberish,
+    overflowed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    result: bigint,
+    scale: bigint,
+    overflowed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    result: bigint;
+    scale: bigint;
+    overflowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DifferentialPrivacySetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    maxValue: BigNumberish,
+    epsilon: BigNumberish,
+    budget: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    maxValue: bigint,
+    epsilon: bigint,
+    budget: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    maxValue: bigint;
+    epsilon: bigint;
+    budget: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NoiseAddedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    epsilon: BigNumberish,
+    noiseScale: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    epsilon: bigint,
+    noiseScale: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    epsilon: bigint;
+    noiseScale: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PauseToggledEvent {
+  export type InputTuple = [isPaused: boolean];
+  export type OutputTuple = [isPaused: boolean];
+  export interface OutputObject {
+    isPaused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrivacyThresholdsSetEvent {
+  export type InputTuple = [
+    minBatchPoints: BigNumberish,
+    minBatchProviders: BigNumberish
+  ];
+  export type OutputTuple = [minBatchPoints: bigint, minBatchProviders: bigint];
+  export interface OutputObject {
+    minBatchPoints: bigint;
+    minBatchProviders: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    kind: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    kind: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    kind: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueryRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    kind: BigNumberish,
+    encryptedThresholds: boolean,
+    lower: BigNumberish,
+    upper: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    kind: bigint,
+    encryptedThresholds: boolean,
+    lower: bigint,
+    upper: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    kind: bigint;
+    encryptedThresholds: boolean;
+    lower: bigint;
+    upper: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatisticsCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    statsMask: BigNumberish,
+    scale: BigNumberish,
+    cleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    statsMask: bigint,
+    scale: bigint,
+    cleartexts: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    statsMask: bigint;
+    scale: bigint;
+    cleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatisticsRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    statsMask: BigNumberish,
+    bucketBounds: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    statsMask: bigint,
+    bucketBounds: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    statsMask: bigint;
+    bucketBounds: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AIDiscoveryFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AIDiscoveryFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AIDiscoveryFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  DEFAULT_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_HISTOGRAM_BOUNDS: TypedContractMethod<[], [bigint], "view">;
+
+  STAT_HISTOGRAM: TypedContractMethod<[], [bigint], "view">;
+
+  STAT_MAX: TypedContractMethod<[], [bigint], "view">;
+
+  STAT_MEAN: TypedContractMethod<[], [bigint], "view">;
+
+  STAT_MIN: TypedContractMethod<[], [bigint], "view">;
+
+  STAT_VARIANCE: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchPrecision: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { precision: bigint; scale: bigint }],
+    "view"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  correlationCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  correlationContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { batchId: bigint; processed: boolean }],
+    "view"
+  >;
+
+  differentialPrivacy: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        maxValue: bigint;
+        epsilon: bigint;
+        budget: bigint;
+        spent: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedDataBatches: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  finalizeExpiredBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getBatchMetadata: TypedContractMethod<
+    [batchId: BigNumberish],
+    [AIDiscoveryFHE.BatchMetadataStructOutput],
+    "view"
+  >;
+
+  getBatchSize: TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+
+  getDecryptionHandles: TypedContractMethod<
+    [requestId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  isBatchExpired: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isBatchOpen: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  meetsPrivacyThresholds: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  minBatchPoints: TypedContractMethod<[], [bigint], "view">;
+
+  minBatchProviders: TypedContractMethod<[], [bigint], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<
+    [descriptor: AIDiscoveryFHE.BatchDescriptorStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatchWithPrecision: TypedContractMethod<
+    [
+      descriptor: AIDiscoveryFHE.BatchDescriptorStruct,
+      precision: BigNumberish,
+      scale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  openPairedBatches: TypedContractMethod<
+    [
+      x: AIDiscoveryFHE.BatchDescriptorStruct,
+      y: AIDiscoveryFHE.BatchDescriptorStruct
+    ],
+    [[bigint, bigint] & { batchId: bigint; pairedBatchId: bigint }],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pairedBatch: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pointsSubmitted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providerCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  queryCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  queryContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        batchId: bigint;
+        kind: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestCorrelation: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestDiscovery: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestEncryptedThresholdQuery: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      kind: BigNumberish,
+      lower: BytesLike,
+      upper: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requestStatistics: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      statsMask: BigNumberish,
+      bucketBounds: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requestThresholdQuery: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      kind: BigNumberish,
+      lower: BigNumberish,
+      upper: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDifferentialPrivacy: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      maxValue: BigNumberish,
+      epsilon: BigNumberish,
+      budget: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+
+  setPrivacyThresholds: TypedContractMethod<
+    [_minBatchPoints: BigNumberish, _minBatchProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  statisticsCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  statisticsContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        batchId: bigint;
+        statsMask: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  submitData: TypedContractMethod<
+    [batchId: BigNumberish, dataPoints: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitPairedData: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      xs: BytesLike[],
+      ys: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "DEFAULT_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_HISTOGRAM_BOUNDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAT_HISTOGRAM"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAT_MAX"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAT_MEAN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAT_MIN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STAT_VARIANCE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchPrecision"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { precision: bigint; scale: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "correlationCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "correlationContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { batchId: bigint; processed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "differentialPrivacy"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        maxValue: bigint;
+        epsilon: bigint;
+        budget: bigint;
+        spent: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedDataBatches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeExpiredBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getBatchMetadata"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [AIDiscoveryFHE.BatchMetadataStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchSize"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getDecryptionHandles"
+  ): TypedContractMethod<[requestId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "isBatchExpired"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isBatchOpen"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "meetsPrivacyThresholds"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "minBatchPoints"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minBatchProviders"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<
+    [descriptor: AIDiscoveryFHE.BatchDescriptorStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatchWithPrecision"
+  ): TypedContractMethod<
+    [
+      descriptor: AIDiscoveryFHE.BatchDescriptorStruct,
+      precision: BigNumberish,
+      scale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openPairedBatches"
+  ): TypedContractMethod<
+    [
+      x: AIDiscoveryFHE.BatchDescriptorStruct,
+      y: AIDiscoveryFHE.BatchDescriptorStruct
+    ],
+    [[bigint, bigint] & { batchId: bigint; pairedBatchId: bigint }],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pairedBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pointsSubmitted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queryCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "queryContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        batchId: bigint;
+        kind: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestCorrelation"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestDiscovery"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestEncryptedThresholdQuery"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      kind: BigNumberish,
+      lower: BytesLike,
+      upper: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestStatistics"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      statsMask: BigNumberish,
+      bucketBounds: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestThresholdQuery"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      kind: BigNumberish,
+      lower: BigNumberish,
+      upper: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [_cooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDifferentialPrivacy"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      maxValue: BigNumberish,
+      epsilon: BigNumberish,
+      budget: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[_paused: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPrivacyThresholds"
+  ): TypedContractMethod<
+    [_minBatchPoints: BigNumberish, _minBatchProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "statisticsCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "statisticsContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, boolean] & {
+        batchId: bigint;
+        statsMask: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "submitData"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, dataPoints: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPairedData"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      xs: BytesLike[],
+      ys: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchExpired"
+  ): TypedContractEvent<
+    BatchExpiredEvent.InputTuple,
+    BatchExpiredEvent.OutputTuple,
+    BatchExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchMetadataSet"
+  ): TypedContractEvent<
+    BatchMetadataSetEvent.InputTuple,
+    BatchMetadataSetEvent.OutputTuple,
+    BatchMetadataSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchPrecisionSet"
+  ): TypedContractEvent<
+    BatchPrecisionSetEvent.InputTuple,
+    BatchPrecisionSetEvent.OutputTuple,
+    BatchPrecisionSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchesPaired"
+  ): TypedContractEvent<
+    BatchesPairedEvent.InputTuple,
+    BatchesPairedEvent.OutputTuple,
+    BatchesPairedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CorrelationCompleted"
+  ): TypedContractEvent<
+    CorrelationCompletedEvent.InputTuple,
+    CorrelationCompletedEvent.OutputTuple,
+    CorrelationCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CorrelationRequested"
+  ): TypedContractEvent<
+    CorrelationRequestedEvent.InputTuple,
+    CorrelationRequestedEvent.OutputTuple,
+    CorrelationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DataSubmitted"
+  ): TypedContractEvent<
+    DataSubmittedEvent.InputTuple,
+    DataSubmittedEvent.OutputTuple,
+    DataSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DifferentialPrivacySet"
+  ): TypedContractEvent<
+    DifferentialPrivacySetEvent.InputTuple,
+    DifferentialPrivacySetEvent.OutputTuple,
+    DifferentialPrivacySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "NoiseAdded"
+  ): TypedContractEvent<
+    NoiseAddedEvent.InputTuple,
+    NoiseAddedEvent.OutputTuple,
+    NoiseAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PauseToggled"
+  ): TypedContractEvent<
+    PauseToggledEvent.InputTuple,
+    PauseToggledEvent.OutputTuple,
+    PauseToggledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrivacyThresholdsSet"
+  ): TypedContractEvent<
+    PrivacyThresholdsSetEvent.InputTuple,
+    PrivacyThresholdsSetEvent.OutputTuple,
+    PrivacyThresholdsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryCompleted"
+  ): TypedContractEvent<
+    QueryCompletedEvent.InputTuple,
+    QueryCompletedEvent.OutputTuple,
+    QueryCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueryRequested"
+  ): TypedContractEvent<
+    QueryRequestedEvent.InputTuple,
+    QueryRequestedEvent.OutputTuple,
+    QueryRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatisticsCompleted"
+  ): TypedContractEvent<
+    StatisticsCompletedEvent.InputTuple,
+    StatisticsCompletedEvent.OutputTuple,
+    StatisticsCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatisticsRequested"
+  ): TypedContractEvent<
+    StatisticsRequestedEvent.InputTuple,
+    StatisticsRequestedEvent.OutputTuple,
+    StatisticsRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchExpired(uint256,address)": TypedContractEvent<
+      BatchExpiredEvent.InputTuple,
+      BatchExpiredEvent.OutputTuple,
+      BatchExpiredEvent.OutputObject
+    >;
+    BatchExpired: TypedContractEvent<
+      BatchExpiredEvent.InputTuple,
+      BatchExpiredEvent.OutputTuple,
+      BatchExpiredEvent.OutputObject
+    >;
+
+    "BatchMetadataSet(uint256,string,string,string,bytes32,uint32,uint64)": TypedContractEvent<
+      BatchMetadataSetEvent.InputTuple,
+      BatchMetadataSetEvent.OutputTuple,
+      BatchMetadataSetEvent.OutputObject
+    >;
+    BatchMetadataSet: TypedContractEvent<
+      BatchMetadataSetEvent.InputTuple,
+      BatchMetadataSetEvent.OutputTuple,
+      BatchMetadataSetEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchPrecisionSet(uint256,uint8,uint64)": TypedContractEvent<
+      BatchPrecisionSetEvent.InputTuple,
+      BatchPrecisionSetEvent.OutputTuple,
+      BatchPrecisionSetEvent.OutputObject
+    >;
+    BatchPrecisionSet: TypedContractEvent<
+      BatchPrecisionSetEvent.InputTuple,
+      BatchPrecisionSetEvent.OutputTuple,
+      BatchPrecisionSetEvent.OutputObject
+    >;
+
+    "BatchesPaired(uint256,uint256)": TypedContractEvent<
+      BatchesPairedEvent.InputTuple,
+      BatchesPairedEvent.OutputTuple,
+      BatchesPairedEvent.OutputObject
+    >;
+    BatchesPaired: TypedContractEvent<
+      BatchesPairedEvent.InputTuple,
+      BatchesPairedEvent.OutputTuple,
+      BatchesPairedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "CorrelationCompleted(uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,bool)": TypedContractEvent<
+      CorrelationCompletedEvent.InputTuple,
+      CorrelationCompletedEvent.OutputTuple,
+      CorrelationCompletedEvent.OutputObject
+    >;
+    CorrelationCompleted: TypedContractEvent<
+      CorrelationCompletedEvent.InputTuple,
+      CorrelationCompletedEvent.OutputTuple,
+      CorrelationCompletedEvent.OutputObject
+    >;
+
+    "CorrelationRequested(uint256,uint256,uint256)": TypedContractEvent<
+      CorrelationRequestedEvent.InputTuple,
+      CorrelationRequestedEvent.OutputTuple,
+      CorrelationRequestedEvent.OutputObject
+    >;
+    CorrelationRequested: TypedContractEvent<
+      CorrelationRequestedEvent.InputTuple,
+      CorrelationRequestedEvent.OutputTuple,
+      CorrelationRequestedEvent.OutputObject
+    >;
+
+    "DataSubmitted(address,uint256,uint256)": TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+    DataSubmitted: TypedContractEvent<
+      DataSubmittedEvent.InputTuple,
+      DataSubmittedEvent.OutputTuple,
+      DataSubmittedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint64,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DifferentialPrivacySet(uint256,uint32,uint32,uint32)": TypedContractEvent<
+      DifferentialPrivacySetEvent.InputTuple,
+      DifferentialPrivacySetEvent.OutputTuple,
+      DifferentialPrivacySetEvent.OutputObject
+    >;
+    DifferentialPrivacySet: TypedContractEvent<
+      DifferentialPrivacySetEvent.InputTuple,
+      DifferentialPrivacySetEvent.OutputTuple,
+      DifferentialPrivacySetEvent.OutputObject
+    >;
+
+    "NoiseAdded(uint256,uint256,uint32,uint256)": TypedContractEvent<
+      NoiseAddedEvent.InputTuple,
+      NoiseAddedEvent.OutputTuple,
+      NoiseAddedEvent.OutputObject
+    >;
+    NoiseAdded: TypedContractEvent<
+      NoiseAddedEvent.InputTuple,
+      NoiseAddedEvent.OutputTuple,
+      NoiseAddedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PauseToggled(bool)": TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+    PauseToggled: TypedContractEvent<
+      PauseToggledEvent.InputTuple,
+      PauseToggledEvent.OutputTuple,
+      PauseToggledEvent.OutputObject
+    >;
+
+    "PrivacyThresholdsSet(uint32,uint32)": TypedContractEvent<
+      PrivacyThresholdsSetEvent.InputTuple,
+      PrivacyThresholdsSetEvent.OutputTuple,
+      PrivacyThresholdsSetEvent.OutputObject
+    >;
+    PrivacyThresholdsSet: TypedContractEvent<
+      PrivacyThresholdsSetEvent.InputTuple,
+      PrivacyThresholdsSetEvent.OutputTuple,
+      PrivacyThresholdsSetEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "QueryCompleted(uint256,uint256,uint8,uint256)": TypedContractEvent<
+      QueryCompletedEvent.InputTuple,
+      QueryCompletedEvent.OutputTuple,
+      QueryCompletedEvent.OutputObject
+    >;
+    QueryCompleted: TypedContractEvent<
+      QueryCompletedEvent.InputTuple,
+      QueryCompletedEvent.OutputTuple,
+      QueryCompletedEvent.OutputObject
+    >;
+
+    "QueryRequested(uint256,uint256,uint8,bool,uint32,uint32)": TypedContractEvent<
+      QueryRequestedEvent.InputTuple,
+      QueryRequestedEvent.OutputTuple,
+      QueryRequestedEvent.OutputObject
+    >;
+    QueryRequested: TypedContractEvent<
+      QueryRequestedEvent.InputTuple,
+      QueryRequestedEvent.OutputTuple,
+      QueryRequestedEvent.OutputObject
+    >;
+
+    "StatisticsCompleted(uint256,uint256,uint8,uint64,bytes)": TypedContractEvent<
+      StatisticsCompletedEvent.InputTuple,
+      StatisticsCompletedEvent.OutputTuple,
+      StatisticsCompletedEvent.OutputObject
+    >;
+    StatisticsCompleted: TypedContractEvent<
+      StatisticsCompletedEvent.InputTuple,
+      StatisticsCompletedEvent.OutputTuple,
+      StatisticsCompletedEvent.OutputObject
+    >;
+
+    "StatisticsRequested(uint256,uint256,uint8,uint32[])": TypedContractEvent<
+      StatisticsRequestedEvent.InputTuple,
+      StatisticsRequestedEvent.OutputTuple,
+      StatisticsRequestedEvent.OutputObject
+    >;
+    StatisticsRequested: TypedContractEvent<
+      StatisticsRequestedEvent.InputTuple,
+      StatisticsRequestedEvent.OutputTuple,
+      StatisticsRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,640 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace DiscoveryRegistry {
+  export type DiscoveryStruct = {
+    owner: AddressLike;
+    timestamp: BigNumberish;
+    status: BigNumberish;
+    category: string;
+    value: BytesLike;
+    hypothesisHash: BytesLike;
+  };
+
+  export type DiscoveryStructOutput = [
+    owner: string,
+    timestamp: bigint,
+    status: bigint,
+    category: string,
+    value: string,
+    hypothesisHash: string
+  ] & {
+    owner: string;
+    timestamp: bigint;
+    status: bigint;
+    category: string;
+    value: string;
+    hypothesisHash: string;
+  };
+}
+
+export interface DiscoveryRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_PAGE_SIZE"
+      | "addCategoryReviewer"
+      | "addReviewer"
+      | "canReview"
+      | "discoveryCount"
+      | "getDiscoveries"
+      | "getDiscovery"
+      | "getDiscoveryCountByOwner"
+      | "getDiscoveryIdsByOwner"
+      | "isCategoryReviewer"
+      | "isReviewer"
+      | "owner"
+      | "protocolId"
+      | "removeCategoryReviewer"
+      | "removeReviewer"
+      | "setStatus"
+      | "submitDiscovery"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DiscoveryStatusChanged"
+      | "DiscoverySubmitted"
+      | "OwnershipTransferred"
+      | "ReviewerAdded"
+      | "ReviewerRemoved"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addCategoryReviewer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canReview",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "discoveryCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDiscoveries",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDiscovery",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDiscoveryCountByOwner",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDiscoveryIdsByOwner",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCategoryReviewer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeCategoryReviewer",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeReviewer",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setStatus",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitDiscovery",
+    values: [string, BytesLike, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addCategoryReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "canReview", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "discoveryCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDiscoveries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDiscovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDiscoveryCountByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDiscoveryIdsByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isCategoryReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isReviewer", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeCategoryReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeReviewer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setStatus", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitDiscovery",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DiscoveryStatusChangedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    status: BigNumberish,
+    reviewer: AddressLike
+  ];
+  export type OutputTuple = [id: bigint, status: bigint, reviewer: string];
+  export interface OutputObject {
+    id: bigint;
+    status: bigint;
+    reviewer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DiscoverySubmittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    category: string,
+    value: BytesLike,
+    hypothesisHash: BytesLike,
+    hypothesis: string
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    owner: string,
+    category: string,
+    value: string,
+    hypothesisHash: string,
+    hypothesis: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    category: string;
+    value: string;
+    hypothesisHash: string;
+    hypothesis: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerAddedEvent {
+  export type InputTuple = [reviewer: AddressLike, category: string];
+  export type OutputTuple = [reviewer: string, category: string];
+  export interface OutputObject {
+    reviewer: string;
+    category: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReviewerRemovedEvent {
+  export type InputTuple = [reviewer: AddressLike, category: string];
+  export type OutputTuple = [reviewer: string, category: string];
+  export interface OutputObject {
+    reviewer: string;
+    category: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DiscoveryRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): DiscoveryRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: DiscoveryRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  addCategoryReviewer: TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  addReviewer: TypedContractMethod<
+    [reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  canReview: TypedContractMethod<
+    [id: BigNumberish, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  discoveryCount: TypedContractMethod<[], [bigint], "view">;
+
+  getDiscoveries: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], DiscoveryRegistry.DiscoveryStructOutput[]] & {
+        ids: bigint[];
+        page: DiscoveryRegistry.DiscoveryStructOutput[];
+      }
+    ],
+    "view"
+  >;
+
+  getDiscovery: TypedContractMethod<
+    [id: BigNumberish],
+    [DiscoveryRegistry.DiscoveryStructOutput],
+    "view"
+  >;
+
+  getDiscoveryCountByOwner: TypedContractMethod<
+    [discoveryOwner: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getDiscoveryIdsByOwner: TypedContractMethod<
+    [discoveryOwner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  isCategoryReviewer: TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isReviewer: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeCategoryReviewer: TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  removeReviewer: TypedContractMethod<
+    [reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setStatus: TypedContractMethod<
+    [id: BigNumberish, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  submitDiscovery: TypedContractMethod<
+    [
+      category: string,
+      encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      hypothesis: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addCategoryReviewer"
+  ): TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addReviewer"
+  ): TypedContractMethod<[reviewer: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "canReview"
+  ): TypedContractMethod<
+    [id: BigNumberish, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "discoveryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getDiscoveries"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [
+      [bigint[], DiscoveryRegistry.DiscoveryStructOutput[]] & {
+        ids: bigint[];
+        page: DiscoveryRegistry.DiscoveryStructOutput[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDiscovery"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [DiscoveryRegistry.DiscoveryStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDiscoveryCountByOwner"
+  ): TypedContractMethod<[discoveryOwner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getDiscoveryIdsByOwner"
+  ): TypedContractMethod<
+    [discoveryOwner: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isCategoryReviewer"
+  ): TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isReviewer"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeCategoryReviewer"
+  ): TypedContractMethod<
+    [category: string, reviewer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "removeReviewer"
+  ): TypedContractMethod<[reviewer: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setStatus"
+  ): TypedContractMethod<
+    [id: BigNumberish, status: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitDiscovery"
+  ): TypedContractMethod<
+    [
+      category: string,
+      encryptedValue: BytesLike,
+      inputProof: BytesLike,
+      hypothesis: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "DiscoveryStatusChanged"
+  ): TypedContractEvent<
+    DiscoveryStatusChangedEvent.InputTuple,
+    DiscoveryStatusChangedEvent.OutputTuple,
+    DiscoveryStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DiscoverySubmitted"
+  ): TypedContractEvent<
+    DiscoverySubmittedEvent.InputTuple,
+    DiscoverySubmittedEvent.OutputTuple,
+    DiscoverySubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerAdded"
+  ): TypedContractEvent<
+    ReviewerAddedEvent.InputTuple,
+    ReviewerAddedEvent.OutputTuple,
+    ReviewerAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReviewerRemoved"
+  ): TypedContractEvent<
+    ReviewerRemovedEvent.InputTuple,
+    ReviewerRemovedEvent.OutputTuple,
+    ReviewerRemovedEvent.OutputObject
+  >;
+
+  filters: {
+    "DiscoveryStatusChanged(uint256,uint8,address)": TypedContractEvent<
+      DiscoveryStatusChangedEvent.InputTuple,
+      DiscoveryStatusChangedEvent.OutputTuple,
+      DiscoveryStatusChangedEvent.OutputObject
+    >;
+    DiscoveryStatusChanged: TypedContractEvent<
+      DiscoveryStatusChangedEvent.InputTuple,
+      DiscoveryStatusChangedEvent.OutputTuple,
+      DiscoveryStatusChangedEvent.OutputObject
+    >;
+
+    "DiscoverySubmitted(uint256,address,string,bytes32,bytes32,string)": TypedContractEvent<
+      DiscoverySubmittedEvent.InputTuple,
+      DiscoverySubmittedEvent.OutputTuple,
+      DiscoverySubmittedEvent.OutputObject
+    >;
+    DiscoverySubmitted: TypedContractEvent<
+      DiscoverySubmittedEvent.InputTuple,
+      DiscoverySubmittedEvent.OutputTuple,
+      DiscoverySubmittedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "ReviewerAdded(address,string)": TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+    ReviewerAdded: TypedContractEvent<
+      ReviewerAddedEvent.InputTuple,
+      ReviewerAddedEvent.OutputTuple,
+      ReviewerAddedEvent.OutputObject
+    >;
+
+    "ReviewerRemoved(address,string)": TypedContractEvent<
+      ReviewerRemovedEvent.InputTuple,
+      ReviewerRemovedEvent.OutputTuple,
+      ReviewerRemovedEvent.OutputObject
+    >;
+    ReviewerRemoved: TypedContractEvent<
+      ReviewerRemovedEvent.InputTuple,
+      ReviewerRemovedEvent.OutputTuple,
+      ReviewerRemovedEvent.OutputObject
+    >;
+  };
+}
@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as aiDiscoveryFheSol from "./AI_Discovery_Fhe.sol";
+export type { aiDiscoveryFheSol };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { DiscoveryRegistry } from "./DiscoveryRegistry";
 export type { UniversalAdapter } from "./UniversalAdapter";
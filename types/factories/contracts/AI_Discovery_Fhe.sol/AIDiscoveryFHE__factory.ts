@@ -0,0 +1,1968 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  AIDiscoveryFHE,
+  AIDiscoveryFHEInterface,
+} from "../../../contracts/AI_Discovery_Fhe.sol/AIDiscoveryFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchTooSmall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DifferentialPrivacyEnabled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PrivacyBudgetExhausted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "QuotaExceeded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "finalizer",
+        type: "address",
+      },
+    ],
+    name: "BatchExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "units",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "schema",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "schemaHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxPointsPerProvider",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "closesAt",
+        type: "uint64",
+      },
+    ],
+    name: "BatchMetadataSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum AIDiscoveryFHE.Precision",
+        name: "precision",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "scale",
+        type: "uint64",
+      },
+    ],
+    name: "BatchPrecisionSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pairedBatchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchesPaired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumX",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumY",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumXY",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumXX",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sumYY",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overflowed",
+        type: "bool",
+      },
+    ],
+    name: "CorrelationCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "pairedBatchId",
+        type: "uint256",
+      },
+    ],
+    name: "CorrelationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "DataSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "result",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "scale",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overflowed",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxValue",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "epsilon",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "budget",
+        type: "uint32",
+      },
+    ],
+    name: "DifferentialPrivacySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "epsilon",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noiseScale",
+        type: "uint256",
+      },
+    ],
+    name: "NoiseAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bool",
+        name: "isPaused",
+        type: "bool",
+      },
+    ],
+    name: "PauseToggled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minBatchPoints",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minBatchProviders",
+        type: "uint32",
+      },
+    ],
+    name: "PrivacyThresholdsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum AIDiscoveryFHE.QueryKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "QueryCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum AIDiscoveryFHE.QueryKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "encryptedThresholds",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "lower",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "upper",
+        type: "uint32",
+      },
+    ],
+    name: "QueryRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "statsMask",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "scale",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "StatisticsCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "statsMask",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint32[]",
+        name: "bucketBounds",
+        type: "uint32[]",
+      },
+    ],
+    name: "StatisticsRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_SCALE",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_HISTOGRAM_BOUNDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAT_HISTOGRAM",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAT_MAX",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAT_MEAN",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAT_MIN",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STAT_VARIANCE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchPrecision",
+    outputs: [
+      {
+        internalType: "enum AIDiscoveryFHE.Precision",
+        name: "precision",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "scale",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "correlationCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "correlationContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "differentialPrivacy",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "maxValue",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "epsilon",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "budget",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "spent",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedDataBatches",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeExpiredBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchMetadata",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "units",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "schemaHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPointsPerProvider",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "closesAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIDiscoveryFHE.BatchMetadata",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchSize",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getDecryptionHandles",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchExpired",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "meetsPrivacyThresholds",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBatchPoints",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minBatchProviders",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "units",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "schema",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPointsPerProvider",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "closesAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIDiscoveryFHE.BatchDescriptor",
+        name: "descriptor",
+        type: "tuple",
+      },
+    ],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "units",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "schema",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPointsPerProvider",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "closesAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIDiscoveryFHE.BatchDescriptor",
+        name: "descriptor",
+        type: "tuple",
+      },
+      {
+        internalType: "enum AIDiscoveryFHE.Precision",
+        name: "precision",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "scale",
+        type: "uint64",
+      },
+    ],
+    name: "openBatchWithPrecision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "units",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "schema",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPointsPerProvider",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "closesAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIDiscoveryFHE.BatchDescriptor",
+        name: "x",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "units",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "schema",
+            type: "string",
+          },
+          {
+            internalType: "uint32",
+            name: "maxPointsPerProvider",
+            type: "uint32",
+          },
+          {
+            internalType: "uint64",
+            name: "closesAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct AIDiscoveryFHE.BatchDescriptor",
+        name: "y",
+        type: "tuple",
+      },
+    ],
+    name: "openPairedBatches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "pairedBatchId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "pairedBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pointsSubmitted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "providerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "queryCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "queryContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AIDiscoveryFHE.QueryKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestCorrelation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestDiscovery",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AIDiscoveryFHE.QueryKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "lower",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "upper",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "requestEncryptedThresholdQuery",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "statsMask",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32[]",
+        name: "bucketBounds",
+        type: "uint32[]",
+      },
+    ],
+    name: "requestStatistics",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AIDiscoveryFHE.QueryKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "lower",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "upper",
+        type: "uint32",
+      },
+    ],
+    name: "requestThresholdQuery",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_cooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "maxValue",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "epsilon",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "budget",
+        type: "uint32",
+      },
+    ],
+    name: "setDifferentialPrivacy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_paused",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "_minBatchPoints",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "_minBatchProviders",
+        type: "uint32",
+      },
+    ],
+    name: "setPrivacyThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "statisticsCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "statisticsContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "statsMask",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "dataPoints",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "xs",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "ys",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPairedData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001ce575f606062000018620001d2565b8281528260208201528284820152015262000032620001d2565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3601280546001600160401b0319166401000000011790558051600180825260208201527f4f26024365e67477b4b66660467aef351cdf60e7b0330daca2cfb5a7a9045f81908290a151615d909081620002078239f35b5f80fd5b60405190608082016001600160401b03811183821017620001f257604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f3560e01c9081630a763da1146138fb57508063124bd04b146137d857806316c38b3c14613774578063200ac78b146134fb5780632a2f6ea4146132465780633006ea18146131f4578063340fbdb6146130d25780633e57d6af14612f50578063402dce6d14612f3257806346e2577a14612ec15780634e3dc2f114612ea65780635692d0cd146129975780635a94a0791461295f5780635c975abb1461293d5780635cd905641461289157806363029f96146128405780636a42ba92146128185780636b074a07146127db57806372ff0dbb146127c0578063763c53ed146126be57806379663abc146126a35780637b5b1157146126505780637c6d09c5146125fd5780637f448936146125b85780638a355a571461253b5780638da5cb5b1461251457806392e4b1fa1461245a5780639912627f146123675780639f4c3ba414611d7b5780639ff2c72914611d58578063a2c0add214611ca2578063a436547614611c6a578063ac96fe6214611bb0578063b1b0d20114611b95578063b65e894114611b5d578063b817fc65146110ec578063b8221bc4146110cf578063b9003d641461108a578063b955e9b914611060578063bb75c0a814611036578063c332298514611007578063d090e98114610fe2578063d2c411d314610f9c578063d9d9f10d14610f53578063da1f12ab14610f37578063da77afb014610f1c578063dd30362f14610ef2578063de4c62c514610dda578063e0e3a8ec14610dbe578063e492d75014610d70578063ef05ac5414610d2a578063f1433eb614610d0f578063f2fde38b14610ca7578063f64fba5c14610c63578063f74b2b75146103a45763f925f2d614610284575f80fd5b346103a0576003196040368201126103a057600435906001600160401b038083116103a05760a08284360301126103a057602435918183116103a05760a09083360301126103a0575f546001600160a01b0316330361038e5760ff6002541661037c576102f360848401613e07565b908061030160848501613e07565b1691160361036a5761032361031a604093600401614cf0565b91600401614cf0565b815f52600f60205280835f2055805f5281835f205582519181817f26fc4d6a972f57f001cd90fb3eec0ff0a7a6d5abaec5182972db4cb7f5a108175f80a382526020820152f35b604051630309cb8760e51b8152600490fd5b6040516313d0ff5960e31b8152600490fd5b6040516330cd747160e01b8152600490fd5b5f80fd5b346103a05760203660031901126103a057335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f5260056020526103ed60405f205460035490613c0d565b4210610c3f57335f5260056020524260405f20556004355f52600760205260ff60405f205416610c2d576004355f52600860205260405f20805415610c2d57610437600435613c55565b15610c1b576004355f52600b60205260405f206040519061045782613966565b549160ff831661046681613bbe565b82526001600160401b03602083019360081c1683526104858282615346565b819491936004355f52601460205260405f20955f945f94885463ffffffff8160201c169081610841575b505050505050604051936104c285613915565b6002855260403660208701376104d785613dd6565b526104e184613de3565b525f80516020615d64833981519152545f80516020615d44833981519152549093905f906001600160a01b03908116803b156103a0575f6040518092637d6e912360e11b82526020600483015281838161053e602482018b613abb565b03925af1801561083657610823575b505f80516020615d248339815191525416803b1561081f57816040518092633263b83b60e01b825288600483015260606024830152818381610592606482018a613abb565b63124bd04b60e01b604483015203925af18015610814579082916107fd575b508590525f80516020615cc48339815191528060205260408220546107eb57858252602052604081208251916001600160401b0383116107d757600160401b83116107d75781548383558084106107b1575b506020840191815260208120905b83811061079d57505050506106335f80516020615d6483398151915254613ff1565b5f80516020615d6483398151915255600260405161065081613915565b600435815261068e602082015f815260408301948552875f52600960205260405f2092518355511515600183019060ff801983541691151516179055565b019051908151916001600160401b03831161078957600160401b8311610789578154838355808410610763575b50602001905f5260205f205f5b83811061074f575050505060405193600435847f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a38261070657005b63ffffffff91845f52601560205260405f20555460201c16835260208301527ff1c906ada3dcd0cae3dfb5e5d382eeaf953f999e6517313b960128c3b8a4dcce604060043593a3005b6001906020845194019381840155016106c8565b825f528360205f2091820191015b81811061077e57506106bb565b5f8155600101610771565b634e487b7160e01b5f52604160045260245ffd5b600190602084519401938184015501610611565b828252836020832091820191015b8181106107cc5750610603565b5f81556001016107bf565b634e487b7160e01b81526041600452602490fd5b604051633f06d22b60e01b8152600490fd5b61080690613981565b6108115780876105b1565b80fd5b6040513d84823e3d90fd5b5080fd5b61082e919250613981565b5f908761054d565b6040513d5f823e3d90fd5b9295985092955092955063ffffffff8160601c169063ffffffff806108668585613da7565b9260401c16911611610c095761089f9161087f91613da7565b875463ffffffff60601b191660609190911b63ffffffff60601b16178755565b6108be6001600160401b03875492511692549263ffffffff8316613d94565b916103e892838102938185041490151715610be15763ffffffff6108e69260201c1690613d94565b908115610bf557049060018201809211610be1578192519161090783613bbe565b620a939b90818102918183041490151715610be157620f424090049160018301809311610be1576001600160801b0383166010600160841b038460041b16046010146001600160801b038416151715610be15760405161096681613966565b60403682375f5b60028110610ad85750805f91518015610ac6575b5f80516020615ce48339815191525460405163022f65e760e31b8152600481019290925260106024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1918215610836575f92610a89575b506010600160841b03936109fc610a3694936020610a1594015190615b88565b92610a0681613bbe565b60028103610a5b575091615698565b8015610a48575b610a30906001600160801b038616906157e2565b90615ae1565b9160041b1690928580808080806104af565b50610a30610a5461599e565b9050610a1c565b80610a67600192613bbe565b03610a7b57610a7590615698565b91615698565b610a8490615698565b610a75565b9291506020833d602011610abe575b81610aa560209383613994565b810103126103a057915190916010600160841b036109dc565b3d9150610a98565b506020610ad16159f1565b9050610981565b5f80516020615ce483398151915254604051636baeb74560e11b8152600480820152906024906020908390839082905f906001600160a01b03165af1918215610836575f92610bad575b50610b2b6159f1565b610b3584866155e7565b525f5b60108110610b4b5750505060010161096d565b610b5584866155e7565b51601f828103908111610b9a5760019291610b83610b7e63ffffffff86610b89951b1688615b0a565b6156eb565b90615ab8565b610b9386886155e7565b5201610b38565b83634e487b7160e01b5f5260116004525ffd5b9091506020813d602011610bd9575b81610bc960209383613994565b810103126103a05751908a610b22565b3d9150610bbc565b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f52601260045260245ffd5b60405163330b444360e21b8152600490fd5b604051637103b80560e01b8152600490fd5b6040516333b094a160e01b8152600490fd5b60405163aa9a98df60e01b8152600490fd5b604051631a40715960e11b8152600490fd5b346103a05760203660031901126103a0576004355f52600b602052610ca360405f2054604051918160ff6001600160401b03859460081c16911683613bdc565b0390f35b346103a05760203660031901126103a057610cc0613b27565b5f54906001600160a01b03808316913383900361038e571680926001600160601b0360a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b346103a0575f3660031901126103a057602060405160048152f35b346103a05760203660031901126103a0576004355f526011602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b346103a05760203660031901126103a0576004355f52600e602052606060405f2060ff60018254920154818116604051938452610dac81613bbe565b602084015260081c1615156040820152f35b346103a0575f3660031901126103a05760206040516103e88152f35b346103a05760a03660031901126103a05760043560243560038110156103a0576084356001600160401b0381116103a057610e19903690600401613a8e565b90335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f526005602052610e5260405f205460035490613c0d565b4210610c3f57610ecc6080917fe1ebbe83f3687c6b1aad1db4708b5157013457b51753c0c2430c8a15132ec68493335f5260056020524260405f205585610ec5610ebd610e9e8a6143b1565b94610eb5610ead3687846139b5565b604435615252565b9436916139b5565b606435615252565b9288614520565b9260405190610eda81613bbe565b8152600160208201525f60408201525f6060820152a3005b346103a05760203660031901126103a0576004355f52600f602052602060405f2054604051908152f35b346103a0575f3660031901126103a057602060405160108152f35b346103a0575f3660031901126103a05760206040516127118152f35b346103a05760403660031901126103a0576024356001600160a01b038116908190036103a0576004355f52600d60205260405f20905f52602052602060405f2054604051908152f35b346103a05760203660031901126103a0575f54600435906001600160a01b0316330361038e57805f52600760205260ff60405f20541615610c2d57610fe0906151e9565b005b346103a0575f3660031901126103a057602060125463ffffffff60405191831c168152f35b346103a05760203660031901126103a0576004355f526007602052602060ff60405f2054166040519015158152f35b346103a05760203660031901126103a0576004355f526013602052602060405f2054604051908152f35b346103a05760203660031901126103a0576004355f526008602052602060405f2054604051908152f35b346103a05760203660031901126103a0576004355f52600a602052606060405f2060ff60018254920154604051928352818116602084015260081c1615156040820152f35b346103a0575f3660031901126103a0576020600354604051908152f35b346103a05760603660031901126103a05760ff60243516602435036103a0576044356001600160401b0381116103a05761112a903690600401613a5e565b335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f52600560205261116260405f205460035490613c0d565b4210610c3f57335f5260056020524260405f20556111816004356143b1565b9060ff60243516158015611b4f575b61036a5780151560106024351615150361036a57600f811161036a5760015b818110611b0f57506004355f52600b60205260405f206001600160401b03604051916111da83613966565b5460ff81166111e881613bbe565b835260081c16602082015282545f9360015b601060ff821610611ae35750601060243516611ac4575b600160243516611ab4575b61123e61122886613dbf565b956112366040519788613994565b808752613dbf565b601f19013660208701375f915f93600160243516611a90575b5060026024351661189e575b6004602435166117a2575b60086024351661169f575b6010602435166115d2575b50506001602435166115c0575b50505f80516020615d64833981519152545f80516020615d44833981519152549092905f906001600160a01b03908116803b156103a0575f6040518092637d6e912360e11b8252602060048301528183816112ef602482018b613abb565b03925af18015610836576115ad575b505f80516020615d248339815191525416803b1561081f57816040518092633263b83b60e01b825287600483015260606024830152818381611343606482018a613abb565b63497258fd60e11b604483015203925af1801561081457908291611599575b508490525f80516020615cc48339815191528060205260408220546107eb57848252602052604081208251916001600160401b0383116107d757600160401b83116107d7578154838355808410611572575b506020840191815260208120905b83811061155e57505050506113e45f80516020615d6483398151915254613ff1565b5f80516020615d6483398151915255600260405161140181613930565b600435815261145f6020820160ff602435168152604083015f815260608401958652875f52600a60205260405f209351845560ff6001850192511660ff1983541617825551151561ff00825491151560081b169061ff001916179055565b019051908151916001600160401b03831161078957600160401b8311610789578154838355808410611538575b50602001905f5260205f205f5b838110611524575050505060405190806040830160ff60243516845260406020850152526060820193905f905b8082106114fc57505050807f84161248efbbce77a97890c689e0a1117cb9d83c354f89575f79d17f10c5afcf91600435940390a3005b90919485359063ffffffff82168092036103a0576020816001938293520196019201906114c6565b600190602084519401938184015501611499565b825f528360205f2091820191015b818110611553575061148c565b5f8155600101611546565b6001906020845194019381840155016113c2565b82825260208220908482015b818301811061158e5750506113b4565b5f815560010161157e565b6115a290613981565b610811578086611362565b6115b8919250613981565b5f90866112fe565b6115ca9084613df3565b528380611291565b6115da6159f1565b915f905b86821061161a575050906115fa63ffffffff6115ff93166158fc565b615b88565b61161261160b83613ff1565b9286613df3565b528580611284565b90926116246159f1565b905f5b8a868a868885106116605750505050509061164460019282615b88565b61165761165088613ff1565b978b613df3565b529301906115de565b6116989361169261168d879995610b839561168060019a610b7e97613b63565b90549060031b1c94613fff565b614cbf565b90615b0a565b9201611627565b6116a882613b3d565b90549060031b1c60015b8281106116d357506116cd6116c685613ff1565b9488613df3565b52611279565b906116de8285613b63565b90549060031b1c8115611792575b8015611780575b602090606460018060a01b035f80516020615ce48339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af18015610836575f9061174d575b6001915091016116b2565b506020813d602011611778575b8161176760209383613994565b810103126103a05760019051611742565b3d915061175a565b50602061178b6159f1565b90506116f3565b905061179c6159f1565b906116ec565b6117ab82613b3d565b90549060031b1c60015b8281106117cf57506117c96116c685613ff1565b5261126e565b906117da8285613b63565b90549060031b1c811561188e575b801561187c575b602090606460018060a01b035f80516020615ce48339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af18015610836575f90611849575b6001915091016117b5565b506020813d602011611874575b8161186360209383613994565b810103126103a0576001905161183e565b3d9150611856565b5060206118876159f1565b90506117ef565b90506118986159f1565b906117e8565b6118a661594b565b6118ae61599e565b905f5b838110611a4d5750906118c661190b92615698565b908015611a36575b6118e56118f8916001600160801b038616906157e2565b9180801580611a26575b611a165761578e565b908015611a08575b81156119f857615c10565b80156119e4575b5f80516020615ce483398151915254604051630afe14ad60e31b815260048101929092526103e86024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610836575f906119b0575b61199091506001600160801b036119838480613d94565b169080156119a257615c64565b61199c6116c685613ff1565b52611263565b506119ab61599e565b615c64565b506020813d6020116119dc575b816119ca60209383613994565b810103126103a057611990905161196c565b3d91506119bd565b505f60206119f061599e565b915050611912565b9050611a0261599e565b90615c10565b50611a1161599e565b611900565b9050611a2061599e565b9061578e565b9050611a3061599e565b906118ef565b506118f86118e5611a4561599e565b9150506118ce565b91611a89600191610a30611a84611a7d611a76611a6a898c613b63565b90549060031b1c615645565b8097614277565b95806142a6565b615698565b92016118b1565b90935081611a9f929350615346565b9260019291611aad87613dd6565b5287611257565b93611abe90613ff1565b9361121c565b93600184018411610be157611add906001850190613c0d565b93611211565b60ff816024351616611afb575b60011b60fe166111fa565b94611b0760fe91613ff1565b959050611af0565b611b1d61168d828487613fff565b815f19810111610be15763ffffffff80611b3e61168d5f198601878a613fff565b169116111561036a576001016111af565b5060e0602435161515611190565b346103a05760203660031901126103a0576004355f5260096020526040805f2060ff6001825492015416825191825215156020820152f35b346103a0575f3660031901126103a0576020604051600f8152f35b346103a057611bbe36613a18565b9190815f52600e60205260405f2090600182019360ff855460081c16611c5857611bf690611bef6002850186613e1b565b8285613e8c565b6020818051810103126103a0577f27efee96508b06f90bf880af51484399085f0a7f528cac3823d0cd8ec4b14b369160ff602060409301519186549661010061ff0019891617905554951690825191611c4e81613bbe565b82526020820152a3005b60405163faf8ed4f60e01b8152600490fd5b346103a05760203660031901126103a0576001600160a01b03611c8b613b27565b165f526004602052602060405f2054604051908152f35b346103a05760603660031901126103a0576004356001600160401b036024358181116103a057611cd6903690600401613a5e565b916044359081116103a057611cef903690600401613a8e565b929091335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f526004602052611d2a60405f205460035490613c0d565b4210610c3f57335f5260046020524260405f2055845f52600f60205260405f2054610c2d57610fe09461400f565b346103a0575f3660031901126103a057602063ffffffff60125416604051908152f35b346103a0576003196060368201126103a0576001600160401b03600435116103a05760a090600435360301126103a05760243560038110156103a0576001600160401b036044351680604435036103a0575f546001600160a01b0316330361038e5760ff6002541661037c5780158015612348575b61036a57611e02600480350180614c8d565b90501561036a576001600160401b03611e1f608460043501613e07565b16151580612327575b61036a57611e37600654613ff1565b806006555f52600760205260405f20600160ff1982541617905560405190611e5e82613966565b611e6783613bbe565b828252602082019081526006545f52600b60205260405f20915190611e8b82613bbe565b611e9482613bbe565b60ff68ffffffffffffffff008454925160081b1692169068ffffffffffffffffff191617179055611ed9611ed2604460043501600435600401614c8d565b36916139b5565b8051602090910120906001600160401b03611ef8600480350180614c8d565b919063ffffffff611f4f611f16602460043501600435600401614c8d565b9190611f26606460043501614cbf565b92611f46611f38608460043501613e07565b9660405199611ed28b61394b565b885236916139b5565b60208601528660408601521660608401521660808201526006545f52600c60205260405f2081518051906001600160401b038211610789578190611f938454613cba565b601f81116122da575b50602090601f8311600114612272575f92612267575b50508160011b915f199060031b1c19161781555b60208201518051906001600160401b03821161078957611fe96001840154613cba565b601f8111612223575b50602090601f83116001146121975793600360c094846120dc99955f80516020615d0483398151915299956001600160401b03995f9261218c575b50505f1982851b1c1916600191821b17908201555b60408301516002820155019063ffffffff6060820151166bffffffffffffffff000000006080845493015160201b16916001600160601b031916171790557f32577192bbbc1f0e651866ba014de6593be16ad654a390b365e7ff6f79d6e0b1600654968792604051918291857fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a26044359083613bdc565b0390a26120ed600480350180614c8d565b939063ffffffff61217561210b602460043501600435600401614c8d565b9190612167612124604460043501600435600401614c8d565b919092612135606460043501614cbf565b95612159612147608460043501613e07565b996040519e8f9e8f8181520191614cd0565b8c810360208e015291614cd0565b9189830360408b0152614cd0565b9460608701521660808501521660a08301520390a2005b015190508b8061202d565b90600184015f5260205f20915f5b601f198516811061220b575060c0946001855f80516020615d0483398151915299956001600160401b0399956003956120dc9d99601f198116106121f4575b505050811b016001820155612042565b01515f1983871b60f8161c191690558b80806121e4565b919260206001819286850151815501940192016121a5565b600184015f5260205f20601f840160051c810160208510612260575b601f830160051c82018110612255575050611ff2565b5f815560010161223f565b508061223f565b015190508680611fb2565b9250835f5260205f20905f935b601f19841685106122bf576001945083601f198116106122a7575b505050811b018155611fc6565b01515f1960f88460031b161c1916905586808061229a565b8181015183556020948501946001909301929091019061227f565b909150835f5260205f20601f840160051c810160208510612320575b90849392915b601f830160051c82018110612312575050611f9c565b5f81558594506001016122fc565b50806122f6565b50612336608460043501613e07565b6001600160401b034291161115611e28565b5061235282613bbe565b81158015611df0575063ffffffff8111611df0565b346103a0576020806003193601126103a05760a0905f608060405161238b8161394b565b6060815260608482015282604082015282606082015201526004355f52600c815260405f20604051916123bd8361394b565b6123c682613cf2565b83526123d460018301613cf2565b81840190815260036002840154936040860194855201549063ffffffff906124416060870191838516835261242e6001600160401b03968760808b0197821c1687526040519a8b9a828c5251918b015260c08a0190613b99565b9051888203601f190160408a0152613b99565b9451606087015251166080850152511660a08301520390f35b346103a05761246836613a18565b825f93929352600a60205260405f206001810160ff815460081c16611c585761250f826124c67f0acf05a970963d671ddcfeb42d03c2263c546eb5691c27c57353affe98e156ab956124bf600260ff970189613e1b565b8888613e8c565b82549261010061ff001985161790555495865f52600b6020526001600160401b0360405f205460081c166040519485941684526020840152606060408401526060830190613b99565b0390a3005b346103a0575f3660031901126103a0575f546040516001600160a01b039091168152602090f35b346103a05760203660031901126103a057612554613b27565b5f546001600160a01b0391908216330361038e5716805f52600160205260ff60405f2054161561036a57805f52600160205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b346103a05760403660031901126103a0576024356004355f52600860205260405f2080548210156103a0576020916125ef91613b63565b90546040519160031b1c8152f35b346103a05760203660031901126103a05760043561261a81613c91565b15610c2d57612628816151e9565b33907f6ebe8847d0f134b93785bad54c86f4524c2b19dd441fe99c5fa5864aea3bdee45f80a3005b346103a05760203660031901126103a0575f54600435906001600160a01b0316330361038e57600354816003557f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a735f80a3005b346103a0575f3660031901126103a057602060405160018152f35b346103a0576126cc36613a18565b9190815f52601160205260405f2092600284019060ff825416611c585784549460016126ff6126fa88614445565b6144e9565b910154036127ae57612712908385613e8c565b60c0828051810103126103a0578160e09160207fe2e55b28f4fbbf475fcff0bfaee54874718d5ebd14136c577a197a9439fef1a8940151916040810151606082015160808301519161276b60c060a08601519501613c00565b94600160ff19825416179055895f52600860205260405f205495604051968752602087015260408601526060850152608084015260a0830152151560c0820152a3005b6040516313b304fb60e21b8152600490fd5b346103a0575f3660031901126103a057602060405160028152f35b346103a05760203660031901126103a0576001600160a01b036127fc613b27565b165f526001602052602060ff60405f2054166040519015158152f35b346103a05760203660031901126103a0576020612836600435613c91565b6040519015158152f35b346103a05760203660031901126103a0576004355f526014602052608060405f205463ffffffff604051918181168352818160201c166020840152818160401c16604084015260601c166060820152f35b346103a05760403660031901126103a05760043563ffffffff8082168092036103a0576128bc613b14565b5f549091906001600160a01b0316330361038e5781169182158015612934575b61036a577f4f26024365e67477b4b66660467aef351cdf60e7b0330daca2cfb5a7a9045f81926040928267ffffffff000000006012549260201b16916001600160401b031916171760125582519182526020820152a1005b508281106128dc565b346103a0575f3660031901126103a057602060ff600254166040519015158152f35b346103a05760203660031901126103a0576001600160a01b03612980613b27565b165f526005602052602060405f2054604051908152f35b346103a0576003196020368201126103a0576004356001600160401b0381116103a05760a0816004019282360301126103a0575f546001600160a01b0316330361038e5760ff6002541661037c576129ef8280614c8d565b90501561036a576001600160401b03612a0a60848301613e07565b16151580612e87575b61036a57612a22600654613ff1565b806006555f52600760205260405f20600160ff1982541617905560405190612a4982613966565b5f825260208201916103e8928381526006545f52600b60205260405f20915190612a7282613bbe565b612a7b82613bbe565b60ff68ffffffffffffffff008454925160081b1692169068ffffffffffffffffff191617179055612ab2611ed26044830185614c8d565b6020815191012092612ac48180614c8d565b6024840194916001600160401b039063ffffffff612b03612ae58988614c8d565b9190612af360648b01614cbf565b92611f46611f3860848d01613e07565b60208601528960408601521660608401521660808201526006545f52600c60205260405f2081518051906001600160401b038211610789578190612b478454613cba565b601f8111612e3a575b50602090601f8311600114612dd2575f92612dc7575b50508160011b915f199060031b1c19161781555b60208201518051906001600160401b03821161078957612b9d6001840154613cba565b601f8111612d7f575b50602090601f8311600114612ce357612cba60c09760409b976001600160401b039760035f80516020615d048339815191529d988863ffffffff99612cad9f99612175995f92612cd8575b50505f1982851b1c1916600191821b17908201555b8f83015160028201550190876060820151166bffffffffffffffff000000006080845493015160201b16916001600160601b031916171790557f32577192bbbc1f0e651866ba014de6593be16ad654a390b365e7ff6f79d6e0b16006549d8e92815190847fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a25f82526020820152a2612167612ca48280614c8d565b9b909783614c8d565b9390926044870190614c8d565b9290936121596121476084612cd160648b01614cbf565b9901613e07565b015190505f80612bf1565b90600184015f5260205f20915f5b601f1985168110612d67575060c09760409b976001600160401b039760035f80516020615d048339815191529d98600189612cad9f9961217599612cba9963ffffffff9d601f19811610612d50575b505050811b016001820155612c06565b01515f1983871b60f8161c191690555f8080612d40565b91926020600181928685015181550194019201612cf1565b600184015f5260205f20601f840160051c81019160208510612dbd575b601f0160051c01905b818110612db25750612ba6565b5f8155600101612da5565b9091508190612d9c565b015190508980612b66565b9250835f5260205f20905f935b601f1984168510612e1f576001945083601f19811610612e07575b505050811b018155612b7a565b01515f1960f88460031b161c19169055898080612dfa565b81810151835560209485019460019093019290910190612ddf565b909150835f5260205f20601f840160051c810160208510612e80575b90849392915b601f830160051c82018110612e72575050612b50565b5f8155859450600101612e5c565b5080612e56565b50612e9460848201613e07565b6001600160401b034291161115612a13565b346103a0575f3660031901126103a057602060405160088152f35b346103a05760203660031901126103a057612eda613b27565b5f546001600160a01b0391908216330361038e5716801561036a57805f52600160205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b346103a05760203660031901126103a0576020612836600435613c55565b346103a05760803660031901126103a057600435612f6c613b14565b612f74613aee565b90612f7d613b01565b5f546001600160a01b0316330361038e57835f526020926007845260ff60405f2054161580156130c1575b80156130b0575b610c2d5763ffffffff80931691821580156130a6575b8015613099575b61036a577fd360fec4a54b9d93033d9a904ef1efecd1dcead989db886700d6a76c82d95d70946130886060956040519061300582613930565b868252808483019616948587528160408401911696878252898401915f83528c5f52601487528360405f209551166bffffffff000000000000000067ffffffff00000000875494518a1b16925160401b16926001600160601b0319161717178355511681549063ffffffff60601b9060601b169063ffffffff60601b1916179055565b6040519384528301526040820152a2005b5083821684821610612fcc565b5083821615612fc5565b50600f845260405f20541515612faf565b506008845260405f20541515612fa8565b346103a05760803660031901126103a05760043560243560038110156103a0576130fa613aee565b90613103613b01565b90335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f52600560205261313c60405f205460035490613c0d565b4210610c3f57335f5260056020524260405f2055613159846143b1565b9061316381613bbe565b60028114806131e2575b61036a577fe1ebbe83f3687c6b1aad1db4708b5157013457b51753c0c2430c8a15132ec684926131bf60809363ffffffff809716966131ab886158fc565b931692846131b8856158fc565b928a614520565b94604051926131cd81613bbe565b83525f602084015260408301526060820152a3005b5063ffffffff8084169085161161316d565b346103a05760203660031901126103a0576004355f526009602052610ca361322b613232600260405f200160405192838092613c1a565b0382613994565b604051918291602083526020830190613abb565b346103a0576020806003193601126103a057600435335f52600180835260ff60405f20541615610c515760ff6002541661037c57335f526005835261329260405f205460035490613c0d565b4210610c3f57335f52600583524260405f2055815f52600f835260405f2054918215610c2d57828110156134f55791925b6132cc836143b1565b506132d683614445565b5f80516020615d6483398151915280545f80516020615d44833981519152549094905f906001600160a01b03908116803b156103a0575f6040518092637d6e912360e11b8252896004830152818381613332602482018d613abb565b03925af18015610836576134e2575b505f80516020615d248339815191525416803b1561081f57816040518092633263b83b60e01b825289600483015260606024830152818381613386606482018c613abb565b63763c53ed60e01b604483015203925af18015610814579082916134ce575b508690525f80516020615cc483398151915280865260408220546107eb578682528552604081208451916001600160401b0383116107d757600160401b83116107d75781548383558084106134a7575b50868601918152868120905b838110613496578a8a8a6134708b60026134278d8d6134208154613ff1565b90556144e9565b916040519261343584613915565b868452818401908152601160408501925f8452875f525260405f209351845551600184015551151591019060ff801983541691151516179055565b7f25d065187379e41ec0b68d08d46cc46960af976c727a1b6ce9d3d6fe0b0313fe5f80a4005b825182820155918701918401613401565b828252848489842092830192015b8281106134c35750506133f5565b5f81550185906134b5565b6134d790613981565b6108115780896133a5565b6134ed919250613981565b5f9089613341565b926132c3565b346103a05760803660031901126103a0576001600160401b036024358181116103a05761352c903690600401613a5e565b906044358381116103a057613545903690600401613a5e565b9290936064359081116103a057613560903690600401613a8e565b939093335f52600160205260ff60405f20541615610c515760ff6002541661037c57335f52600460205261359b60405f205460035490613c0d565b4210610c3f57335f5260046020524260405f20556004355f52600f60205260405f2054948515610c2d5782840361036a576135f7926004355f5260089760086020526135f184848860405f20549a60043561400f565b8761400f565b82600435105f146137695760043591925b825f52601060205260405f209284936001810160028201976003830193600484019660058501985b61363a828c613c0d565b81101561373f57906001826137348e61372e8d8f61372e908f8f8f8f908f8f9461363a9f93613696611a6a61372e96613724956137249a5f5280602052613687611a6a8360405f20613b63565b955f5260205260405f20613b63565b936136a2838254614277565b90556136af848254614277565b90556136e46136d6604051926136c484613915565b6136ce86826142a6565b8452806142a6565b9360208301948552806142a6565b96604082019788526136f98c54835190614277565b8c556137088654855190614277565b86556137178a54895190614277565b8a55549a549051906142cf565b92549051906142cf565b906142fe565b8c5501909150613630565b50610fe0896137618a6137618f6137618c916137618c6137618f543090615895565b309054615895565b600435929192613608565b346103a05760203660031901126103a0576004358015158091036103a0575f546001600160a01b0316330361038e5760ff196002541660ff8216176002557f9077d36bc00859b5c3f320310707208543dd35092cb0a0fe117d0c6a558b148b5f80a2005b346103a0576137e636613a18565b9190815f526020926009845260ff600160405f20015416611c585761382390835f526009855261381c600260405f200185613e1b565b8284613e8c565b6040818051810103126103a0576138406040848301519201613c00565b90825f526015845260405f20548082115f146138ce578103908111610be1577f932cbed98ccb3676f315f0186299dd4dcb7655690cecc004aab04a9a6f28a0a891606091905b845f526009865260405f2060018101600160ff198254161790555495865f52600b81526001600160401b0360405f205460081c169060405193845283015215156040820152a3005b505060607f932cbed98ccb3676f315f0186299dd4dcb7655690cecc004aab04a9a6f28a0a8915f90613886565b346103a0575f3660031901126103a0576020906006548152f35b606081019081106001600160401b0382111761078957604052565b608081019081106001600160401b0382111761078957604052565b60a081019081106001600160401b0382111761078957604052565b604081019081106001600160401b0382111761078957604052565b6001600160401b03811161078957604052565b90601f801991011681019081106001600160401b0382111761078957604052565b9291926001600160401b03821161078957604051916139de601f8201601f191660200184613994565b8294818452818301116103a0578281602093845f960137010152565b9080601f830112156103a057816020613a15933591016139b5565b90565b60606003198201126103a057600435916001600160401b036024358181116103a05783613a47916004016139fa565b926044359182116103a057613a15916004016139fa565b9181601f840112156103a0578235916001600160401b0383116103a0576020808501948460051b0101116103a057565b9181601f840112156103a0578235916001600160401b0383116103a057602083818601950101116103a057565b9081518082526020808093019301915f5b828110613ada575050505090565b835185529381019392810192600101613acc565b6044359063ffffffff821682036103a057565b6064359063ffffffff821682036103a057565b6024359063ffffffff821682036103a057565b600435906001600160a01b03821682036103a057565b805415613b4f575f5260205f20905f90565b634e487b7160e01b5f52603260045260245ffd5b8054821015613b4f575f5260205f2001905f90565b5f5b838110613b895750505f910152565b8181015183820152602001613b7a565b90602091613bb281518092818552858086019101613b78565b601f01601f1916010190565b60031115613bc857565b634e487b7160e01b5f52602160045260245ffd5b9092916001600160401b036020916040840195613bf881613bbe565b845216910152565b519081151582036103a057565b91908201809211610be157565b9081548082526020809201925f5260205f20915f905b828210613c3e575050505090565b835485529384019360019384019390910190613c30565b5f52600860205260405f205460125463ffffffff9182821611159182613c7a57505090565b909150601360205260405f20549160201c16111590565b5f52600760205260ff60405f20541680613ca85790565b50600c602052613a1560405f206151c4565b90600182811c92168015613ce8575b6020831014613cd457565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613cc9565b9060405191825f8254613d0481613cba565b908184526020946001916001811690815f14613d725750600114613d34575b505050613d3292500383613994565b565b5f90815285812095935091905b818310613d5a575050613d3293508201015f8080613d23565b85548884018501529485019487945091830191613d41565b92505050613d3294925060ff191682840152151560051b8201015f8080613d23565b81810292918115918404141715610be157565b91909163ffffffff80809416911601918211610be157565b6001600160401b0381116107895760051b60200190565b805115613b4f5760200190565b805160011015613b4f5760400190565b8051821015613b4f5760209160051b010190565b356001600160401b03811681036103a05790565b90613e576040519182613e3a6020820192602084526040830190613c1a565b0392613e4e601f1994858101835282613994565b519020926155f8565b90613e826040519182613e766020820195602087526040830190613abb565b03908101835282613994565b519020036127ae57565b9190613e97836155f8565b91815192602092848401808511610be1576040809601809111610be157613f3f5f8694613eed89613f529681519681613ed989935180928d8087019101613b78565b8201908a8201520388810187520185613994565b613f6160018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b8752606060048801526064870190613abb565b6003199384878303016024880152613b99565b91848303016044850152613b99565b03925af1918215613fe7575f92613fb1575b505015613fa157507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311613fe0575b613fc88183613994565b810103126103a057613fd990613c00565b5f80613f73565b503d613fbe565b83513d5f823e3d90fd5b5f198114610be15760010190565b9190811015613b4f5760051b0190565b92909493835f526020916007835260409160ff835f2054161561426657855f52600c8452825f2090614040826151c4565b61425557865f52600d8552835f20335f528552835f20546140618782613c0d565b63ffffffff918260038096015416801515908161424b575b5061423a571580614231575b614216575b885f9b959b52600d8752855f20335f528752855f2055875f5260148652845f205416905f998215159a5b8881106140f0575050505050507f6f18c67c9107f36e4ce1cb5e8d75c8a4a40acd0c76e4c8c381b8a6ca6f7c827c9293949550519283523392a3565b806141126141008e938c8a613fff565b3561410c3687876139b5565b90615252565b91614167575b6141223083615895565b8a5f5260088952875f2091825492600160401b841015610789578361414d9160018096018155613b63565b8192915490891b91821b915f19901b1916179055016140b4565b90888115614204575b5f80516020615ce48339815191525489516304559f7160e01b8152600481019390935260248301879052600160f81b6044840152829060649082905f906001600160a01b03165af19081156141fa575f916141cd575b5090614118565b90508881813d83116141f3575b6141e48183613994565b810103126103a057515f6141c6565b503d6141da565b88513d5f823e3d90fd5b5f915061420f6159f1565b9150614170565b885f5260138752855f2061422a8154613ff1565b905561408a565b50801515614085565b86516304e2210160e01b8152600490fd5b905082115f614079565b83516333b094a160e01b8152600490fd5b82516333b094a160e01b8152600490fd5b90613a15918015614298575b8161573a57905061429261594b565b9061573a565b506142a161594b565b614283565b90613a159180156142c1575b8161578e579050611a2061594b565b506142ca61594b565b6142b2565b90613a159180156142f0575b816158415790506142ea61594b565b90615841565b506142f961594b565b6142db565b9081156143a1575b801561438f575b602090606460018060a01b035f80516020615ce48339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115610836575f91614360575090565b90506020813d602011614387575b8161437b60209383613994565b810103126103a0575190565b3d915061436e565b50602061439a615a43565b905061430d565b90506143ab615a43565b90614306565b90815f526007602052604060ff815f20541661443557825f526008602052805f2092835415614424576143e381613c55565b15614413575f52601460205263ffffffff815f205460201c166144035750565b51632bc139db60e11b8152600490fd5b8151637103b80560e01b8152600490fd5b81516333b094a160e01b8152600490fd5b516333b094a160e01b8152600490fd5b5f52601060205260405f209060405160e081018181106001600160401b03821117610789576040526006815260c03660208301378092805461448683613dd6565b52600181015461449583613de3565b526002810154825160021015613b4f5760608301526003810154825160031015613b4f576080830152600481015490825160041015613b4f5760059160a0840152015490805160051015613b4f5760c00152565b60405161451a816145066020820194604086526060830190613abb565b30604083015203601f198101835282613994565b51902090565b93905f9195939295602060018060a01b035f80516020615ce48339815191525416604460405180968193639cd07acb60e01b835260016004840152600460248401525af1928315610836575f93614c59575b5061457b6159f1565b9687955f985b84548a10156149685761459383613bbe565b826146f6576145a28a86613b63565b90549060031b1c8781156146e6575b88156146d4575b602090606460018060a01b035f80516020615ce48339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610836575f916146a2575b505b602089606460018060a01b035f80516020615ce48339815191525416935f6040519586948593637702dcff60e01b855260048501528d602485015260448401525af1908115610836575f9161466f575b5061466790600192615ab8565b990198614581565b90506020813d60201161469a575b8161468a60209383613994565b810103126103a05751600161465a565b3d915061467d565b90506020813d6020116146cc575b816146bd60209383613994565b810103126103a057515f614608565b3d91506146b0565b5060206146df6159f1565b90506145b8565b90506146f06159f1565b906145b1565b6146ff83613bbe565b6001830361472657614721846147158c88613b63565b90549060031b1c615a8f565b61460a565b6147308a86613b63565b90549060031b1c878115614958575b8815614946575b602090606460018060a01b035f80516020615ce48339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610836575f91614914575b506147a18b87613b63565b90549060031b1c858115614904575b86156148f2575b602090606460018060a01b035f80516020615ce48339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af1908115610836575f916148c0575b508082156148b0575b1561489e575b602090606460018060a01b035f80516020615ce48339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610836575f9161486c575b5061460a565b90506020813d602011614896575b8161488760209383613994565b810103126103a057515f614866565b3d915061487a565b5060206148a9615a43565b9050614816565b91506148ba615a43565b91614810565b90506020813d6020116148ea575b816148db60209383613994565b810103126103a057515f614807565b3d91506148ce565b5060206148fd6159f1565b90506147b7565b905061490e6159f1565b906147b0565b90506020813d60201161493e575b8161492f60209383613994565b810103126103a057515f614796565b3d9150614922565b5060206149516159f1565b9050614746565b90506149626159f1565b9061473f565b965096945096505050506040519161497f83613966565b600183526020368185013761499383613dd6565b525f80516020615d64833981519152545f80516020615d44833981519152549094905f906001600160a01b0316803b156103a0575f6040518092637d6e912360e11b8252602060048301528183816149ee602482018c613abb565b03925af1801561083657614c48575b505f80516020615d24833981519152546001600160a01b0316803b1561081f57816040518092633263b83b60e01b825289600483015260606024830152818381614a4a606482018c613abb565b63564b7f3160e11b604483015203925af1801561081457908291614c34575b508690525f80516020615cc48339815191528060205260408220546107eb57868252602052604081208451916001600160401b0383116107d757600160401b83116107d7578154838355808410614c0d575b506020860191815260208120905b838110614bf9575050505090614b78600292614af25f80516020615d6483398151915254613ff1565b5f80516020615d64833981519152558660405193614b0f85613930565b84526020840191614b1f81613bbe565b825260408401905f8252606085019687525f52600e60205260405f2093518455600184019151614b4e81613bbe565b614b5781613bbe565b8254915161ffff1990921660ff919091161790151560081b61ff0016179055565b019051908151916001600160401b03831161078957600160401b8311610789578154838355808410614bd3575b50602001905f5260205f205f5b838110614bbf5750505050565b600190602084519401938184015501614bb2565b825f528360205f2091820191015b818110614bee5750614ba5565b5f8155600101614be1565b600190602084519401938184015501614ac9565b82825260208220908482015b8183018110614c29575050614abb565b5f8155600101614c19565b614c3d90613981565b61081157805f614a69565b614c529150613981565b5f806149fd565b9092506020813d602011614c85575b81614c7560209383613994565b810103126103a05751915f614572565b3d9150614c68565b903590601e19813603018212156103a057018035906001600160401b0382116103a0576020019181360383136103a057565b3563ffffffff811681036103a05790565b908060209392818452848401375f828201840152601f01601f1916010190565b90614cfb8280614c8d565b90501561036a576001600160401b03614d1660808401613e07565b161515806151a5575b61036a57611ed291614d32600654613ff1565b806006555f52600760205260405f20600160ff19825416179055604051614d5881613966565b60018152602081016103e881526006545f52600b60205260405f20915190614d7f82613bbe565b614d8882613bbe565b60ff68ffffffffffffffff008454925160081b1692169068ffffffffffffffffff191617179055614dbf611ed26040830183614c8d565b602081519101206001600160401b0363ffffffff614ddd8480614c8d565b9190614e1f614def6020880188614c8d565b614e16614dfe60608b01614cbf565b94614e0b60808c01613e07565b976040519d8e61394b565b8b5236916139b5565b60208901528460408901521660608701521660808501526006545f52600c60205260405f209380518051906001600160401b038211610789578190614e648854613cba565b601f8111615158575b50602090601f83116001146150f0575f926150e5575b50508160011b915f199060031b1c19161785555b60208101519485516001600160401b03811161078957614eba6001830154613cba565b601f81116150a1575b506020601f82116001146150145792600360c093835f80516020615d04833981519152979463ffffffff976001600160401b039b9c5f92615009575b50505f1982851b1c1916600191821b17908201555b604083015160028201550190846060820151166bffffffffffffffff000000006080845493015160201b16916001600160601b03191617179055600654958695867f32577192bbbc1f0e651866ba014de6593be16ad654a390b365e7ff6f79d6e0b160408051837fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2600181526103e86020820152a2614fb68180614c8d565b959091614ff1614fc96020830183614c8d565b90612167614fda6040860186614c8d565b9290936121596121476080612cd160608b01614cbf565b9460608701521660808501521660a08301520390a290565b015190505f80614eff565b600183015f5260205f20975f5b601f1984168110615089575060c0936001846001600160401b039a9b63ffffffff98956003955f80516020615d048339815191529b98601f19811610615072575b505050811b016001820155614f14565b01515f1983871b60f8161c191690555f8080615062565b828201518a5560019099019860209283019201615021565b600183015f5260205f20601f830160051c8101602084106150de575b601f830160051c820181106150d3575050614ec3565b5f81556001016150bd565b50806150bd565b015190505f80614e83565b9250875f5260205f20905f935b601f198416851061513d576001945083601f19811610615125575b505050811b018555614e97565b01515f1960f88460031b161c191690555f8080615118565b818101518355602094850194600190930192909101906150fd565b909150875f5260205f20601f840160051c81016020851061519e575b90849392915b601f830160051c82018110615190575050614e6d565b5f815585945060010161517a565b5080615174565b506151b260808301613e07565b6001600160401b034291161115614d1f565b6003015460201c6001600160401b031680151590816151e1575090565b905042101590565b805f52600760205260405f209060ff19918281541690557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d350858790815f80a2600f60205260405f2054918261523b57505050565b825f52600760205260405f209081541690555f80a2565b60206152a29260018060a01b0392835f80516020615ce48339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190613b99565b6004606483015203925af1918215610836575f92615312575b505f80516020615d448339815191525416803b156103a057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561083657615309575090565b613a1590613981565b9091506020813d60201161533e575b8161532e60209383613994565b810103126103a05751905f6152bb565b3d9150615321565b8151929161535384613bbe565b61535c84613bbe565b6001809414615531576002815161537281613bbe565b61537b81613bbe565b14615472576020015163ffffffff90811691906153966159f1565b9461539f615a43565b90805f915b61541e575b50508315610bf5576153f0936153e1916153d688918915928361540b575b61372e90878681041690615bb1565b97906153fd576157e2565b9154169080156153f457615c64565b9190565b506119ab6159f1565b506154066159f1565b6157e2565b5061372e6154176159f1565b90506153c7565b9091845483101561546c5781615464819261372e61544e61543f888b613b63565b9d905460039e8f1b1c90615ab8565b9b615459888b613b63565b9054911b1c8c615a8f565b9301916153a4565b916153a9565b602001516001600160401b03169061548861599e565b93805f915b6154f9575b50508115610bf5576153f0916154ce6001600160801b039186871590816154e6575b6154c390858481041690615bb1565b97906154dd576157e2565b9154169080156119a257615c64565b5061540661599e565b506154c36154f261599e565b90506154b4565b9094825486101561552b57816155238192610a306155178a88613b63565b90549060031b1c615698565b96019161548d565b94615492565b602001516001600160401b03908116919061554a61594b565b94805f915b6155b5575b50508215610bf5576155876153f09386871590816155a2575b61557c90858481041690615bb1565b9790615599576157e2565b9154169080615c6457506119ab61594b565b5061540661594b565b5061557c6155ae61594b565b905061556d565b909583548710156155e157816155d981926155d3611a6a8b89613b63565b90614277565b97019161554f565b95615554565b906002811015613b4f5760051b0190565b805f525f80516020615cc4833981519152908160205260405f205415615633575f5260205261322b613a1560405f2060405192838092613c1a565b60405163d66ca67560e01b8152600490fd5b5f80516020615ce4833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610836575f91614360575090565b5f80516020615ce4833981519152546040516307227b9160e21b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af1908115610836575f91614360575090565b60205f91604460018060a01b035f80516020615ce483398151915254169160405194859384926307227b9160e21b84526004840152600460248401525af1908115610836575f91614360575090565b90602090606460018060a01b035f80516020615ce48339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610836575f91614360575090565b90602090606460018060a01b035f80516020615ce48339815191525416935f6040519586948593630afe14ad60e31b8552600485015260248401528160448401525af1908115610836575f91614360575090565b5f80516020615ce483398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115610836575f91614360575090565b90602090606460018060a01b035f80516020615ce48339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af1908115610836575f91614360575090565b5f80516020615d44833981519152546001600160a01b031691823b156103a057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610836576158f35750565b613d3290613981565b60205f91604460018060a01b035f80516020615ce48339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610836575f91614360575090565b5f80516020615ce483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610836575f91614360575090565b5f80516020615ce483398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115610836575f91614360575090565b5f80516020615ce483398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610836575f91614360575090565b5f602060018060a01b035f80516020615ce48339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610836575f91614360575090565b90613a15918015615aaa575b816158415790506142ea6159f1565b50615ab36159f1565b615a9b565b90613a15918015615ad3575b8161573a5790506142926159f1565b50615adc6159f1565b615ac4565b90613a15918015615afc575b8161573a57905061429261599e565b50615b0561599e565b615aed565b63ffffffff916020918015615b76575b5f80516020615ce483398151915254604051637210768160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610836575f91614360575090565b506064615b816159f1565b9050615b1a565b90613a15918015615ba3575b81615c10579050611a026159f1565b50615bac6159f1565b615b94565b5f80516020615ce4833981519152546040516385362ee760e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115610836575f91614360575090565b90602090606460018060a01b035f80516020615ce48339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610836575f91614360575090565b5f80516020615ce483398151915254604051635a53accb60e01b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115610836575f9161436057509056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497012238edf3b473e3ca7d97a94ddef827ba743f66cf3673751b593098c31f7bfcf69e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type AIDiscoveryFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AIDiscoveryFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AIDiscoveryFHE__factory extends ContractFactory {
+  constructor(...args: AIDiscoveryFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AIDiscoveryFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AIDiscoveryFHE__factory {
+    return super.connect(runner) as AIDiscoveryFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AIDiscoveryFHEInterface {
+    return new Interface(_abi) as AIDiscoveryFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AIDiscoveryFHE {
+    return new Contract(address, _abi, runner) as unknown as AIDiscoveryFHE;
+  }
+}
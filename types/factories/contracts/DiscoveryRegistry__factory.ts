@@ -0,0 +1,633 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  DiscoveryRegistry,
+  DiscoveryRegistryInterface,
+} from "../../contracts/DiscoveryRegistry";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotReviewer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SelfReview",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownDiscovery",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum DiscoveryRegistry.Status",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "DiscoveryStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "value",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "hypothesisHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "hypothesis",
+        type: "string",
+      },
+    ],
+    name: "DiscoverySubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "ReviewerAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "ReviewerRemoved",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "addCategoryReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "addReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "canReview",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "discoveryCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getDiscoveries",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "timestamp",
+            type: "uint64",
+          },
+          {
+            internalType: "enum DiscoveryRegistry.Status",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "euint32",
+            name: "value",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "hypothesisHash",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct DiscoveryRegistry.Discovery[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "getDiscovery",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "owner",
+            type: "address",
+          },
+          {
+            internalType: "uint64",
+            name: "timestamp",
+            type: "uint64",
+          },
+          {
+            internalType: "enum DiscoveryRegistry.Status",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "euint32",
+            name: "value",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "hypothesisHash",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct DiscoveryRegistry.Discovery",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "discoveryOwner",
+        type: "address",
+      },
+    ],
+    name: "getDiscoveryCountByOwner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "discoveryOwner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getDiscoveryIdsByOwner",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "isCategoryReviewer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isReviewer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "removeCategoryReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "reviewer",
+        type: "address",
+      },
+    ],
+    name: "removeReviewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DiscoveryRegistry.Status",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "setStatus",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "hypothesis",
+        type: "string",
+      },
+    ],
+    name: "submitDiscovery",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610183575f6060610014610187565b828152826020820152826040820152015261002d610187565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55604051335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a361145f90816101bb8239f35b5f80fd5b60405190608082016001600160401b038111838210176101a657604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f803560e01c806306d82eba14610ed65780630c07d8a614610e2d5780631929bfbd1461095b57806341dfd4981461093d57806348f4da20146109215780635ae8f35e1461070d5780635be6a2a71461063757806373a82b5f146105b85780637fd3d23e1461057f5780638da5cb5b14610558578063c9442dac146104cd578063d896dd64146103b7578063da1f12ab1461039a578063ea0470be146102d5578063ef0ae40814610285578063f22ccc49146101a2578063f2fde38b146101215763fdc6258a146100e0575f80fd5b3461011e57602036600319011261011e5760209060ff906040906001600160a01b0361010a610f12565b168152600184522054166040519015158152f35b80fd5b503461011e57602036600319011261011e5761013b610f12565b8154906001600160a01b038083169133839003610190571680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b6040516330cd747160e01b8152600490fd5b503461011e57602036600319011261011e576004356101bf611385565b508015801561027a575b610268578160409161026493526004602052206003604051916101eb8361119f565b80546001600160a01b038116845260a081901c6001600160401b0316602085015261021f9060e01c60ff16604085016112c2565b60405161023a8161023381600186016110e7565b03826111ba565b606084015260028101546080840152015460a0820152604051918291602083526020830190611029565b0390f35b6040516322c8be9760e01b8152600490fd5b5060035481116101c9565b503461011e5760406102a49161029a36610f55565b949190369161125d565b6020815191012081526002602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b503461011e576102e436610f55565b8354909291906001600160a01b0390811633036101905761030636838561125d565b908151602080930120908187526002835260408720951694855f52825260ff60405f20541615610388577fc2029f3deca09ffbfe4cf1390b5fc22a037c612169724accbd90b1fcc8afad8c936103829187526002835260408720865f52835260405f2060ff1981541690556040519383859485528401916112a2565b0390a280f35b604051630309cb8760e51b8152600490fd5b503461011e578060031936011261011e5760206040516127118152f35b503461011e57604036600319011261011e5760243560043560038210156104c9576103e2338261108a565b156104895781158015610451575b61043f57808352600460205261040982604085206112ce565b6104166040518093610fca565b7fa736d904f212a241cd35bd68bdb0833e77e70f4a2ec7022e04c699d1ee444e7560203393a380f35b6040516307a92f1960e51b8152600490fd5b50808352600460205260ff604084205460e01c1660038110156104755715156103f0565b634e487b7160e01b84526021600452602484fd5b825250600460205260409020546001600160a01b031633146104b757604051631bed7fef60e21b8152600490fd5b604051633c82b95f60e11b8152600490fd5b8280fd5b503461011e57602036600319011261011e576104e7610f12565b81546001600160a01b039190821633036101905716808252600160205260ff604083205416156103885780825260016020526040822060ff1981541690557fc2029f3deca09ffbfe4cf1390b5fc22a037c612169724accbd90b1fcc8afad8c60408051602081525f6020820152a280f35b503461011e578060031936011261011e57546040516001600160a01b039091168152602090f35b503461011e57602036600319011261011e576020906040906001600160a01b036105a7610f12565b168152600583522054604051908152f35b503461011e57602036600319011261011e576105d2610f12565b81546001600160a01b039190821633036101905716801561038857808252600160205260408220600160ff198254161790557fff78861257b7c8741f7c41106422f008cdf7193184ccb48f00f4b8c4a3e4318e60408051602081525f6020820152a280f35b503461011e57606036600319011261011e57610651610f12565b602435906044359081158015610703575b610388576001600160a01b031683526005602052604083208054909190838181106106e35750505082915b61069683611353565b935b8381106106b5576040516020808252819061026490820188610f97565b806106cb6106c5600193856113b5565b856112f2565b90549060031b1c6106dc82886113c2565b5201610698565b6106ec9161131b565b808210156106fc57505b9161068d565b90506106f6565b5060648211610662565b503461011e57604036600319011261011e57602480359182158015610917575b610388576003926003548060043510155f146108f5575050805b61075081611353565b9361075a8261133c565b9361076860405195866111ba565b8285526107748361133c565b845b601f19820181106108de575050835b838110610805576107a6878787604051938493604085526040850190610f97565b8381036020850152825190818152602081016020808460051b840101950193915b8383106107d45786860387f35b9193955091936020806107f3600193601f198682030187528951611029565b970193019301909286959492936107c7565b610811816004356113b5565b6001908181018091116108cb5790829161082d6001948b6113c2565b52610838828a6113c2565b5187526004602052604087209085604051926108538461119f565b61023361089a825494888060a01b038616875261088c60ff60a0976001600160401b03818a1c1660208b015260e01c16604089016112c2565b6040519283809286016110e7565b6060850152600281015460808501520154908201526108b982896113c2565b526108c481886113c2565b5001610785565b634e487b7160e01b875260116004528387fd5b6020906108e9611385565b82828a01015201610776565b610902906004359061131b565b808210156109105750610747565b9050610747565b506064831161072d565b503461011e578060031936011261011e57602060405160648152f35b503461011e578060031936011261011e576020600354604051908152f35b5034610def576080366003190112610def576004356001600160401b038111610def5761098c903690600401610f28565b6044929192356001600160401b038111610def576109ae903690600401610f28565b90916064356001600160401b038111610def576109cf903690600401610f28565b93909282158015610e25575b61038857610a526109f15f93602093369161125d565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163196d0b9b60e01b81526024803560048301523390820152608060448201529485936001600160a01b0390921692849283916084830190610feb565b6004606483015203925af1908115610de4575f91610df3575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0316803b15610def57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610de457610dd1575b50610adc30826113d6565b610ae633826113d6565b600354945f198614610dbd5760018601600355610b0436868661125d565b6020815191012090604051610b188161119f565b33815260208101906001600160401b034216825260408101838152610b3e36888d61125d565b90606083019182528660808401528560a084015260018b0185526004602052604085209360018060a01b038451168554916001600160401b0360a01b905160a01b169163ffffffff60e01b1617178455516003811015610da957610ba290846112ce565b518051906001600160401b038211610d9557610bc160018501546110af565b601f8111610d51575b50602090601f8311600114610ce15791806003949260a0948892610cd6575b50505f1982861b1c1916600191821b17908501555b60808101516002850155015191015533815260056020526040812080549168010000000000000000831015610cc25750927f33cf057277e2742a0deb2713f422cbf5362ff97168bc37f57036ab43a7a698149492610c688360209b966001610cb4960181556112f2565b81549060031b9060018c01821b915f19901b1916179055610c966040519586956080875260808701916112a2565b918a85015260408401528281036060840152339660018901966112a2565b0390a3600160405191018152f35b634e487b7160e01b81526041600452602490fd5b015190505f80610be9565b906001850186526020862091865b601f1985168110610d395750926003949260019260a09583601f19811610610d22575b505050811b016001850155610bfe565b01515f1983881b60f8161c191690555f8080610d12565b91926020600181928685015181550194019201610cef565b60018501865260208620601f840160051c810160208510610d8e575b601f830160051c82018110610d83575050610bca565b5f8155600101610d6d565b5080610d6d565b634e487b7160e01b85526041600452602485fd5b634e487b7160e01b85526021600452602485fd5b634e487b7160e01b81526011600452602490fd5b610ddc919550611178565b5f935f610ad1565b6040513d5f823e3d90fd5b5f80fd5b90506020813d602011610e1d575b81610e0e602093836111ba565b81010312610def57515f610a6b565b3d9150610e01565b5084156109db565b34610def57610e3b36610f55565b5f546001600160a01b0391908216330361019057169182158015610ece575b610388577fff78861257b7c8741f7c41106422f008cdf7193184ccb48f00f4b8c4a3e4318e91610e8b36828461125d565b602081519101205f52600260205260405f20845f5260205260405f20600160ff19825416179055610ec96040519283926020845260208401916112a2565b0390a2005b508115610e5a565b34610def576040366003190112610def576024356001600160a01b0381168103610def57610f0860209160043561108a565b6040519015158152f35b600435906001600160a01b0382168203610def57565b9181601f84011215610def578235916001600160401b038311610def5760208381860195010111610def57565b6040600319820112610def57600435906001600160401b038211610def57610f7f91600401610f28565b90916024356001600160a01b0381168103610def5790565b9081518082526020808093019301915f5b828110610fb6575050505090565b835185529381019392810192600101610fa8565b906003821015610fd75752565b634e487b7160e01b5f52602160045260245ffd5b91908251928382525f5b848110611015575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610ff5565b9060018060a01b0382511681526001600160401b03602083015116602082015261105b60408301516040830190610fca565b60a080611077606085015160c0606086015260c0850190610feb565b9360808101516080850152015191015290565b90811580156110a4575b610268576110a1916111db565b90565b506003548211611094565b90600182811c921680156110dd575b60208310146110c957565b634e487b7160e01b5f52602260045260245ffd5b91607f16916110be565b80545f93926110f5826110af565b918282526020936001916001811690815f14611159575060011461111b575b5050505050565b90939495505f92919252835f2092845f945b83861061114557505050500101905f80808080611114565b80548587018301529401938590820161112d565b60ff19168685015250505090151560051b010191505f80808080611114565b6001600160401b03811161118b57604052565b634e487b7160e01b5f52604160045260245ffd5b60c081019081106001600160401b0382111761118b57604052565b90601f801991011681019081106001600160401b0382111761118b57604052565b5f908152600460205260409020805490916001600160a01b039081169116811461125757805f52600160205260ff60405f20541691821561121b57505090565b60019192506112349061023360405180948193016110e7565b602081519101205f52600260205260405f20905f5260205260ff60405f20541690565b50505f90565b9291926001600160401b03821161118b5760405191611286601f8201601f1916602001846111ba565b829481845281830111610def578281602093845f960137010152565b908060209392818452848401375f828201840152601f01601f1916010190565b6003821015610fd75752565b906003811015610fd757815460ff60e01b191660e09190911b60ff60e01b16179055565b8054821015611307575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b9190820391821161132857565b634e487b7160e01b5f52601160045260245ffd5b6001600160401b03811161118b5760051b60200190565b9061135d8261133c565b61136a60405191826111ba565b828152809261137b601f199161133c565b0190602036910137565b604051906113928261119f565b5f60a0838281528260208201528260408201526060808201528260808201520152565b9190820180921161132857565b80518210156113075760209160051b010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610def57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610de4576114475750565b61145090611178565b56fea164736f6c6343000818000a";
+
+type DiscoveryRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DiscoveryRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DiscoveryRegistry__factory extends ContractFactory {
+  constructor(...args: DiscoveryRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DiscoveryRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DiscoveryRegistry__factory {
+    return super.connect(runner) as DiscoveryRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DiscoveryRegistryInterface {
+    return new Interface(_abi) as DiscoveryRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DiscoveryRegistry {
+    return new Contract(address, _abi, runner) as unknown as DiscoveryRegistry;
+  }
+}
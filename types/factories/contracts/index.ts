@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as aiDiscoveryFheSol from "./AI_Discovery_Fhe.sol";
+export * as mocks from "./mocks";
+export { DiscoveryRegistry__factory } from "./DiscoveryRegistry__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
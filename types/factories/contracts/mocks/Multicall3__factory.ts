@@ -0,0 +1,112 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../../contracts/mocks/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576103a0908161001b8239f35b5f80fdfe6040608081526004906004361015610015575f80fd5b5f3560e01c6382ad56cb14610028575f80fd5b6020806003193601126102905767ffffffffffffffff906004358281116102905736602382011215610290578060040135838111610290576024936024830192602436918460051b0101116102905761008d610088839896959798610331565b61030b565b9482865261009a83610331565b601f19959086015f5b8181106102ae5750505f5b84811061015a5750505050505083519280840191818552835180935285850182878560051b8801019501965f925b8584106100e95787870388f35b909192939495603f1988820301845285808a51805115158452015191848282015282519283868301525f5b848110610145575050600192829185601f6060935f858286010152011601019a0194019401929795949391906100dc565b81810184015183820160600152899301610114565b61016a8186889c9b999a9c610349565b356001600160a01b038116810361029057610186828789610349565b8a81013590601e198136030182121561029057019081359186831161029057890190823603821361029057825f80949381948f519384928337810182815203925af13d156102a6573d90858211610294576101e7898b601f8501160161030b565b9182523d5f8a84013e5b15908180610276575b61023457906001929161020b6102d7565b911582528982015261021d828d61037f565b52610228818c61037f565b500198969597986100ae565b8a5162461bcd60e51b81528086018a90526017818601527f4d756c746963616c6c333a2063616c6c206661696c65640000000000000000006044820152606490fd5b508861028384898b610349565b01358015908115146101fa575b5f80fd5b83604186634e487b7160e01b5f52525ffd5b6060906101f1565b98898982809a9b9d9c6102bf6102d7565b925f84526060838501520101520199979698996100a3565b604051906040820182811067ffffffffffffffff8211176102f757604052565b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff8111838210176102f757604052565b67ffffffffffffffff81116102f75760051b60200190565b919081101561036b5760051b81013590605e1981360301821215610290570190565b634e487b7160e01b5f52603260045260245ffd5b805182101561036b5760209160051b01019056fea164736f6c6343000818000a";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
@@ -45,6 +45,18 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
+    getContractFactory(
+      name: "AIDiscoveryFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.AIDiscoveryFHE__factory>;
+    getContractFactory(
+      name: "DiscoveryRegistry",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.DiscoveryRegistry__factory>;
+    getContractFactory(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.Multicall3__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -90,6 +102,21 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
+    getContractAt(
+      name: "AIDiscoveryFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AIDiscoveryFHE>;
+    getContractAt(
+      name: "DiscoveryRegistry",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.DiscoveryRegistry>;
+    getContractAt(
+      name: "Multicall3",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.Multicall3>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -128,6 +155,18 @@ declare module "hardhat/types/runtime" {
       name: "IInputVerifier",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AIDiscoveryFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AIDiscoveryFHE>;
+    deployContract(
+      name: "DiscoveryRegistry",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.DiscoveryRegistry>;
+    deployContract(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -173,6 +212,21 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
+    deployContract(
+      name: "AIDiscoveryFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AIDiscoveryFHE>;
+    deployContract(
+      name: "DiscoveryRegistry",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.DiscoveryRegistry>;
+    deployContract(
+      name: "Multicall3",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
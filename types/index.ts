@@ -22,5 +22,11 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { AIDiscoveryFHE } from "./contracts/AI_Discovery_Fhe.sol/AIDiscoveryFHE";
+export { AIDiscoveryFHE__factory } from "./factories/contracts/AI_Discovery_Fhe.sol/AIDiscoveryFHE__factory";
+export type { DiscoveryRegistry } from "./contracts/DiscoveryRegistry";
+export { DiscoveryRegistry__factory } from "./factories/contracts/DiscoveryRegistry__factory";
+export type { Multicall3 } from "./contracts/mocks/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/mocks/Multicall3__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";